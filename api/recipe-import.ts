@@ -0,0 +1,58 @@
+export const config = { runtime: "edge" };
+
+import { importRecipe } from "../src/services/recipeImport";
+
+// Pages saved from recipe sites run large; anything past this isn't a recipe
+const MAX_CONTENT_LENGTH = 5 * 1024 * 1024;
+
+const CORS_HEADERS = { "Access-Control-Allow-Origin": "*" };
+
+// { content, filename? } -> { name, servings, ingredients, source } for the review screen
+export default async function handler(req: Request): Promise<Response> {
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 204,
+      headers: {
+        ...CORS_HEADERS,
+        "Access-Control-Allow-Methods": "POST, OPTIONS",
+        "Access-Control-Allow-Headers": "Content-Type, Authorization",
+        "Access-Control-Max-Age": "86400",
+      },
+    });
+  }
+
+  if (req.method !== "POST") {
+    return new Response("Method Not Allowed", { status: 405, headers: CORS_HEADERS });
+  }
+
+  try {
+    const body = (await req.json().catch(() => null)) as { content?: unknown; filename?: unknown } | null;
+    const content = body && typeof body.content === "string" ? body.content : "";
+    if (!content.trim()) {
+      return new Response("Bad Request: missing recipe content", { status: 400, headers: CORS_HEADERS });
+    }
+    if (content.length > MAX_CONTENT_LENGTH) {
+      return new Response("Bad Request: file too large", { status: 413, headers: CORS_HEADERS });
+    }
+
+    const filename = typeof body?.filename === "string" ? body.filename : undefined;
+    let recipe;
+    try {
+      recipe = importRecipe(content, filename);
+    } catch (error) {
+      // Unreadable content is the uploader's problem; anything else is ours
+      if (error instanceof SyntaxError) {
+        return new Response(`Could not read recipe: ${error.message}`, { status: 400, headers: CORS_HEADERS });
+      }
+      throw error;
+    }
+
+    return new Response(JSON.stringify(recipe), {
+      status: 200,
+      headers: { ...CORS_HEADERS, "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "unknown error";
+    return new Response(`Server error: ${message}`, { status: 500, headers: CORS_HEADERS });
+  }
+}
@@ -1,6 +1,7 @@
 export const config = { runtime: "edge" };
 
-import { parseVoiceToPlan, type ParsedPlan } from "../src/services/voiceIntent";
+import { buildSummary } from "../src/services/voiceIntent";
+import { createIntentParser } from "../src/services/intentParser";
 
 const ASSEMBLY_BASE = "https://api.assemblyai.com/v2";
 const ASSEMBLY_UPLOAD_URL = `${ASSEMBLY_BASE}/upload`;
@@ -102,33 +103,6 @@ async function pollTranscript(apiKey: string, transcriptId: string): Promise<str
   throw new Error("AssemblyAI transcription timed out");
 }
 
-function buildSummary(plan: ParsedPlan): string {
-  const lines: string[] = [];
-
-  for (const item of plan.add) {
-    const quantity = item.quantity && item.quantity > 0 ? ` x${item.quantity}` : "";
-    const note = item.note ? ` (${item.note})` : "";
-    lines.push(`<br>- ${item.name}${quantity}${note}`);
-  }
-
-  for (const item of plan.remove) {
-    lines.push(`<br>- ${item.name} (remove)`);
-  }
-
-  for (const item of plan.adjust) {
-    const delta = item.delta;
-    if (!delta) continue;
-    const sign = delta > 0 ? "+" : "-";
-    lines.push(`<br>- ${item.name} (${sign}${Math.abs(delta)})`);
-  }
-
-  if (!lines.length) {
-    return "No grocery list changes requested.";
-  }
-
-  return `Here's what I can do:${lines.join("")}`;
-}
-
 export default async function handler(req: Request): Promise<Response> {
   if (req.method === "OPTIONS") {
     return new Response(null, {
@@ -200,19 +174,14 @@ export default async function handler(req: Request): Promise<Response> {
       });
     }
 
-    const parsedPlan = parseVoiceToPlan(transcript);
+    const parsedPlan = await createIntentParser(process.env).parse(transcript);
     const summary = buildSummary(parsedPlan);
 
     return new Response(
       JSON.stringify({
         transcript,
         summary,
-        plan: {
-          add: parsedPlan.add,
-          remove: parsedPlan.remove,
-          adjust: parsedPlan.adjust,
-          raw: parsedPlan.raw,
-        },
+        plan: parsedPlan,
       }),
       {
         status: 200,
@@ -0,0 +1,136 @@
+// Service worker for the installable app.
+// - The app shell (index.html plus the hashed Vite bundles) is cached so the app opens offline.
+// - Images (item photos, specials artwork) are cached as they are viewed.
+// - Supabase and /api requests always go to the network; the grocery list has its own
+//   IndexedDB cache and mutation queue for offline use.
+
+// Registered as /sw.js?build=<id> (see main.tsx), so each deploy installs a new worker and
+// activating it drops the previous build's caches
+const VERSION = new URL(self.location.href).searchParams.get("build") || "dev";
+const SHELL_CACHE = `shell-${VERSION}`;
+const ASSET_CACHE = `assets-${VERSION}`;
+// Images don't change between builds, so they outlive a deploy
+const IMAGE_CACHE = "images";
+const MAX_IMAGES = 300;
+
+const SHELL_URLS = [
+  "/",
+  "/index.html",
+  "/manifest.webmanifest",
+  "/favicon.ico",
+  "/icons/icon-192.png",
+  "/icons/icon-512.png",
+];
+
+// The page that registers the worker has already loaded its bundles without it, so fetch the
+// ones index.html points at now; otherwise going offline straight after install has no app
+async function precacheShell() {
+  const cache = await caches.open(SHELL_CACHE);
+  await cache.addAll(SHELL_URLS);
+  const shell = await cache.match("/index.html");
+  const html = shell ? await shell.text() : "";
+  const assets = [...html.matchAll(/(?:src|href)="(\/assets\/[^"]+)"/g)].map((match) => match[1]);
+  const assetCache = await caches.open(ASSET_CACHE);
+  await assetCache.addAll([...new Set(assets)]);
+}
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(precacheShell().then(() => self.skipWaiting()));
+});
+
+self.addEventListener("activate", (event) => {
+  const current = new Set([SHELL_CACHE, ASSET_CACHE, IMAGE_CACHE]);
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) => Promise.all(keys.filter((key) => !current.has(key)).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+async function trimCache(cacheName, maxEntries) {
+  const cache = await caches.open(cacheName);
+  const keys = await cache.keys();
+  for (let i = 0; i < keys.length - maxEntries; i++) {
+    await cache.delete(keys[i]);
+  }
+}
+
+// Navigations: network first so deploys show up straight away, cached shell when offline
+async function handleNavigation(request) {
+  try {
+    const response = await fetch(request);
+    // Error pages must not replace the shell
+    if (response.ok) {
+      const cache = await caches.open(SHELL_CACHE);
+      cache.put("/index.html", response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = await caches.match("/index.html");
+    return cached || Response.error();
+  }
+}
+
+// Hashed build assets (/assets/*) never change, so a cached copy is always valid
+async function handleAsset(request) {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(ASSET_CACHE);
+    cache.put(request, response.clone());
+  }
+  return response;
+}
+
+// Other same-origin files (manifest, icons, robots.txt) keep their names across deploys:
+// serve the cached copy and refresh it in the background
+async function handleStatic(request) {
+  const cache = await caches.open(SHELL_CACHE);
+  const cached = await cache.match(request);
+  const network = fetch(request)
+    .then((response) => {
+      if (response.ok) cache.put(request, response.clone());
+      return response;
+    })
+    .catch(() => cached || Response.error());
+  return cached || network;
+}
+
+// Images: serve from cache, refresh in the background
+async function handleImage(request) {
+  const cache = await caches.open(IMAGE_CACHE);
+  const cached = await cache.match(request);
+  const network = fetch(request)
+    .then((response) => {
+      // Opaque responses (cross-origin images without CORS) are still worth keeping
+      if (response.ok || response.type === "opaque") {
+        cache.put(request, response.clone()).then(() => trimCache(IMAGE_CACHE, MAX_IMAGES));
+      }
+      return response;
+    })
+    .catch(() => cached || Response.error());
+  return cached || network;
+}
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+  const url = new URL(request.url);
+
+  if (request.mode === "navigate") {
+    event.respondWith(handleNavigation(request));
+    return;
+  }
+  if (request.destination === "image") {
+    event.respondWith(handleImage(request));
+    return;
+  }
+  if (url.origin !== self.location.origin || url.pathname.startsWith("/api/")) return;
+  if (url.pathname.startsWith("/assets/")) {
+    event.respondWith(handleAsset(request));
+    return;
+  }
+  event.respondWith(handleStatic(request));
+});
@@ -0,0 +1,345 @@
+// Specials catalogue importer, shared by the import-specials CLI and the /api/specials-import route.
+// Parses a CSV or JSON catalogue, validates and normalizes each row, then diffs it against the
+// specials table so a dry run can show exactly what an import would insert, update and expire.
+
+import { matchCategory } from '../src/lib/utils.ts';
+import { structuredPriceFromText } from '../src/services/money.ts';
+
+// Column names seen in retailer exports, mapped to the specials columns
+const COLUMN_ALIASES = {
+  item: ['item', 'name', 'product', 'product_name', 'title'],
+  price: ['price', 'sale_price', 'now'],
+  discount: ['discount', 'saving', 'savings', 'save'],
+  discount_percentage: ['discount_percentage', 'discount_percent', 'percent_off', 'pct_off'],
+  category: ['category', 'department', 'aisle'],
+  catalogue_date: ['catalogue_date', 'date', 'week'],
+  valid_from: ['valid_from', 'start_date', 'starts'],
+  valid_to: ['valid_to', 'end_date', 'valid_until', 'expires', 'ends'],
+  img: ['img', 'image', 'image_url'],
+  link: ['link', 'url', 'product_url'],
+  quantity: ['quantity', 'qty'],
+};
+
+const MAX_ITEM_LENGTH = 200;
+
+// A catalogue runs for a week unless the file says otherwise
+const CATALOGUE_DAYS = 7;
+
+// Fields compared when deciding whether an existing special needs updating
+const COMPARED_FIELDS = ['price', 'discount', 'discount_percentage', 'category', 'app_category', 'img', 'link', 'quantity', 'valid_from', 'valid_to', 'on_special'];
+
+export function normalizeItemName(name) {
+  return String(name).toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+const dedupeKey = (row) => `${normalizeItemName(row.item)}|${row.catalogue_date ?? ''}`;
+
+// Minimal RFC 4180 reader: quoted fields, doubled quotes, commas and newlines inside quotes
+function parseCsv(content) {
+  const records = [];
+  let record = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+  const [header = [], ...rows] = records.filter(r => r.some(value => value.trim() !== ''));
+  const columns = header.map(h => h.trim().toLowerCase().replace(/[\s-]+/g, '_'));
+  return rows.map(values => Object.fromEntries(columns.map((column, index) => [column, values[index] ?? ''])));
+}
+
+/**
+ * Reads a catalogue file into raw records. format is 'csv' or 'json'; when omitted it is taken
+ * from the file name, then guessed from the content. JSON may be an array or { items: [...] }.
+ */
+export function parseCatalogue(content, { format, filename } = {}) {
+  const resolved = format
+    || (filename?.toLowerCase().endsWith('.json') ? 'json' : filename?.toLowerCase().endsWith('.csv') ? 'csv' : null)
+    || (/^\s*[[{]/.test(content) ? 'json' : 'csv');
+  if (resolved === 'json') {
+    const parsed = JSON.parse(content);
+    const items = Array.isArray(parsed) ? parsed : parsed?.items;
+    if (!Array.isArray(items)) throw new Error('JSON catalogue must be an array of items or { "items": [...] }');
+    return items.map(item => Object.fromEntries(
+      Object.entries(item ?? {}).map(([key, value]) => [key.trim().toLowerCase().replace(/[\s-]+/g, '_'), value])
+    ));
+  }
+  return parseCsv(content);
+}
+
+const pick = (raw, field) => {
+  for (const alias of COLUMN_ALIASES[field]) {
+    const value = raw[alias];
+    if (value !== undefined && value !== null && String(value).trim() !== '') return String(value).trim();
+  }
+  return null;
+};
+
+const firstNumber = (value) => {
+  const match = String(value).replace(/,/g, '').match(/\d+(\.\d+)?/);
+  return match ? Number(match[0]) : null;
+};
+
+const isPlainAmount = (value) => /^\$?\s*\d+(\.\d+)?$/.test(value);
+
+// "3.5" and "$3.5" become "$3.50"; descriptive prices ("2 for $5", "$1.20/kg") are kept as written
+export function normalizePrice(value) {
+  if (value === null) return null;
+  if (firstNumber(value) === null) throw new Error(`price "${value}" has no amount`);
+  return isPlainAmount(value) ? `$${firstNumber(value).toFixed(2)}` : value.replace(/\s+/g, ' ');
+}
+
+// A bare amount is a dollar saving: "2" becomes "Save $2.00"
+export function normalizeDiscount(value) {
+  if (value === null) return null;
+  if (firstNumber(value) === null) throw new Error(`discount "${value}" has no amount`);
+  return isPlainAmount(value) ? `Save $${firstNumber(value).toFixed(2)}` : value.replace(/\s+/g, ' ');
+}
+
+// "25", "25%" and "0.25" all become "25%"
+export function normalizeDiscountPercentage(value) {
+  if (value === null) return null;
+  let percent = firstNumber(value);
+  if (percent === null) throw new Error(`discount_percentage "${value}" has no amount`);
+  if (!value.includes('%') && percent > 0 && percent < 1) percent *= 100;
+  if (percent <= 0 || percent >= 100) throw new Error(`discount_percentage "${value}" is not between 0 and 100`);
+  return `${Math.round(percent)}%`;
+}
+
+// ISO dates pass through; Australian day-first dates (19/10/2026) are converted
+export function normalizeDate(value) {
+  if (value === null) return null;
+  const iso = value.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  const dayFirst = value.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/);
+  const [year, month, day] = iso
+    ? [iso[1], iso[2], iso[3]]
+    : dayFirst
+      ? [dayFirst[3], dayFirst[2].padStart(2, '0'), dayFirst[1].padStart(2, '0')]
+      : [];
+  const date = year ? new Date(`${year}-${month}-${day}T00:00:00Z`) : null;
+  if (!date || Number.isNaN(date.getTime()) || date.toISOString().slice(0, 10) !== `${year}-${month}-${day}`) {
+    throw new Error(`catalogue_date "${value}" is not a date`);
+  }
+  return `${year}-${month}-${day}`;
+}
+
+export function addDays(isoDate, days) {
+  const date = new Date(`${isoDate}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+}
+
+const normalizeLink = (value, field) => {
+  if (value === null) return null;
+  if (!/^https?:\/\/\S+$/i.test(value)) throw new Error(`${field} "${value}" is not an http(s) URL`);
+  return value;
+};
+
+/**
+ * Validates one raw record and returns the specials row it becomes. Every problem with the
+ * record is collected so the report can list them all at once.
+ */
+export function normalizeRow(raw, { catalogueDate } = {}) {
+  const errors = [];
+  const attempt = (fn) => {
+    try {
+      return fn();
+    } catch (error) {
+      errors.push(error.message);
+      return null;
+    }
+  };
+
+  const item = pick(raw, 'item')?.replace(/\s+/g, ' ') ?? null;
+  if (!item) errors.push('item is missing');
+  else if (item.length > MAX_ITEM_LENGTH) errors.push(`item is longer than ${MAX_ITEM_LENGTH} characters`);
+
+  const price = attempt(() => normalizePrice(pick(raw, 'price')));
+  const discount = attempt(() => normalizeDiscount(pick(raw, 'discount')));
+  let discountPercentage = attempt(() => normalizeDiscountPercentage(pick(raw, 'discount_percentage')));
+  // Work the percentage out from a plain price and saving when the file leaves it out
+  if (!discountPercentage && price && discount && isPlainAmount(price) && /^Save \$\d/.test(discount)) {
+    const now = firstNumber(price);
+    const saved = firstNumber(discount);
+    if (now + saved > 0) discountPercentage = `${Math.round((saved / (now + saved)) * 100)}%`;
+  }
+  const startsValue = attempt(() => normalizeDate(pick(raw, 'valid_from')));
+  const date = attempt(() => normalizeDate(pick(raw, 'catalogue_date'))) ?? startsValue ?? catalogueDate ?? null;
+  if (!date) errors.push('catalogue_date is missing');
+  const validFrom = startsValue ?? date;
+  const validTo = attempt(() => normalizeDate(pick(raw, 'valid_to'))) ?? (validFrom ? addDays(validFrom, CATALOGUE_DAYS - 1) : null);
+  if (validFrom && validTo && validTo < validFrom) errors.push(`valid_to ${validTo} is before valid_from ${validFrom}`);
+  const category = pick(raw, 'category');
+  const quantityValue = pick(raw, 'quantity');
+  const quantity = quantityValue === null ? 1 : Number.parseInt(quantityValue, 10);
+  if (!Number.isInteger(quantity) || quantity < 1) errors.push(`quantity "${quantityValue}" is not a whole number`);
+
+  const row = {
+    item,
+    price,
+    discount,
+    discount_percentage: discountPercentage,
+    ...structuredPriceFromText(item, { price, discount, discount_percentage: discountPercentage }),
+    category,
+    // Stored so watched specials are matched on the app's categories without a copy of the mapping
+    app_category: matchCategory(category),
+    catalogue_date: date,
+    valid_from: validFrom,
+    valid_to: validTo,
+    img: attempt(() => normalizeLink(pick(raw, 'img'), 'img')),
+    link: attempt(() => normalizeLink(pick(raw, 'link'), 'link')),
+    quantity,
+    on_special: true,
+  };
+  return { row: errors.length === 0 ? row : null, errors };
+}
+
+/**
+ * Works out what importing `rows` would change. Rows are matched to existing specials by
+ * normalized item name and catalogue date, and on-special rows that have run their course are
+ * expired. Nothing is written here.
+ */
+export function diffCatalogue(existing, rows, today = new Date().toISOString().slice(0, 10)) {
+  const byKey = new Map(existing.map(special => [dedupeKey(special), special]));
+  const insert = [];
+  const update = [];
+  let unchanged = 0;
+  for (const row of rows) {
+    const current = byKey.get(dedupeKey(row));
+    if (!current) {
+      insert.push(row);
+      continue;
+    }
+    const changes = {};
+    for (const field of COMPARED_FIELDS) {
+      if ((current[field] ?? null) !== (row[field] ?? null)) changes[field] = [current[field] ?? null, row[field]];
+    }
+    if (Object.keys(changes).length > 0) update.push({ id: current.id, item: current.item, row, changes });
+    else unchanged++;
+  }
+  const dates = rows.map(row => row.catalogue_date).filter(Boolean).sort();
+  const oldestImported = dates[0];
+  const updated = new Set(update.map(change => change.id));
+  const expire = existing
+    // Rows with a window expire when it ends, so next week's catalogue can be loaded before this
+    // week's is over; older rows without one expire when a newer catalogue arrives
+    .filter(special => special.on_special && !updated.has(special.id) && (special.valid_to
+      ? special.valid_to < today
+      : Boolean(oldestImported && special.catalogue_date && special.catalogue_date < oldestImported)))
+    .map(special => ({ id: special.id, item: special.item, catalogue_date: special.catalogue_date }));
+  return { insert, update, unchanged, expire };
+}
+
+// PostgREST returns at most this many rows per request
+const PAGE_SIZE = 1000;
+
+// Loads the specials an import can touch: those from the imported catalogue dates, which rows are
+// matched against, and everything still on special, which may be expired. Paged, since a few
+// weeks of catalogues easily pass one response's limit.
+async function loadExistingSpecials(supabase, rows) {
+  const dates = [...new Set(rows.map(row => row.catalogue_date).filter(Boolean))];
+  const filter = dates.length > 0 ? `on_special.eq.true,catalogue_date.in.(${dates.join(',')})` : 'on_special.eq.true';
+  const existing = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('specials')
+      .select('id, item, price, discount, discount_percentage, category, app_category, catalogue_date, valid_from, valid_to, img, link, quantity, on_special')
+      .or(filter)
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw new Error(`Failed to load existing specials: ${error.message}`);
+    existing.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return existing;
+  }
+}
+
+/**
+ * Parses, validates and de-duplicates a catalogue file, diffs it against the specials table and,
+ * unless dryRun is set, applies the diff. Returns the report either way.
+ */
+export async function importCatalogue(supabase, { content, format, filename, catalogueDate, dryRun = true }) {
+  const records = parseCatalogue(content, { format, filename });
+  const defaultDate = catalogueDate ? normalizeDate(catalogueDate) : undefined;
+  const errors = [];
+  const rows = new Map();
+  let duplicates = 0;
+  records.forEach((raw, index) => {
+    // Header is line 1 in a CSV, so record n is on line n + 2; JSON items are numbered from 1
+    const line = format === 'json' || filename?.toLowerCase().endsWith('.json') ? index + 1 : index + 2;
+    const { row, errors: rowErrors } = normalizeRow(raw, { catalogueDate: defaultDate });
+    if (!row) {
+      errors.push({ line, item: pick(raw, 'item'), messages: rowErrors });
+      return;
+    }
+    // The last occurrence of an item in the file wins
+    if (rows.has(dedupeKey(row))) duplicates++;
+    rows.set(dedupeKey(row), row);
+  });
+
+  const existing = await loadExistingSpecials(supabase, Array.from(rows.values()));
+  const diff = diffCatalogue(existing, Array.from(rows.values()));
+  const report = {
+    dryRun,
+    counts: {
+      records: records.length,
+      valid: rows.size + duplicates,
+      invalid: errors.length,
+      duplicates,
+      insert: diff.insert.length,
+      update: diff.update.length,
+      unchanged: diff.unchanged,
+      expire: diff.expire.length,
+    },
+    errors,
+    insert: diff.insert,
+    update: diff.update.map(({ id, item, changes }) => ({ id, item, changes })),
+    expire: diff.expire,
+  };
+  if (dryRun) return report;
+
+  if (diff.insert.length > 0) {
+    const { error: insertError } = await supabase.from('specials').insert(diff.insert);
+    if (insertError) throw new Error(`Failed to insert specials: ${insertError.message}`);
+  }
+  for (const { id, row } of diff.update) {
+    // Keep the existing row's spelling of the name; only its details change
+    const { item, ...fields } = row;
+    const { error: updateError } = await supabase.from('specials').update(fields).eq('id', id);
+    if (updateError) throw new Error(`Failed to update special ${id}: ${updateError.message}`);
+  }
+  if (diff.expire.length > 0) {
+    const { error: expireError } = await supabase
+      .from('specials')
+      .update({ on_special: false })
+      .in('id', diff.expire.map(special => special.id));
+    if (expireError) throw new Error(`Failed to expire old specials: ${expireError.message}`);
+  }
+  return report;
+}
@@ -0,0 +1,166 @@
+import { describe, expect, it } from "vitest";
+import {
+  diffCatalogue,
+  importCatalogue,
+  normalizeDate,
+  normalizeDiscount,
+  normalizeDiscountPercentage,
+  normalizePrice,
+  normalizeRow,
+  parseCatalogue,
+} from "./catalogueImport.mjs";
+
+describe("parseCatalogue", () => {
+  it("reads quoted CSV fields and normalizes the header", () => {
+    const rows = parseCatalogue('Product Name,Sale Price\n"Tim Tams, Original","2 for $7"\n\n', { filename: "week.csv" });
+    expect(rows).toEqual([{ product_name: "Tim Tams, Original", sale_price: "2 for $7" }]);
+  });
+
+  it("accepts JSON as an array or under items", () => {
+    expect(parseCatalogue('{ "items": [{ "Name": "Milk" }] }')).toEqual([{ name: "Milk" }]);
+    expect(() => parseCatalogue('{ "rows": [] }', { format: "json" })).toThrow(/must be an array/);
+  });
+});
+
+describe("field normalizers", () => {
+  it("formats plain amounts and keeps descriptive prices", () => {
+    expect(normalizePrice("3.5")).toBe("$3.50");
+    expect(normalizePrice("$1.20 / kg")).toBe("$1.20 / kg");
+    expect(() => normalizePrice("ask in store")).toThrow(/has no amount/);
+    expect(normalizeDiscount("2")).toBe("Save $2.00");
+  });
+
+  it("reads percentages written three ways", () => {
+    expect(normalizeDiscountPercentage("25")).toBe("25%");
+    expect(normalizeDiscountPercentage("25%")).toBe("25%");
+    expect(normalizeDiscountPercentage("0.25")).toBe("25%");
+    expect(() => normalizeDiscountPercentage("150")).toThrow(/between 0 and 100/);
+  });
+
+  it("reads ISO and day-first dates and rejects impossible ones", () => {
+    expect(normalizeDate("2026-10-19")).toBe("2026-10-19");
+    expect(normalizeDate("9/10/2026")).toBe("2026-10-09");
+    expect(() => normalizeDate("31/02/2026")).toThrow(/is not a date/);
+  });
+});
+
+describe("normalizeRow", () => {
+  it("fills in the window and works out the percentage off", () => {
+    const { row, errors } = normalizeRow({ name: "Butter", price: "4", save: "1" }, { catalogueDate: "2026-10-19" });
+    expect(errors).toEqual([]);
+    expect(row).toMatchObject({
+      item: "Butter",
+      price: "$4.00",
+      discount: "Save $1.00",
+      discount_percentage: "20%",
+      price_cents: 400,
+      discount_cents: 100,
+      discount_percent: 20,
+      catalogue_date: "2026-10-19",
+      valid_from: "2026-10-19",
+      valid_to: "2026-10-25",
+      quantity: 1,
+    });
+  });
+
+  it("stores the app's category alongside the retailer's", () => {
+    const { row } = normalizeRow({ name: "Milk", price: "2", category: "Dairy, Eggs & Fridge" }, { catalogueDate: "2026-10-19" });
+    expect(row).toMatchObject({ category: "Dairy, Eggs & Fridge", app_category: "Dairy & Eggs" });
+  });
+
+  it("collects every problem with a record", () => {
+    const { row, errors } = normalizeRow({ price: "free", link: "javascript:alert(1)" });
+    expect(row).toBeNull();
+    expect(errors).toEqual([
+      "item is missing",
+      'price "free" has no amount',
+      "catalogue_date is missing",
+      'link "javascript:alert(1)" is not an http(s) URL',
+    ]);
+  });
+});
+
+describe("diffCatalogue", () => {
+  const special = (id, item, extra = {}) => ({
+    id,
+    item,
+    price: "$2.00",
+    discount: null,
+    discount_percentage: null,
+    category: null,
+    catalogue_date: "2026-10-12",
+    valid_from: null,
+    valid_to: null,
+    img: null,
+    link: null,
+    quantity: 1,
+    on_special: true,
+    ...extra,
+  });
+  const row = (item, extra = {}) => {
+    const { id: _id, ...fields } = special(0, item, { catalogue_date: "2026-10-19", ...extra });
+    return fields;
+  };
+
+  it("matches rows by name and catalogue date", () => {
+    const existing = [special(1, "Milk", { catalogue_date: "2026-10-19" }), special(2, "Bread", { catalogue_date: "2026-10-19" })];
+    const diff = diffCatalogue(existing, [row("milk"), row("Bread", { price: "$1.50" }), row("Eggs")], "2026-10-19");
+    expect(diff.unchanged).toBe(1);
+    expect(diff.update).toEqual([{ id: 2, item: "Bread", row: row("Bread", { price: "$1.50" }), changes: { price: ["$2.00", "$1.50"] } }]);
+    expect(diff.insert.map(r => r.item)).toEqual(["Eggs"]);
+  });
+
+  it("expires finished windows and older catalogues without one", () => {
+    const existing = [
+      special(1, "Ended", { valid_to: "2026-10-18" }),
+      special(2, "Still running", { valid_to: "2026-10-25" }),
+      special(3, "Last week"),
+      special(4, "Already off", { on_special: false }),
+    ];
+    const diff = diffCatalogue(existing, [row("Milk")], "2026-10-19");
+    expect(diff.expire.map(s => s.id)).toEqual([1, 3]);
+  });
+});
+
+describe("importCatalogue", () => {
+  // Serves `rows` through .range() like PostgREST, which caps each response at 1000 rows
+  const pagedClient = (rows) => {
+    const requests = [];
+    return {
+      requests,
+      from: () => {
+        const request = {};
+        const query = {
+          select: () => query,
+          or: (filter) => { request.filter = filter; return query; },
+          order: () => query,
+          range: async (from, to) => {
+            requests.push({ ...request, from, to });
+            return { data: rows.slice(from, Math.min(to + 1, from + 1000)), error: null };
+          },
+        };
+        return query;
+      },
+    };
+  };
+
+  it("loads every page of existing specials before diffing", async () => {
+    const existing = Array.from({ length: 1500 }, (_, i) => ({
+      id: i + 1,
+      item: `Item ${i + 1}`,
+      price: "$2.00",
+      quantity: 1,
+      catalogue_date: "2026-10-19",
+      valid_from: "2026-10-19",
+      valid_to: "2026-10-25",
+      on_special: true,
+    }));
+    const supabase = pagedClient(existing);
+
+    const report = await importCatalogue(supabase, { content: "name,price\nItem 1400,2\n", filename: "week.csv", catalogueDate: "2026-10-19" });
+
+    expect(supabase.requests.map(({ from, to }) => [from, to])).toEqual([[0, 999], [1000, 1999]]);
+    expect(supabase.requests[0].filter).toBe("on_special.eq.true,catalogue_date.in.(2026-10-19)");
+    expect(report.counts).toMatchObject({ insert: 0, unchanged: 1 });
+  });
+});
@@ -0,0 +1,56 @@
+// Imports a specials catalogue from the command line:
+//   SUPABASE_URL=... SUPABASE_SERVICE_ROLE_KEY=... npm run import:specials -- catalogue.csv [--date 2026-10-21] [--commit]
+// Runs as a dry run unless --commit is given.
+import { readFile } from 'node:fs/promises';
+import { importCatalogue } from './catalogueImport.mjs';
+import { createServiceClient } from './supabaseAdmin.mjs';
+
+function parseArgs(argv) {
+  const args = { file: null, catalogueDate: undefined, commit: false, json: false };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--commit') args.commit = true;
+    else if (arg === '--json') args.json = true;
+    else if (arg === '--date') args.catalogueDate = argv[++i];
+    else if (!args.file) args.file = arg;
+  }
+  return args;
+}
+
+function printReport(report) {
+  const { counts } = report;
+  console.log(report.dryRun ? 'Dry run: nothing has been written.' : 'Import committed.');
+  console.log(`  ${counts.records} records, ${counts.invalid} invalid, ${counts.duplicates} duplicates`);
+  console.log(`  ${counts.insert} new, ${counts.update} updated, ${counts.unchanged} unchanged, ${counts.expire} expired`);
+  for (const error of report.errors) {
+    console.log(`  ! line ${error.line}${error.item ? ` (${error.item})` : ''}: ${error.messages.join('; ')}`);
+  }
+  for (const row of report.insert) console.log(`  + ${row.item} ${row.price ?? ''}`.trimEnd());
+  for (const change of report.update) {
+    const fields = Object.entries(change.changes).map(([field, [from, to]]) => `${field}: ${from} -> ${to}`);
+    console.log(`  ~ ${change.item} (${fields.join(', ')})`);
+  }
+  for (const special of report.expire) console.log(`  - ${special.item} (${special.catalogue_date})`);
+  if (report.dryRun) console.log('Run again with --commit to apply.');
+}
+
+const args = parseArgs(process.argv.slice(2));
+if (!args.file) {
+  console.error('Usage: npm run import:specials -- <catalogue.csv|catalogue.json> [--date YYYY-MM-DD] [--commit] [--json]');
+  process.exit(1);
+}
+
+try {
+  const content = await readFile(args.file, 'utf8');
+  const report = await importCatalogue(createServiceClient(), {
+    content,
+    filename: args.file,
+    catalogueDate: args.catalogueDate,
+    dryRun: !args.commit,
+  });
+  if (args.json) console.log(JSON.stringify(report, null, 2));
+  else printReport(report);
+} catch (e) {
+  console.error(e?.message || e);
+  process.exit(1);
+}
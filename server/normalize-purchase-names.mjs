@@ -0,0 +1,51 @@
+// One-off fix for purchases brought over from the old "Purchase history" table, which were only
+// lower-cased: re-keys each purchase event by normalizePlural() ("apples" -> "apple") so they group
+// with purchases made since.
+//   SUPABASE_URL=... SUPABASE_SERVICE_ROLE_KEY=... npm run normalize:purchases [-- --commit]
+// Runs as a dry run unless --commit is given.
+import { normalizePlural } from '../src/lib/utils.ts';
+import { createServiceClient } from './supabaseAdmin.mjs';
+
+const PAGE_SIZE = 1000;
+
+async function loadEvents(supabase) {
+  const events = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('purchase_events')
+      .select('id, item, normalized_name')
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw new Error(`Failed to load purchase events: ${error.message}`);
+    events.push(...data);
+    if (data.length < PAGE_SIZE) return events;
+  }
+}
+
+const commit = process.argv.slice(2).includes('--commit');
+
+try {
+  const supabase = createServiceClient();
+  const events = await loadEvents(supabase);
+  // Event ids to re-key, grouped by the name they should have
+  const renames = new Map();
+  for (const event of events) {
+    const normalized = normalizePlural(event.item);
+    if (normalized === event.normalized_name) continue;
+    renames.set(normalized, [...(renames.get(normalized) ?? []), event.id]);
+  }
+
+  const changed = Array.from(renames.values()).reduce((sum, ids) => sum + ids.length, 0);
+  console.log(commit ? 'Committing.' : 'Dry run: nothing has been written.');
+  console.log(`  ${events.length} purchases, ${changed} to re-key`);
+  for (const [normalized, ids] of renames) {
+    console.log(`  ~ ${normalized} (${ids.length})`);
+    if (!commit) continue;
+    const { error } = await supabase.from('purchase_events').update({ normalized_name: normalized }).in('id', ids);
+    if (error) throw new Error(`Failed to update ${normalized}: ${error.message}`);
+  }
+  if (!commit && changed > 0) console.log('Run again with --commit to apply.');
+} catch (e) {
+  console.error(e?.message || e);
+  process.exit(1);
+}
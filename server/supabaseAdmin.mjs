@@ -0,0 +1,25 @@
+import { createClient } from '@supabase/supabase-js';
+
+// Service-role client for server-side jobs that write reference data (specials) past RLS.
+// Never expose SUPABASE_SERVICE_ROLE_KEY to the browser.
+export function createServiceClient() {
+  const url = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !serviceKey) {
+    throw new Error('Server misconfigured: missing SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY');
+  }
+  return createClient(url, serviceKey, { auth: { persistSession: false, autoRefreshToken: false } });
+}
+
+// Admins are listed by email in ADMIN_EMAILS (comma separated)
+export async function requireAdmin(supabase, authorization) {
+  const token = authorization?.startsWith('Bearer ') ? authorization.slice('Bearer '.length) : null;
+  if (!token) return { status: 401, message: 'Unauthorized: sign in first' };
+  const { data, error } = await supabase.auth.getUser(token);
+  if (error || !data?.user) return { status: 401, message: 'Unauthorized: session is not valid' };
+  const admins = (process.env.ADMIN_EMAILS || '').split(',').map(email => email.trim().toLowerCase()).filter(Boolean);
+  if (!admins.includes((data.user.email || '').toLowerCase())) {
+    return { status: 403, message: 'Forbidden: catalogue imports are limited to admins' };
+  }
+  return null;
+}
@@ -0,0 +1,107 @@
+import { useState } from "react";
+import { AlertTriangle, Wallet } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { useToast } from "@/hooks/use-toast";
+import type { Money } from "@/integrations/supabase/types";
+import { basketTotal, budgetStatus, type BasketItem } from "@/services/basket";
+import { formatMoney, parseMoney } from "@/services/money";
+import { cn } from "@/lib/utils";
+
+interface BasketSummaryProps {
+  items: BasketItem[];
+  budget: Money | null;
+  onBudgetChange: (cents: number | null) => Promise<void>;
+}
+
+// Estimated total for this shop, against the user's budget when they've set one.
+// Viewers of a shared list can set a budget too: it's their own, not the list's.
+export function BasketSummary({ items, budget, onBudgetChange }: BasketSummaryProps) {
+  const [budgetOpen, setBudgetOpen] = useState(false);
+  const [budgetValue, setBudgetValue] = useState("");
+  const { toast } = useToast();
+
+  const { total, savings, unpriced } = basketTotal(items);
+  const status = budget ? budgetStatus(total, budget) : null;
+  const estimate = unpriced > 0 ? `≈ ${formatMoney(total)}` : formatMoney(total);
+
+  const saveBudget = async (cents: number | null) => {
+    try {
+      await onBudgetChange(cents);
+      setBudgetOpen(false);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "An unknown error occurred.";
+      toast({
+        title: "Couldn't save budget",
+        description: message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (items.length === 0 && !budget) return null;
+
+  return (
+    <div className="px-4 space-y-2">
+      <div className="flex items-center gap-2 text-sm">
+        <span className="font-medium">This shop {estimate}</span>
+        {budget && <span className="text-muted-foreground">of {formatMoney(budget)}</span>}
+        {savings.cents > 0 && <span className="text-xs text-green-700">saving {formatMoney(savings)}</span>}
+        <Popover
+          open={budgetOpen}
+          onOpenChange={(open) => {
+            setBudgetOpen(open);
+            if (open) setBudgetValue(budget ? (budget.cents / 100).toFixed(2) : "");
+          }}
+        >
+          <PopoverTrigger asChild>
+            <Button variant="ghost" size="sm" className="ml-auto h-7 gap-1 px-2 text-xs">
+              <Wallet className="h-3 w-3" />
+              {budget ? "Budget" : "Set budget"}
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent align="end" className="w-64 space-y-3">
+            <label htmlFor="list-budget" className="block text-sm font-medium">Budget for this shop</label>
+            <Input
+              id="list-budget"
+              inputMode="decimal"
+              placeholder="e.g. 120"
+              value={budgetValue}
+              onChange={(e) => setBudgetValue(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && saveBudget(parseMoney(budgetValue)?.cents || null)}
+            />
+            <div className="flex justify-between">
+              <Button variant="ghost" size="sm" onClick={() => saveBudget(null)} disabled={!budget}>
+                Clear
+              </Button>
+              <Button size="sm" onClick={() => saveBudget(parseMoney(budgetValue)?.cents || null)} disabled={!parseMoney(budgetValue)?.cents}>
+                Save
+              </Button>
+            </div>
+          </PopoverContent>
+        </Popover>
+      </div>
+      {budget && (
+        <Progress
+          value={Math.min(100, (total.cents / budget.cents) * 100)}
+          className={cn("h-2", status === "over" && "[&>div]:bg-destructive", status === "near" && "[&>div]:bg-amber-500")}
+        />
+      )}
+      {unpriced > 0 && (
+        <p className="text-xs text-muted-foreground">
+          {unpriced} item{unpriced === 1 ? " has" : "s have"} no price and {unpriced === 1 ? "isn't" : "aren't"} counted.
+        </p>
+      )}
+      {budget && status === "over" && (
+        <div className="flex items-center gap-2 rounded-md border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">
+          <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+          <span>
+            The estimated total is {formatMoney({ ...total, cents: total.cents - budget.cents })} over your {formatMoney(budget)} budget.
+          </span>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+import { Star, EyeOff } from "lucide-react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { CATEGORIES, UNCATEGORISED, cn } from "@/lib/utils";
+import type { CategoryPreference, CategoryPreferences } from "@/services/categoryPreferences";
+
+interface CategoryPreferencesDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  preferences: CategoryPreferences;
+  onChange: (category: string, preference: CategoryPreference | null) => Promise<void>;
+}
+
+export function CategoryPreferencesDialog({ isOpen, onClose, preferences, onChange }: CategoryPreferencesDialogProps) {
+  const { toast } = useToast();
+
+  // Tapping the active choice again clears it
+  const toggle = async (category: string, preference: CategoryPreference) => {
+    try {
+      await onChange(category, preferences.get(category) === preference ? null : preference);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to save your category preference",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="w-[95vw] max-w-md max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Specials categories</DialogTitle>
+          <DialogDescription>
+            Preferred categories are shown first. Muted ones are hidden unless you open their tab.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="divide-y">
+          {[...CATEGORIES, UNCATEGORISED].map(category => {
+            const preference = preferences.get(category);
+            return (
+              <div key={category} className="flex items-center justify-between gap-2 py-2">
+                <span className={cn("text-sm", preference === 'muted' && "text-muted-foreground line-through")}>
+                  {category}
+                </span>
+                <div className="flex gap-1">
+                  <Button
+                    variant={preference === 'preferred' ? 'default' : 'outline'}
+                    size="sm"
+                    className="h-8 gap-1 px-2 text-xs"
+                    onClick={() => toggle(category, 'preferred')}
+                    aria-pressed={preference === 'preferred'}
+                  >
+                    <Star className="h-3 w-3" /> Prefer
+                  </Button>
+                  <Button
+                    variant={preference === 'muted' ? 'default' : 'outline'}
+                    size="sm"
+                    className="h-8 gap-1 px-2 text-xs"
+                    onClick={() => toggle(category, 'muted')}
+                    aria-pressed={preference === 'muted'}
+                  >
+                    <EyeOff className="h-3 w-3" /> Mute
+                  </Button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
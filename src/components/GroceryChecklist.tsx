@@ -1,5 +1,5 @@
-import { useState, useEffect, useRef, forwardRef, useImperativeHandle } from "react";
-import { Check, Trash2, Plus, Minus, Undo2, ShoppingCart, GripVertical, ChevronsUpDown, ArrowUpDown, Search, X, ArrowDown, ArrowUp, Tag } from "lucide-react";
+import { useState, useEffect, useRef, useMemo, forwardRef, useImperativeHandle } from "react";
+import { Check, Trash2, Plus, Minus, Undo2, ShoppingCart, GripVertical, ChevronsUpDown, ArrowUpDown, Search, X, ArrowDown, ArrowUp, Tag, CloudOff, RefreshCw, LayoutList, ChevronDown, ChevronRight, ShoppingBasket } from "lucide-react";
 import { ToastAction } from "@/components/ui/toast";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -12,10 +12,33 @@ import { SavedlistModal } from "./SavedlistModal";
 import { SpecialsModal } from "./SpecialsModal";
 import { QuantitySelector } from "./QuantitySelector";
 import { ItemDetailModal } from "./ItemDetailModal";
-import { parseSmartSyntax, normalizePlural, getIconForItem, cn } from "@/lib/utils";
+import { PriceComparisonModal } from "./PriceComparisonModal";
+import { WatchlistNotifications } from "./WatchlistNotifications";
+import { ReplenishmentStrip } from "./ReplenishmentStrip";
+import { useReplenishment } from "@/hooks/useReplenishment";
+import { useItemLocations } from "@/hooks/useItemLocations";
+import { groupBySection } from "@/services/storeLayout";
+import { useSpecialMatches } from "@/hooks/useSpecialMatches";
+import { nextTripPosition, learnRoute, orderByRoute, getCurrentStore, setCurrentStore } from "@/services/shoppingRoute";
+import { STORES } from "@/services/priceComparison";
+import { specialSavings } from "@/services/spendInsights";
+import { parseSmartSyntax, normalizePlural, getIconForItem, getCategoryForItem, CATEGORIES, UNCATEGORISED, cn } from "@/lib/utils";
 import { ItemIcon } from "./ItemIcon";
+import { BasketSummary } from "./BasketSummary";
+import { ShoppingTripBar } from "./ShoppingTripBar";
+import { TripSummaryDialog } from "./TripSummaryDialog";
+import { useShoppingTrip } from "@/hooks/useShoppingTrip";
+import { commitTrip, summarizeTrip, type TripSummary } from "@/services/shoppingTrip";
+import { priceAmount, formatMoney, structuredPriceOf, unitSizeForRename } from "@/services/money";
+import { basketTotal } from "@/services/basket";
+import { useListBudget } from "@/hooks/useListBudget";
+import { addOrIncreaseItem } from "@/services/listItems";
+import type { StructuredPrice } from "@/integrations/supabase/types";
+import { useOnlineStatus } from "@/hooks/useOnlineStatus";
+import { loadCachedItems, saveCachedItems, enqueueMutation, countQueuedMutations } from "@/services/offlineStore";
+import { replayMutations, recordPurchase, isNetworkError, createTempId, type PurchaseChange, type QueuedChange, type QueuedMutation } from "@/services/syncQueue";
 
-interface GroceryItem {
+interface GroceryItem extends Partial<StructuredPrice> {
   id: number;
   Item: string;
   checked?: boolean;
@@ -29,12 +52,19 @@ interface GroceryItem {
   link?: string | null;
   order: number;
   buy_later?: boolean;
+  list_id?: number | null;
+  variant?: string | null;
+  category?: string | null;
 }
 
+// The row's own category, or one guessed from its name for rows added before categories existed
+const itemCategory = (item: Pick<GroceryItem, 'Item' | 'category'>) =>
+  item.category || getCategoryForItem(item.Item) || UNCATEGORISED;
+
 interface DeletedItem extends GroceryItem {
   deletedAt: number;
   action: 'deleted' | 'purchased' | 'added-saved' | 'added-specials' | 'deleted-all';
-  purchaseHistoryId?: number;
+  purchaseEventId?: number;
   originalQuantity?: number;
   addedItemIds?: number[];
   addedItems?: { item: string; quantity: number; originalQuantity?: number; wasNew: boolean }[];
@@ -351,7 +381,7 @@ function TouchSortableGroceryItem({
                     try {
                       const { error } = await supabase
                         .from('Grocery list')
-                        .update({ Item: trimmed })
+                        .update({ Item: trimmed, ...unitSizeForRename(trimmed, item.price) })
                         .eq('id', item.id);
                       if (error) throw error;
                     } catch (e) {
@@ -386,6 +416,9 @@ function TouchSortableGroceryItem({
                 </button>
               )}
             </div>
+            {item.variant && (
+              <p className="text-xs font-medium text-green-700 break-words">{item.variant}</p>
+            )}
             {item.notes && item.notes.trim() && (
               <p className="text-xs text-muted-foreground break-words mt-0.5">{item.notes}</p>
             )}
@@ -412,20 +445,34 @@ function TouchSortableGroceryItem({
   );
 }
 
+// Methods that take a listId operate on that list; they default to the list currently shown.
 export type GroceryChecklistHandle = {
-  addOrIncreaseByName: (itemName: string, qty: number, note?: string) => Promise<void>;
-  removeByName: (itemName: string) => Promise<void>;
-  adjustQuantityByName: (itemName: string, delta: number) => Promise<void>;
+  addOrIncreaseByName: (itemName: string, qty: number, note?: string, listId?: number) => Promise<void>;
+  removeByName: (itemName: string, listId?: number) => Promise<void>;
+  adjustQuantityByName: (itemName: string, delta: number, listId?: number) => Promise<void>;
   undoLastAction: () => Promise<void>;
-  getItemByName: (itemName: string) => { id: number; Item: string; Quantity?: number } | undefined;
+  getItemByName: (itemName: string, listId?: number) => Promise<{ id: number; Item: string; Quantity?: number } | undefined>;
+  setQuantityByName: (itemName: string, quantity: number, listId?: number) => Promise<void>;
+  renameByName: (itemName: string, newName: string, listId?: number) => Promise<void>;
+  setNoteByName: (itemName: string, note: string | null, listId?: number) => Promise<void>;
+  setBuyLaterByName: (itemName: string, buyLater: boolean, listId?: number) => Promise<void>;
+  markPurchasedByName: (itemName: string, quantity?: number, listId?: number) => Promise<void>;
+  addFromSavedByName: (itemName: string, quantity?: number, listId?: number) => Promise<void>;
+  clearList: (listId?: number) => Promise<void>;
 };
 
-export const GroceryChecklist = forwardRef<GroceryChecklistHandle, Record<string, never>>(function GroceryChecklist(_props, ref) {
+interface GroceryChecklistProps {
+  listId: number | null;
+  readOnly?: boolean;
+}
+
+export const GroceryChecklist = forwardRef<GroceryChecklistHandle, GroceryChecklistProps>(function GroceryChecklist({ listId, readOnly = false }, ref) {
   const [items, setItems] = useState<GroceryItem[]>([]);
   const [loading, setLoading] = useState(true);
   const [newItem, setNewItem] = useState("");
   const [searchTerm, setSearchTerm] = useState("");
   const [showSearchSort, setShowSearchSort] = useState(false);
+  const [categoryFilter, setCategoryFilter] = useState<string | null>(null);
   const [recentlyDeleted, setRecentlyDeleted] = useState<DeletedItem | null>(null);
   const [savedlistModalOpen, setSavedlistModalOpen] = useState(false);
   const [specialsModalOpen, setSpecialsModalOpen] = useState(false);
@@ -433,40 +480,197 @@ export const GroceryChecklist = forwardRef<GroceryChecklistHandle, Record<string
   const [isSorting, setIsSorting] = useState(false);
   const [detailModalItem, setDetailModalItem] = useState<GroceryItem | null>(null);
   const [deleteAllModalOpen, setDeleteAllModalOpen] = useState(false);
+  const [priceComparisonOpen, setPriceComparisonOpen] = useState(false);
+  // The store picker either sorts by route or starts a shopping trip
+  const [storeDialog, setStoreDialog] = useState<'route' | 'trip' | null>(null);
+  const [tripSummary, setTripSummary] = useState<TripSummary | null>(null);
+  const [pendingSyncCount, setPendingSyncCount] = useState(0);
+  const [groupByAisle, setGroupByAisle] = useState(() => localStorage.getItem('group-by-aisle') === 'true');
+  const [collapsedSections, setCollapsedSections] = useState<Set<string>>(new Set());
+  const isSyncingRef = useRef(false);
+  // The list shown now, so a request that finishes after a list switch can tell it's stale
+  const listIdRef = useRef(listId);
+  listIdRef.current = listId;
+  // The list the items in state were loaded from; it lags listId until the new list loads
+  const itemsListIdRef = useRef<number | null>(null);
+  const fetchItemsRef = useRef<() => Promise<void>>();
+  // The items on screen, which the handle reads so each step of a voice plan sees the steps before it
+  const itemsRef = useRef(items);
+  itemsRef.current = items;
+  const isOnline = useOnlineStatus();
+  const specialMatches = useSpecialMatches();
+  const itemNames = useMemo(() => items.map(item => item.Item), [items]);
+  const replenishment = useReplenishment(itemNames);
+  const { budget, setBudget } = useListBudget(listId);
+  const trip = useShoppingTrip(listId);
+  const itemLocations = useItemLocations();
   const { toast } = useToast();
 
   useEffect(() => {
-    fetchItems();
-  }, []);
+    if (!listId) return;
+    setLoading(true);
+    fetchItemsRef.current?.();
+    countQueuedMutations().then(setPendingSyncCount).catch(() => {});
+  }, [listId]);
+
+  // Reconnecting flushes the offline queue and reconciles with the server copy
+  useEffect(() => {
+    if (isOnline && listIdRef.current) fetchItemsRef.current?.();
+  }, [isOnline]);
+
+  // Keep the offline copy of the list current with every local and remote change
+  useEffect(() => {
+    const itemsListId = itemsListIdRef.current;
+    if (!itemsListId || loading) return;
+    saveCachedItems(itemsListId, items).catch(() => {});
+  }, [items, loading]);
+
+  // Keep the list in sync with changes made by other members of a shared list
+  useEffect(() => {
+    if (!listId) return;
+    const channel = supabase
+      .channel(`grocery-list-${listId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'Grocery list', filter: `list_id=eq.${listId}` },
+        (payload) => {
+          if (payload.eventType === 'DELETE') {
+            const oldId = (payload.old as Partial<GroceryItem>).id;
+            setItems(prev => prev.filter(i => i.id !== oldId));
+            return;
+          }
+          const row = payload.new as GroceryItem;
+          setItems(prev => {
+            const existing = prev.find(i => i.id === row.id);
+            // Negative orders are the temporary first phase of a reorder; keep the last real position
+            const order = row.order < 0 && existing ? existing.order : row.order;
+            const merged = { ...row, order, checked: existing?.checked ?? false };
+            const next = existing ? prev.map(i => (i.id === row.id ? merged : i)) : [...prev, merged];
+            return next.sort((a, b) => a.order - b.order);
+          });
+        }
+      )
+      .subscribe();
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [listId]);
+
+  // Realtime may deliver our own insert before the request resolves, so skip ids we already have
+  const prependItem = (item: GroceryItem) => {
+    setItems(prev => (prev.some(i => i.id === item.id) ? prev : [item, ...prev]));
+  };
+
+  const loadItemsFromCache = async () => {
+    if (!listId) return false;
+    const cached = await loadCachedItems<GroceryItem>(listId).catch(() => null);
+    if (!cached) return false;
+    if (listIdRef.current !== listId) return true;
+    itemsListIdRef.current = listId;
+    setItems(cached.map(item => ({ ...item, checked: false })));
+    return true;
+  };
+
+  const syncPendingChanges = async () => {
+    if (isSyncingRef.current) return;
+    isSyncingRef.current = true;
+    try {
+      const result = await replayMutations();
+      setPendingSyncCount(result.remaining);
+      if (Object.keys(result.replacedIds).length > 0) trip.replaceItemIds(result.replacedIds);
+      if (result.rejected.length > 0) {
+        const [first] = result.rejected;
+        toast({
+          title: "Some changes were rejected",
+          description: `${result.rejected.length} offline change${result.rejected.length === 1 ? '' : 's'} couldn't be saved: ${first.message}`,
+          variant: "destructive",
+        });
+      }
+      if (result.conflicts.length > 0) {
+        toast({
+          title: "Changed on another device",
+          description: result.conflicts.map(conflict => conflict.message).join('; '),
+        });
+      }
+      if (result.dropped > 0) {
+        toast({
+          title: "Some changes couldn't sync",
+          description: `${result.dropped} offline change${result.dropped === 1 ? '' : 's'} no longer matched the list and ${result.dropped === 1 ? 'was' : 'were'} discarded`,
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      // IndexedDB unavailable (e.g. private browsing); nothing was queued
+    } finally {
+      isSyncingRef.current = false;
+    }
+  };
+
+  // Queue a change made without a connection so it can be replayed later
+  const queueChange = async (change: QueuedChange, targetListId = listId) => {
+    if (!targetListId) return;
+    await enqueueMutation({ ...change, listId: targetListId, queuedAt: new Date().toISOString() } as QueuedMutation);
+    setPendingSyncCount(await countQueuedMutations());
+  };
+
+  // Sends a change straight to Supabase, or queues it when the device is offline
+  const sendOrQueue = async (change: QueuedChange, send: () => Promise<void>, targetListId = listId): Promise<'sent' | 'queued'> => {
+    if (!navigator.onLine) {
+      await queueChange(change, targetListId);
+      return 'queued';
+    }
+    try {
+      await send();
+      return 'sent';
+    } catch (error) {
+      if (!isNetworkError(error)) throw error;
+      await queueChange(change, targetListId);
+      return 'queued';
+    }
+  };
 
   const fetchItems = async () => {
+    if (!listId) return;
     try {
-      const user = await supabase.auth.getUser();
-      if (!user.data.user) {
+      // Session is read locally so the cached list still opens without a connection
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session?.user) {
         setLoading(false);
         return;
       }
+      if (!navigator.onLine) {
+        await loadItemsFromCache();
+        return;
+      }
+      // Flush offline changes first so the server copy already includes them
+      await syncPendingChanges();
       const { data, error } = await supabase
         .from('Grocery list')
         .select('*')
-        .eq('user_id', user.data.user.id)
+        .eq('list_id', listId)
         .order('order', { ascending: true });
       if (error) throw error;
+      // Another list was opened while this one loaded
+      if (listIdRef.current !== listId) return;
       const formattedItems = data?.map(item => ({
         ...item,
         checked: false
       })) || [];
+      itemsListIdRef.current = listId;
       setItems(formattedItems);
     } catch (error) {
+      if (isNetworkError(error) && (await loadItemsFromCache())) return;
+      if (listIdRef.current !== listId) return;
       toast({
         title: "Error loading items",
         description: "Failed to load grocery list from database",
         variant: "destructive",
       });
     } finally {
-      setLoading(false);
+      if (listIdRef.current === listId) setLoading(false);
     }
   };
+  fetchItemsRef.current = fetchItems;
 
   const handleReorder = async (sectionItems: GroceryItem[], fromIndex: number, toIndex: number) => {
     if (fromIndex === toIndex) return;
@@ -506,7 +710,7 @@ export const GroceryChecklist = forwardRef<GroceryChecklistHandle, Record<string
           .from('Grocery list')
           .update({ order: tempOrder })
           .eq('id', item.id)
-          .eq('user_id', user.data.user.id);
+          .eq('list_id', listId);
         if (error) throw error;
       }
       
@@ -516,7 +720,7 @@ export const GroceryChecklist = forwardRef<GroceryChecklistHandle, Record<string
           .from('Grocery list')
           .update({ order: item.order })
           .eq('id', item.id)
-          .eq('user_id', user.data.user.id);
+          .eq('list_id', listId);
         if (error) throw error;
       }
     } catch (error) {
@@ -532,7 +736,19 @@ export const GroceryChecklist = forwardRef<GroceryChecklistHandle, Record<string
   const toggleItem = async (id: number) => {
     const item = items.find(i => i.id === id);
     if (!item) return;
-    if (!item.checked) {
+    if (!item.checked && trip.session) {
+      // On a trip, ticked items wait in the basket until the trip is finished
+      trip.pick({
+        itemId: item.id,
+        Item: item.Item,
+        img: item.img ?? null,
+        variant: item.variant ?? null,
+        category: itemCategory(item),
+        quantity: item.Quantity || 1,
+        pricePaid: priceAmount(item),
+        savings: specialSavings(item.price, item.discount, item.discount_percentage),
+      });
+    } else if (!item.checked) {
       await processPurchase(item, item.Quantity || 1);
     } else {
       setItems(prev =>
@@ -549,11 +765,13 @@ export const GroceryChecklist = forwardRef<GroceryChecklistHandle, Record<string
     const next = !item.buy_later;
     setItems(prev => prev.map(i => (i.id === id ? { ...i, buy_later: next } : i)));
     try {
-      const { error } = await supabase
-        .from('Grocery list')
-        .update({ buy_later: next })
-        .eq('id', id);
-      if (error) throw error;
+      await sendOrQueue({ kind: 'update', itemId: id, changes: { buy_later: next }, previous: { buy_later: !!item.buy_later } }, async () => {
+        const { error } = await supabase
+          .from('Grocery list')
+          .update({ buy_later: next })
+          .eq('id', id);
+        if (error) throw error;
+      });
     } catch (error) {
       setItems(prev => prev.map(i => (i.id === id ? { ...i, buy_later: !next } : i)));
       toast({
@@ -564,10 +782,11 @@ export const GroceryChecklist = forwardRef<GroceryChecklistHandle, Record<string
     }
   };
 
-  const processPurchase = async (item: GroceryItem, selectedQuantity: number) => {
+  const processPurchase = async (item: GroceryItem, selectedQuantity: number, targetListId = listId) => {
     try {
-      const user = await supabase.auth.getUser();
-      if (!user.data.user) {
+      const { data: { session } } = await supabase.auth.getSession();
+      const user = session?.user;
+      if (!user) {
         toast({
           title: "Authentication Error",
           description: "Please sign in to mark items as purchased",
@@ -575,42 +794,57 @@ export const GroceryChecklist = forwardRef<GroceryChecklistHandle, Record<string
         });
         return;
       }
-      const { data: historyData, error: historyError } = await supabase
-        .from('Purchase history')
-        .insert([{
-          Item: item.Item,
-          Quantity: selectedQuantity,
-          user_id: user.data.user.id,
-          last_bought: new Date().toISOString(),
-          img: item.img
-        }])
-        .select()
-        .single();
-      if (historyError) throw new Error(`Failed to add to purchase history: ${historyError.message}`);
+      let purchaseEvent: { id: number } | null = null;
       const remainingQuantity = (item.Quantity || 1) - selectedQuantity;
+      const tripPosition = nextTripPosition();
+      const pricePaid = priceAmount(item);
+      const savings = specialSavings(item.price, item.discount, item.discount_percentage);
+      const purchase: PurchaseChange = {
+        kind: 'purchase',
+        eventId: crypto.randomUUID(),
+        itemId: item.id,
+        quantity: selectedQuantity,
+        userId: user.id,
+        item: { Item: item.Item, img: item.img, variant: item.variant, category: itemCategory(item) },
+        pricePaid,
+        savings,
+        trip: tripPosition,
+      };
+      const outcome = await sendOrQueue(purchase, async () => {
+        try {
+          purchaseEvent = { id: await recordPurchase(targetListId, purchase) };
+        } catch (error) {
+          if (isNetworkError(error)) throw error;
+          const message = error instanceof Error ? error.message : (error as { message?: string })?.message;
+          throw new Error(`Failed to add to purchase history: ${message}`);
+        }
+      }, targetListId);
       if (remainingQuantity <= 0) {
-        const { error: deleteError } = await supabase
-          .from('Grocery list')
-          .delete()
-          .eq('id', item.id);
-        if (deleteError) throw new Error(`Failed to remove from grocery list: ${deleteError.message}`);
         setItems(prev => prev.filter(i => i.id !== item.id));
       } else {
-        const { error: updateError } = await supabase
-          .from('Grocery list')
-          .update({ Quantity: remainingQuantity })
-          .eq('id', item.id);
-        if (updateError) throw new Error(`Failed to update grocery list: ${updateError.message}`);
         setItems(prev => prev.map(i => 
           i.id === item.id ? { ...i, Quantity: remainingQuantity } : i
         ));
       }
+      replenishment.notePurchase({
+        item: item.Item,
+        normalized_name: normalizeItemName(item.Item),
+        quantity: selectedQuantity,
+        purchased_at: new Date().toISOString(),
+      });
+      if (outcome === 'queued') {
+        toast({
+          title: "Item purchased!",
+          description: `${selectedQuantity} ${item.Item} will move to purchase history once you're back online`,
+        });
+        return;
+      }
       const deletedItem = {
         ...item,
         Quantity: selectedQuantity,
         deletedAt: Date.now(),
         action: 'purchased' as const,
-        purchaseHistoryId: historyData?.id,
+        purchaseEventId: purchaseEvent?.id,
         originalQuantity: item.Quantity || 1
       };
       setRecentlyDeleted(deletedItem);
@@ -646,7 +880,8 @@ export const GroceryChecklist = forwardRef<GroceryChecklistHandle, Record<string
     const { itemName, quantity, notes } = parseSmartSyntax(newItem);
     
     try {
-      const { data: { user } } = await supabase.auth.getUser();
+      const { data: { session } } = await supabase.auth.getSession();
+      const user = session?.user;
       if (!user) throw new Error('User not authenticated');
       const normalizedNewItem = normalizeItemName(itemName);
       const existingItem = items.find(item => 
@@ -655,45 +890,63 @@ export const GroceryChecklist = forwardRef<GroceryChecklistHandle, Record<string
       if (existingItem) {
         const newQuantity = (existingItem.Quantity || 0) + quantity;
         const appendedNote = notes && notes.trim() ? (existingItem.notes ? `${existingItem.notes}, ${notes.trim()}` : notes.trim()) : (existingItem.notes ?? null);
-        const { error: updateError } = await supabase
-          .from('Grocery list')
-          .update({ Quantity: newQuantity, notes: appendedNote })
-          .eq('id', existingItem.id);
-        if (updateError) throw updateError;
+        const previous = { Quantity: existingItem.Quantity || 0, notes: existingItem.notes ?? null };
+        await sendOrQueue({ kind: 'update', itemId: existingItem.id, changes: { Quantity: newQuantity, notes: appendedNote }, previous }, async () => {
+          const { error: updateError } = await supabase
+            .from('Grocery list')
+            .update({ Quantity: newQuantity, notes: appendedNote })
+            .eq('id', existingItem.id);
+          if (updateError) throw updateError;
+        });
         setItems(prev => prev.map(i => 
           i.id === existingItem.id ? { ...i, Quantity: newQuantity, notes: appendedNote ?? i.notes } : i
         ));
       } else {
-        const { data: minOrderData, error: minOrderError } = await supabase
-          .from('Grocery list')
-          .select('order')
-          .eq('user_id', user.id)
-          .order('order', { ascending: true })
-          .limit(1)
-          .single();
-        if (minOrderError && minOrderError.code !== 'PGRST116') {
-          throw minOrderError;
-        }
-        // If no items exist, start with order 1, otherwise subtract 1 from minimum
-        const newOrder = minOrderData ? minOrderData.order - 1 : 1;
         // Auto-assign icon if no image is set
         const autoIcon = getIconForItem(itemName);
-          const { data, error } = await supabase
-          .from('Grocery list')
-          .insert([{
-            Item: itemName,
-            Quantity: quantity,
-              notes: notes && notes.trim() ? notes.trim() : null,
-            user_id: user.id,
-            order: newOrder,
-            auto_icon: autoIcon
-          }])
-          .select()
-          .single();
-        if (error) throw error;
-        if (data) {
-          const newItemWithChecked = { ...data, checked: false };
-          setItems(prev => [newItemWithChecked, ...prev]);
+        const category = getCategoryForItem(itemName);
+        const trimmedNotes = notes && notes.trim() ? notes.trim() : null;
+        const tempId = createTempId();
+        const outcome = await sendOrQueue(
+          { kind: 'insert', tempId, row: { Item: itemName, Quantity: quantity, notes: trimmedNotes, user_id: user.id, auto_icon: autoIcon, category } },
+          async () => {
+            const { data: minOrderData, error: minOrderError } = await supabase
+              .from('Grocery list')
+              .select('order')
+              .eq('list_id', listId)
+              .order('order', { ascending: true })
+              .limit(1)
+              .single();
+            if (minOrderError && minOrderError.code !== 'PGRST116') {
+              throw minOrderError;
+            }
+            // If no items exist, start with order 1, otherwise subtract 1 from minimum
+            const newOrder = minOrderData ? minOrderData.order - 1 : 1;
+              const { data, error } = await supabase
+              .from('Grocery list')
+              .insert([{
+                Item: itemName,
+                Quantity: quantity,
+                  notes: trimmedNotes,
+                user_id: user.id,
+                list_id: listId,
+                order: newOrder,
+                auto_icon: autoIcon,
+                category
+              }])
+              .select()
+              .single();
+            if (error) throw error;
+            if (data) {
+              const newItemWithChecked = { ...data, checked: false };
+              prependItem(newItemWithChecked);
+            }
+          }
+        );
+        if (outcome === 'queued') {
+          // Shown at the top until the replay assigns a real id and order
+          const localOrder = items.reduce((min, i) => Math.min(min, i.order), 1) - 1;
+          prependItem({ id: tempId, Item: itemName, Quantity: quantity, notes: trimmedNotes, user_id: user.id, list_id: listId, order: localOrder, checked: false });
         }
       }
       setNewItem("");
@@ -730,98 +983,243 @@ export const GroceryChecklist = forwardRef<GroceryChecklistHandle, Record<string
     }
   };
 
+  // Items of the list on screen come from state; other lists are read from the database
+  const getListItems = async (targetListId: number): Promise<GroceryItem[]> => {
+    if (targetListId === listId) return itemsRef.current;
+    const { data, error } = await supabase
+      .from('Grocery list')
+      .select('*')
+      .eq('list_id', targetListId)
+      .order('order', { ascending: true });
+    if (error) throw error;
+    return (data || []).map(item => ({ ...item, checked: false }));
+  };
+
+  // Shared by the voice assistant and replenishment suggestions
+  const addOrIncreaseByName = async (rawName: string, qty: number, note?: string, targetListId?: number) => {
+    const target = targetListId ?? listId;
+    if (!rawName.trim() || qty <= 0 || !target) return;
+    const isShownList = target === listId;
+    try {
+      const result = await addOrIncreaseItem(target, rawName, qty, note, { listItems: await getListItems(target) });
+      if (!result || !isShownList) return;
+      if (result.kind === 'increased') {
+        setItems(prev => prev.map(i => 
+          i.id === result.id ? { ...i, Quantity: result.Quantity, notes: result.notes ?? i.notes } : i
+        ));
+      } else {
+        prependItem({ ...result.row, checked: false });
+      }
+    } catch (error) {
+      let errorMessage = "Failed to add item to grocery list";
+      if (error instanceof Error) {
+        if (error.message.includes('duplicate key') || error.message.includes('unique constraint')) {
+          errorMessage = "This item already exists in your list. Try updating the quantity instead.";
+        } else if (error.message.includes('user not authenticated')) {
+          errorMessage = "Please sign in to add items to your grocery list.";
+        } else {
+          errorMessage = error.message;
+        }
+      }
+      toast({ title: 'Error adding item', description: errorMessage, variant: 'destructive' });
+    }
+  };
+
+  // The item on a list with this name, ignoring case and plurals
+  const findListItem = async (rawName: string, targetListId: number) => {
+    const targetName = normalizeItemName(rawName);
+    return (await getListItems(targetListId)).find(i => normalizeItemName(i.Item) === targetName);
+  };
+
   // Expose imperative API for voice assistant and other controllers
   useImperativeHandle(ref, () => ({
-    addOrIncreaseByName: async (rawName: string, qty: number, note?: string) => {
-      const itemName = rawName.trim();
-      if (!itemName || qty <= 0) return;
+    addOrIncreaseByName,
+    removeByName: async (rawName: string, targetListId?: number) => {
+      const target = targetListId ?? listId;
+      if (!target) return;
+      const targetName = normalizeItemName(rawName);
       try {
-        const { data: { user } } = await supabase.auth.getUser();
-        if (!user) throw new Error('User not authenticated');
-        const normalizedNewItem = normalizeItemName(itemName);
-        const existingItem = items.find(item => 
-          normalizeItemName(item.Item) === normalizedNewItem
-        );
-        if (existingItem) {
-          const newQuantity = (existingItem.Quantity || 0) + qty;
-          const appendedNote = note && note.trim() ? (existingItem.notes ? `${existingItem.notes}, ${note.trim()}` : note.trim()) : (existingItem.notes ?? null);
-          const { error: updateError } = await supabase
-            .from('Grocery list')
-            .update({ Quantity: newQuantity, notes: appendedNote })
-            .eq('id', existingItem.id);
-          if (updateError) throw updateError;
-          setItems(prev => prev.map(i => 
-            i.id === existingItem.id ? { ...i, Quantity: newQuantity, notes: appendedNote ?? i.notes } : i
-          ));
-        } else {
-          const { data: minOrderData, error: minOrderError } = await supabase
-            .from('Grocery list')
-            .select('order')
-            .eq('user_id', user.id)
-            .order('order', { ascending: true })
-            .limit(1)
-            .single();
-          if (minOrderError && minOrderError.code !== 'PGRST116') {
-            throw minOrderError;
-          }
-          const newOrder = minOrderData ? minOrderData.order - 1 : 1;
-          // Auto-assign icon if no image is set
-          const autoIcon = getIconForItem(itemName);
-          const { data, error } = await supabase
-            .from('Grocery list')
-            .insert([
-              {
-                Item: itemName,
-                Quantity: qty,
-                notes: note && note.trim() ? note.trim() : null,
-                user_id: user.id,
-                order: newOrder,
-                auto_icon: autoIcon
-              }
-            ])
-            .select()
-            .single();
-          if (error) throw error;
-          if (data) {
-            const newItemWithChecked = { ...data, checked: false };
-            setItems(prev => [newItemWithChecked, ...prev]);
-          }
+        const listItems = await getListItems(target);
+        const item = listItems.find(i => normalizeItemName(i.Item) === targetName);
+        if (!item) return;
+        if (target === listId) {
+          await processDelete(item, item.Quantity || 1);
+          return;
         }
+        // Another list: nothing on screen to update or undo
+        const { error } = await supabase
+          .from('Grocery list')
+          .delete()
+          .eq('id', item.id);
+        if (error) throw error;
       } catch (error) {
-        let errorMessage = "Failed to add item to grocery list";
-        if (error instanceof Error) {
-          if (error.message.includes('duplicate key') || error.message.includes('unique constraint')) {
-            errorMessage = "This item already exists in your list. Try updating the quantity instead.";
-          } else if (error.message.includes('user not authenticated')) {
-            errorMessage = "Please sign in to add items to your grocery list.";
-          } else {
-            errorMessage = error.message;
-          }
-        }
-        toast({ title: 'Error adding item', description: errorMessage, variant: 'destructive' });
+        toast({ title: 'Error', description: 'Failed to remove item from grocery list', variant: 'destructive' });
       }
     },
-    removeByName: async (rawName: string) => {
+    adjustQuantityByName: async (rawName: string, delta: number, targetListId?: number) => {
+      const target = targetListId ?? listId;
+      if (!target) return;
       const targetName = normalizeItemName(rawName);
-      const item = items.find(i => normalizeItemName(i.Item) === targetName);
-      if (!item) return;
-      await processDelete(item, item.Quantity || 1);
-    },
-    adjustQuantityByName: async (rawName: string, delta: number) => {
-      const targetName = normalizeItemName(rawName);
-      const item = items.find(i => normalizeItemName(i.Item) === targetName);
-      if (!item) return;
-      await updateQuantity(item.id, delta);
+      try {
+        const listItems = await getListItems(target);
+        const item = listItems.find(i => normalizeItemName(i.Item) === targetName);
+        if (!item) return;
+        await applyQuantityUpdate(item, delta);
+      } catch (error) {
+        toast({ title: 'Error updating quantity', description: 'Failed to update item quantity', variant: 'destructive' });
+      }
     },
     undoLastAction: async () => {
       await undoDelete();
     },
-    getItemByName: (rawName: string) => {
+    getItemByName: async (rawName: string, targetListId?: number) => {
+      const target = targetListId ?? listId;
+      if (!target) return undefined;
       const targetName = normalizeItemName(rawName);
-      const item = items.find(i => normalizeItemName(i.Item) === targetName);
+      const item = (await getListItems(target)).find(i => normalizeItemName(i.Item) === targetName);
       return item ? { id: item.id, Item: item.Item, Quantity: item.Quantity } : undefined;
+    },
+    setQuantityByName: async (rawName: string, quantity: number, targetListId?: number) => {
+      const target = targetListId ?? listId;
+      if (!target) return;
+      try {
+        const item = await findListItem(rawName, target);
+        if (!item) return;
+        if (quantity <= 0) {
+          await processDelete(item, item.Quantity || 1);
+          return;
+        }
+        // Quantities above 10000 are absolute
+        await applyQuantityUpdate(item, 10000 + quantity);
+      } catch (error) {
+        toast({ title: 'Error updating quantity', description: 'Failed to update item quantity', variant: 'destructive' });
+      }
+    },
+    renameByName: async (rawName: string, newName: string, targetListId?: number) => {
+      const target = targetListId ?? listId;
+      const trimmed = newName.trim();
+      if (!target || !trimmed) return;
+      try {
+        const listItems = await getListItems(target);
+        const targetName = normalizeItemName(rawName);
+        const item = listItems.find(i => normalizeItemName(i.Item) === targetName);
+        if (!item || trimmed === item.Item) return;
+        if (listItems.some(i => i.id !== item.id && normalizeItemName(i.Item) === normalizeItemName(trimmed))) {
+          toast({ title: 'Duplicate item name', description: `${trimmed} is already on your list`, variant: 'destructive' });
+          return;
+        }
+        const changes = { Item: trimmed, ...unitSizeForRename(trimmed, item.price) };
+        await sendOrQueue({ kind: 'update', itemId: item.id, changes, previous: { Item: item.Item } }, async () => {
+          const { error } = await supabase
+            .from('Grocery list')
+            .update(changes)
+            .eq('id', item.id);
+          if (error) throw error;
+        }, target);
+        setItems(prev => prev.map(i => (i.id === item.id ? { ...i, ...changes } : i)));
+      } catch (error) {
+        toast({ title: 'Error', description: 'Failed to rename item', variant: 'destructive' });
+      }
+    },
+    setNoteByName: async (rawName: string, note: string | null, targetListId?: number) => {
+      const target = targetListId ?? listId;
+      if (!target) return;
+      const notes = note?.trim() || null;
+      try {
+        const item = await findListItem(rawName, target);
+        if (!item) return;
+        await sendOrQueue({ kind: 'update', itemId: item.id, changes: { notes }, previous: { notes: item.notes ?? null } }, async () => {
+          const { error } = await supabase
+            .from('Grocery list')
+            .update({ notes })
+            .eq('id', item.id);
+          if (error) throw error;
+        }, target);
+        setItems(prev => prev.map(i => (i.id === item.id ? { ...i, notes } : i)));
+      } catch (error) {
+        toast({ title: 'Error', description: 'Failed to update note', variant: 'destructive' });
+      }
+    },
+    setBuyLaterByName: async (rawName: string, buyLater: boolean, targetListId?: number) => {
+      const target = targetListId ?? listId;
+      if (!target) return;
+      try {
+        const item = await findListItem(rawName, target);
+        if (!item || !!item.buy_later === buyLater) return;
+        if (target === listId) {
+          await toggleBuyLater(item.id);
+          return;
+        }
+        await sendOrQueue({ kind: 'update', itemId: item.id, changes: { buy_later: buyLater }, previous: { buy_later: !!item.buy_later } }, async () => {
+          const { error } = await supabase
+            .from('Grocery list')
+            .update({ buy_later: buyLater })
+            .eq('id', item.id);
+          if (error) throw error;
+        }, target);
+      } catch (error) {
+        toast({ title: 'Error', description: 'Failed to update Buy Later status', variant: 'destructive' });
+      }
+    },
+    markPurchasedByName: async (rawName: string, quantity?: number, targetListId?: number) => {
+      const target = targetListId ?? listId;
+      if (!target) return;
+      try {
+        const item = await findListItem(rawName, target);
+        if (!item || item.checked) return;
+        // On a trip it goes into the basket like a tick would; a trip only covers the list on screen
+        if (target === listId && (trip.session || quantity === undefined)) {
+          await toggleItem(item.id);
+          return;
+        }
+        await processPurchase(item, Math.min(quantity ?? (item.Quantity || 1), item.Quantity || 1), target);
+      } catch (error) {
+        toast({ title: 'Error', description: 'Failed to mark item as purchased', variant: 'destructive' });
+      }
+    },
+    addFromSavedByName: async (rawName: string, quantity?: number, targetListId?: number) => {
+      const targetName = normalizeItemName(rawName);
+      try {
+        const { data: { session } } = await supabase.auth.getSession();
+        if (!session?.user) {
+          toast({ title: 'Authentication Error', description: 'Please sign in to add saved items', variant: 'destructive' });
+          return;
+        }
+        const { data, error } = await supabase
+          .from('SavedlistItems')
+          .select('Item, Quantity, notes')
+          .eq('user_id', session.user.id);
+        if (error) throw error;
+        const saved = (data || []).find(i => normalizeItemName(i.Item) === targetName);
+        if (!saved) {
+          toast({ title: 'Not in saved items', description: `Couldn't find ${rawName} in your saved items`, variant: 'destructive' });
+          return;
+        }
+        await addOrIncreaseByName(saved.Item, quantity ?? (saved.Quantity || 1), saved.notes ?? undefined, targetListId);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "An unknown error occurred.";
+        toast({ title: 'Error adding saved item', description: message, variant: 'destructive' });
+      }
+    },
+    clearList: async (targetListId?: number) => {
+      const target = targetListId ?? listId;
+      if (!target) return;
+      if (target === listId) {
+        // Later steps of the same voice plan read the items before the emptied list renders
+        if (await deleteAllItems()) itemsRef.current = [];
+        return;
+      }
+      try {
+        const { error } = await supabase
+          .from('Grocery list')
+          .delete()
+          .eq('list_id', target);
+        if (error) throw error;
+      } catch (error) {
+        toast({ title: 'Error deleting items', description: 'Failed to delete all items from grocery list', variant: 'destructive' });
+      }
     }
-  }), [items]);
+  }), [items, listId, trip.session]);
 
   const removeItem = async (id: number) => {
     const item = items.find(i => i.id === id);
@@ -832,23 +1230,35 @@ export const GroceryChecklist = forwardRef<GroceryChecklistHandle, Record<string
   const processDelete = async (item: GroceryItem, selectedQuantity: number) => {
     try {
       const remainingQuantity = (item.Quantity || 1) - selectedQuantity;
+      let outcome: 'sent' | 'queued';
       if (remainingQuantity <= 0) {
-        const { error: deleteError } = await supabase
-          .from('Grocery list')
-          .delete()
-          .eq('id', item.id);
-        if (deleteError) throw deleteError;
+        outcome = await sendOrQueue({ kind: 'delete', itemId: item.id }, async () => {
+          const { error: deleteError } = await supabase
+            .from('Grocery list')
+            .delete()
+            .eq('id', item.id);
+          if (deleteError) throw deleteError;
+        });
         setItems(prev => prev.filter(i => i.id !== item.id));
       } else {
-        const { error: updateError } = await supabase
-          .from('Grocery list')
-          .update({ Quantity: remainingQuantity })
-          .eq('id', item.id);
-        if (updateError) throw updateError;
+        outcome = await sendOrQueue({ kind: 'update', itemId: item.id, changes: { Quantity: remainingQuantity }, previous: { Quantity: item.Quantity || 1 } }, async () => {
+          const { error: updateError } = await supabase
+            .from('Grocery list')
+            .update({ Quantity: remainingQuantity })
+            .eq('id', item.id);
+          if (updateError) throw updateError;
+        });
         setItems(prev => prev.map(i => 
           i.id === item.id ? { ...i, Quantity: remainingQuantity } : i
         ));
       }
+      if (outcome === 'queued') {
+        toast({
+          title: "Item removed!",
+          description: `${selectedQuantity} ${item.Item} removed; will sync once you're back online`,
+        });
+        return;
+      }
       const deletedItem = {
         ...item,
         Quantity: selectedQuantity,
@@ -881,6 +1291,11 @@ export const GroceryChecklist = forwardRef<GroceryChecklistHandle, Record<string
   const updateQuantity = async (id: number, quantityUpdate: number) => {
     const item = items.find(i => i.id === id);
     if (!item) return;
+    await applyQuantityUpdate(item, quantityUpdate);
+  };
+
+  const applyQuantityUpdate = async (item: GroceryItem, quantityUpdate: number) => {
+    const id = item.id;
     let newQuantity: number;
     if (quantityUpdate > 10000) {
       newQuantity = quantityUpdate - 10000;
@@ -889,11 +1304,13 @@ export const GroceryChecklist = forwardRef<GroceryChecklistHandle, Record<string
     }
     newQuantity = Math.max(1, newQuantity);
     try {
-      const { error } = await supabase
-        .from('Grocery list')
-        .update({ Quantity: newQuantity })
-        .eq('id', id);
-      if (error) throw error;
+      await sendOrQueue({ kind: 'update', itemId: id, changes: { Quantity: newQuantity }, previous: { Quantity: item.Quantity || 1 } }, async () => {
+        const { error } = await supabase
+          .from('Grocery list')
+          .update({ Quantity: newQuantity })
+          .eq('id', id);
+        if (error) throw error;
+      });
       setItems(prev => prev.map(i => 
         i.id === id ? { ...i, Quantity: newQuantity } : i
       ));
@@ -911,6 +1328,8 @@ export const GroceryChecklist = forwardRef<GroceryChecklistHandle, Record<string
   const undoDelete = async (deletedItem?: DeletedItem) => {
     const itemToUndo = deletedItem || recentlyDeleted;
     if (!itemToUndo) return;
+    // Restore into the list the item came from, even if another list is shown now
+    const targetListId = itemToUndo.list_id ?? listId;
     try {
       const user = await supabase.auth.getUser();
       if (!user.data.user) {
@@ -926,7 +1345,7 @@ export const GroceryChecklist = forwardRef<GroceryChecklistHandle, Record<string
           const { data: minOrderData, error: minOrderError } = await supabase
             .from('Grocery list')
             .select('order')
-            .eq('user_id', user.data.user.id)
+            .eq('list_id', targetListId)
             .order('order', { ascending: true })
             .limit(1)
             .single();
@@ -941,12 +1360,16 @@ export const GroceryChecklist = forwardRef<GroceryChecklistHandle, Record<string
               Item: itemToUndo.Item,
               Quantity: itemToUndo.Quantity || 1,
               user_id: user.data.user.id,
+              list_id: targetListId,
               img: itemToUndo.img,
               notes: itemToUndo.notes ?? null,
               price: itemToUndo.price ?? null,
               discount: itemToUndo.discount ?? null,
               discount_percentage: itemToUndo.discount_percentage ?? null,
+              ...structuredPriceOf(itemToUndo),
               link: itemToUndo.link ?? null,
+              variant: itemToUndo.variant ?? null,
+              category: itemToUndo.category ?? null,
               buy_later: itemToUndo.buy_later ?? false,
               order: newOrder
             }])
@@ -955,24 +1378,15 @@ export const GroceryChecklist = forwardRef<GroceryChecklistHandle, Record<string
           if (error) throw error;
           if (data) {
             const newItem = { ...data, checked: false };
-            setItems(prev => [newItem, ...prev]);
+            prependItem(newItem);
           }
-          if (itemToUndo.purchaseHistoryId) {
-            const { data: historyCheck, error: checkError } = await supabase
-              .from('Purchase history')
-              .select('id')
-              .eq('id', itemToUndo.purchaseHistoryId)
-              .single();
-            if (checkError && checkError.code !== 'PGRST116') {
-              throw checkError;
-            }
-            if (historyCheck) {
-              const { error: deleteHistoryError } = await supabase
-                .from('Purchase history')
-                .delete()
-                .eq('id', itemToUndo.purchaseHistoryId);
-              if (deleteHistoryError) throw deleteHistoryError;
-            }
+          if (itemToUndo.purchaseEventId) {
+            // Removing the event also keeps an undone pick out of the learned route
+            const { error: deleteEventError } = await supabase
+              .from('purchase_events')
+              .delete()
+              .eq('id', itemToUndo.purchaseEventId);
+            if (deleteEventError) throw deleteEventError;
           }
           await fetchItems();
           setRecentlyDeleted(null);
@@ -988,7 +1402,7 @@ export const GroceryChecklist = forwardRef<GroceryChecklistHandle, Record<string
           const { data: minOrderData, error: minOrderError } = await supabase
             .from('Grocery list')
             .select('order')
-            .eq('user_id', user.data.user.id)
+            .eq('list_id', targetListId)
             .order('order', { ascending: true })
             .limit(1)
             .single();
@@ -1000,7 +1414,7 @@ export const GroceryChecklist = forwardRef<GroceryChecklistHandle, Record<string
           const { data: existingItems, error: checkError } = await supabase
             .from('Grocery list')
             .select('id, Item, Quantity')
-            .eq('user_id', user.data.user.id);
+            .eq('list_id', targetListId);
           if (checkError) throw checkError;
           const existingItem = existingItems?.find(i => 
             normalizeItemName(i.Item) === normalizeItemName(itemToUndo.Item)
@@ -1019,7 +1433,10 @@ export const GroceryChecklist = forwardRef<GroceryChecklistHandle, Record<string
               Item: itemToUndo.Item,
               Quantity: itemToUndo.Quantity || 1,
               user_id: user.data.user.id,
+              list_id: targetListId,
               img: itemToUndo.img,
+              variant: itemToUndo.variant ?? null,
+              category: itemToUndo.category ?? null,
               order: newOrder
             }])
             .select()
@@ -1027,7 +1444,7 @@ export const GroceryChecklist = forwardRef<GroceryChecklistHandle, Record<string
           if (error) throw error;
           if (data) {
             const newItem = { ...data, checked: false };
-            setItems(prev => [newItem, ...prev]);
+            prependItem(newItem);
           }
           await fetchItems();
           setRecentlyDeleted(null);
@@ -1043,7 +1460,7 @@ export const GroceryChecklist = forwardRef<GroceryChecklistHandle, Record<string
           const { data: currentItems, error: fetchError } = await supabase
             .from('Grocery list')
             .select('*')
-            .eq('user_id', user.data.user.id);
+            .eq('list_id', targetListId);
           if (fetchError) throw fetchError;
           for (const addedItem of itemToUndo.addedItems) {
             const currentItem = currentItems?.find(i => 
@@ -1088,13 +1505,17 @@ export const GroceryChecklist = forwardRef<GroceryChecklistHandle, Record<string
             Item: item.Item,
             Quantity: item.Quantity,
             user_id: user.data.user.id,
+            list_id: item.list_id ?? targetListId,
             img: item.img,
             order: item.order,
             notes: item.notes,
             price: item.price,
             discount: item.discount,
             discount_percentage: item.discount_percentage,
-            link: item.link
+            ...structuredPriceOf(item),
+            link: item.link,
+            variant: item.variant ?? null,
+            category: item.category ?? null
           }));
 
           const { data: restoredItems, error: restoreError } = await supabase
@@ -1104,7 +1525,7 @@ export const GroceryChecklist = forwardRef<GroceryChecklistHandle, Record<string
 
           if (restoreError) throw restoreError;
 
-          if (restoredItems) {
+          if (restoredItems && targetListId === listId) {
             const newItems = restoredItems.map(item => ({ ...item, checked: false }));
             setItems(newItems);
           }
@@ -1145,6 +1566,7 @@ export const GroceryChecklist = forwardRef<GroceryChecklistHandle, Record<string
       action: 'added-saved' as const,
       addedItemIds: addedData.addedItemIds,
       addedItems: addedData.items,
+      list_id: listId,
       order: 0
     };
     setRecentlyDeleted(deletedItem);
@@ -1172,6 +1594,7 @@ export const GroceryChecklist = forwardRef<GroceryChecklistHandle, Record<string
       action: 'added-specials' as const,
       addedItemIds: addedData.addedItemIds,
       addedItems: addedData.items,
+      list_id: listId,
       order: 0
     };
     setRecentlyDeleted(deletedItem);
@@ -1190,7 +1613,8 @@ export const GroceryChecklist = forwardRef<GroceryChecklistHandle, Record<string
     fetchItems();
   };
 
-  const deleteAllItems = async () => {
+  // Resolves true once the list has been emptied
+  const deleteAllItems = async (): Promise<boolean> => {
     try {
       const user = await supabase.auth.getUser();
       if (!user.data.user) {
@@ -1199,7 +1623,7 @@ export const GroceryChecklist = forwardRef<GroceryChecklistHandle, Record<string
           description: "Please sign in to delete items",
           variant: "destructive",
         });
-        return;
+        return false;
       }
 
       if (items.length === 0) {
@@ -1208,7 +1632,7 @@ export const GroceryChecklist = forwardRef<GroceryChecklistHandle, Record<string
           description: "Your grocery list is already empty",
         });
         setDeleteAllModalOpen(false);
-        return;
+        return false;
       }
 
       // Store items for undo functionality
@@ -1219,7 +1643,7 @@ export const GroceryChecklist = forwardRef<GroceryChecklistHandle, Record<string
       const { error: deleteError } = await supabase
         .from('Grocery list')
         .delete()
-        .eq('user_id', user.data.user.id);
+        .eq('list_id', listId);
 
       if (deleteError) throw deleteError;
 
@@ -1233,6 +1657,7 @@ export const GroceryChecklist = forwardRef<GroceryChecklistHandle, Record<string
         Item: `${deletedCount} items`,
         deletedAt: Date.now(),
         action: 'deleted-all' as const,
+        list_id: listId,
         order: 0,
         bulkDeletedItems: itemsToDelete
       };
@@ -1251,13 +1676,120 @@ export const GroceryChecklist = forwardRef<GroceryChecklistHandle, Record<string
           </ToastAction>
         ),
       });
-
+      return true;
     } catch (error) {
       toast({
         title: "Error deleting items",
         description: "Failed to delete all items from grocery list",
         variant: "destructive",
       });
+      return false;
+    }
+  };
+
+  const startTrip = (store: string | null) => {
+    setStoreDialog(null);
+    setCurrentStore(store);
+    trip.start(store);
+  };
+
+  // Commits the basket to purchase history in one go, or queues it when offline
+  const finishTrip = async () => {
+    const session = trip.session;
+    if (!session) return;
+    if (session.basket.length === 0) {
+      trip.end();
+      return;
+    }
+    try {
+      const outcome = await sendOrQueue({ kind: 'trip', session }, () => commitTrip(session));
+      const picked = new Map(session.basket.map(entry => [entry.itemId, entry.quantity]));
+      setItems(prev => prev.flatMap(item => {
+        const quantity = picked.get(item.id);
+        if (!quantity) return [item];
+        const remaining = (item.Quantity || 1) - quantity;
+        return remaining > 0 ? [{ ...item, Quantity: remaining }] : [];
+      }));
+      session.basket.forEach(entry => replenishment.notePurchase({
+        item: entry.Item,
+        normalized_name: normalizeItemName(entry.Item),
+        quantity: entry.quantity,
+        purchased_at: entry.pickedAt,
+      }));
+      trip.end();
+      setTripSummary(summarizeTrip(session));
+      if (outcome === 'queued') {
+        toast({
+          title: "Trip saved on this device",
+          description: "It will move to purchase history once you're back online",
+        });
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to save the trip';
+      toast({
+        title: "Couldn't finish trip",
+        description: message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const cancelTrip = () => {
+    const session = trip.session;
+    trip.end();
+    if (!session || session.basket.length === 0) return;
+    toast({
+      title: "Trip cancelled",
+      description: `${session.basket.length} item${session.basket.length === 1 ? ' is' : 's are'} back on the list`,
+      duration: 10000,
+      action: (
+        <ToastAction altText="Resume trip" onClick={() => trip.resume(session)}>
+          Undo
+        </ToastAction>
+      ),
+    });
+  };
+
+  const sortByRoute = async (store: string | null) => {
+    setStoreDialog(null);
+    setCurrentStore(store);
+    setIsSorting(true);
+    try {
+      let eventsQuery = supabase
+        .from('purchase_events')
+        .select('normalized_name, trip_id, sequence, purchased_at')
+        .order('purchased_at', { ascending: false })
+        .limit(1000);
+      if (store) eventsQuery = eventsQuery.eq('store', store);
+      const { data: events, error } = await eventsQuery;
+      if (error) throw error;
+      const route = learnRoute(events || []);
+      const storeLabel = STORES.find(s => s.id === store)?.label;
+      if (!items.some(item => route.has(normalizeItemName(item.Item)))) {
+        toast({
+          title: "No route learned yet",
+          description: `Tick items off in the order you pick them up${storeLabel ? ` at ${storeLabel}` : ''} and your route will be learned over a couple of trips.`,
+        });
+        return;
+      }
+      const updatedItems = orderByRoute(items, route).map((item, index) => ({
+        ...item,
+        order: index + 1
+      }));
+      setItems(updatedItems);
+      await updateItemsOrder(updatedItems);
+      toast({
+        title: "Items sorted!",
+        description: `Grocery list sorted by your shopping route${storeLabel ? ` at ${storeLabel}` : ''}`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error sorting items",
+        description: "Failed to sort by your shopping route",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSorting(false);
     }
   };
 
@@ -1276,7 +1808,7 @@ export const GroceryChecklist = forwardRef<GroceryChecklistHandle, Record<string
       let sortQuery = supabase
         .from('Grocery list')
         .select('*')
-        .eq('user_id', user.data.user.id);
+        .eq('list_id', listId);
       switch (sortType) {
         case 'newest':
           sortQuery = sortQuery.order('created_at', { ascending: false });
@@ -1307,7 +1839,7 @@ export const GroceryChecklist = forwardRef<GroceryChecklistHandle, Record<string
           .from('Grocery list')
           .update({ order: tempOrder })
           .eq('id', item.id)
-          .eq('user_id', user.data.user.id);
+          .eq('list_id', listId);
         if (tempUpdateError) throw tempUpdateError;
       }
       for (let i = 0; i < sortedItems.length; i++) {
@@ -1317,7 +1849,7 @@ export const GroceryChecklist = forwardRef<GroceryChecklistHandle, Record<string
           .from('Grocery list')
           .update({ order: finalOrder })
           .eq('id', item.id)
-          .eq('user_id', user.data.user.id);
+          .eq('list_id', listId);
         if (finalUpdateError) throw finalUpdateError;
       }
       await fetchItems();
@@ -1342,11 +1874,53 @@ export const GroceryChecklist = forwardRef<GroceryChecklistHandle, Record<string
     }
   };
 
+  // Items already in the trip's basket are off the list until the trip is finished or cancelled
+  const pickedIds = new Set(trip.session?.basket.map(entry => entry.itemId) ?? []);
   const filteredItems = items.filter(item =>
-    item.Item.toLowerCase().includes(searchTerm.toLowerCase())
+    !pickedIds.has(item.id) &&
+    item.Item.toLowerCase().includes(searchTerm.toLowerCase()) &&
+    (!categoryFilter || itemCategory(item) === categoryFilter)
   );
+  // Only offer categories that something on the list is in
+  const listCategories = [...CATEGORIES, UNCATEGORISED].filter(category => items.some(item => itemCategory(item) === category));
   const defaultItems = filteredItems.filter(item => !item.buy_later);
   const buyLaterItems = filteredItems.filter(item => item.buy_later);
+  // Totals cover the whole list whatever the search or category filter is showing
+  const shopItems = items.filter(item => !item.buy_later);
+  const buyLaterTotal = basketTotal(items.filter(item => item.buy_later));
+  const sections = groupByAisle ? groupBySection(defaultItems, getCurrentStore(), itemLocations.locations) : [];
+
+  const toggleGroupByAisle = () => {
+    const next = !groupByAisle;
+    setGroupByAisle(next);
+    localStorage.setItem('group-by-aisle', String(next));
+  };
+
+  const toggleSection = (section: string) => {
+    setCollapsedSections(prev => {
+      const next = new Set(prev);
+      if (next.has(section)) next.delete(section);
+      else next.add(section);
+      return next;
+    });
+  };
+
+  const renderListItem = (item: GroceryItem, index: number) => (
+    <TouchSortableGroceryItem
+      key={item.id}
+      item={item}
+      onToggle={toggleItem}
+      onUpdateQuantity={updateQuantity}
+      onRemove={removeItem}
+      onReorder={(from, to) => handleReorder(defaultItems, from, to)}
+      onImageClick={() => setDetailModalItem(item)}
+      onToggleBuyLater={toggleBuyLater}
+      index={index}
+      totalItems={defaultItems.length}
+      dragDestination={dragDestination}
+      onDragDestinationChange={setDragDestination}
+    />
+  );
 
   if (loading) {
     return (
@@ -1362,6 +1936,20 @@ export const GroceryChecklist = forwardRef<GroceryChecklistHandle, Record<string
     <div className="space-y-4">
       <Card className="px-0 py-4 shadow-card">
         <div className="space-y-4">
+          {(!isOnline || pendingSyncCount > 0) && (
+            <div className="flex items-center gap-2 rounded-md bg-amber-50 px-3 py-2 text-sm text-amber-800">
+              <CloudOff className="h-4 w-4 flex-shrink-0" />
+              <span className="flex-1">
+                {isOnline ? 'Back online' : 'Offline'}
+                {pendingSyncCount > 0 && ` · ${pendingSyncCount} change${pendingSyncCount === 1 ? '' : 's'} pending sync`}
+              </span>
+              {isOnline && pendingSyncCount > 0 && (
+                <Button variant="ghost" size="sm" onClick={fetchItems} className="h-7 gap-1 px-2 text-amber-800" title="Sync now">
+                  <RefreshCw className="h-3 w-3" /> Sync
+                </Button>
+              )}
+            </div>
+          )}
           <div className="flex gap-2 items-center">
             <Button
               variant={showSearchSort ? 'default' : 'outline'}
@@ -1372,21 +1960,27 @@ export const GroceryChecklist = forwardRef<GroceryChecklistHandle, Record<string
             >
               <Search className="h-4 w-4" />
             </Button>
-            <Input
-              placeholder="Add a new item..."
-              value={newItem}
-              onChange={(e) => setNewItem(e.target.value)}
-              onKeyPress={(e) => e.key === 'Enter' && addItem()}
-              className="flex-1"
-            />
-            <Button 
-              onClick={addItem} 
-              size="sm"
-              variant={newItem.trim() ? "default" : "outline"}
-              className={newItem.trim() ? "bg-green-500 hover:bg-green-600 text-white" : ""}
-            >
-              <Plus className="h-4 w-4" />
-            </Button>
+            {readOnly ? (
+              <div className="flex-1 text-sm text-muted-foreground">You have view-only access to this list</div>
+            ) : (
+              <>
+                <Input
+                  placeholder="Add a new item..."
+                  value={newItem}
+                  onChange={(e) => setNewItem(e.target.value)}
+                  onKeyPress={(e) => e.key === 'Enter' && addItem()}
+                  className="flex-1"
+                />
+                <Button 
+                  onClick={addItem} 
+                  size="sm"
+                  variant={newItem.trim() ? "default" : "outline"}
+                  className={newItem.trim() ? "bg-green-500 hover:bg-green-600 text-white" : ""}
+                >
+                  <Plus className="h-4 w-4" />
+                </Button>
+              </>
+            )}
           </div>
           {showSearchSort && (
           <div className="flex gap-2">
@@ -1414,7 +2008,7 @@ export const GroceryChecklist = forwardRef<GroceryChecklistHandle, Record<string
               size="sm"
               onClick={() => setDeleteAllModalOpen(true)}
               className="gap-2 text-pink-600 border-pink-300 hover:bg-pink-50 hover:text-pink-700 hover:border-pink-400"
-              disabled={items.length === 0}
+              disabled={items.length === 0 || readOnly}
               title="Delete all items"
             >
               <Trash2 className="h-4 w-4" />
@@ -1422,7 +2016,7 @@ export const GroceryChecklist = forwardRef<GroceryChecklistHandle, Record<string
             </Button>
             <DropdownMenu>
               <DropdownMenuTrigger asChild>
-                <Button variant="outline" size="sm" className="gap-2">
+                <Button variant="outline" size="sm" className="gap-2" disabled={readOnly}>
                   <ArrowUpDown className="h-4 w-4" />
                   Sort
                 </Button>
@@ -1432,27 +2026,99 @@ export const GroceryChecklist = forwardRef<GroceryChecklistHandle, Record<string
                 <DropdownMenuItem onClick={() => sortItems('oldest')}>Sort by oldest</DropdownMenuItem>
                 <DropdownMenuItem onClick={() => sortItems('az')}>Sort A-Z</DropdownMenuItem>
                 <DropdownMenuItem onClick={() => sortItems('za')}>Sort Z-A</DropdownMenuItem>
+                <DropdownMenuItem onClick={() => setStoreDialog('route')}>Sort by my shopping route</DropdownMenuItem>
               </DropdownMenuContent>
             </DropdownMenu>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setStoreDialog('trip')}
+              className="gap-2"
+              disabled={readOnly || !!trip.session}
+              title="Start shopping"
+            >
+              <ShoppingBasket className="h-4 w-4" />
+              Shop
+            </Button>
+            <Button
+              variant={groupByAisle ? 'default' : 'outline'}
+              size="sm"
+              onClick={toggleGroupByAisle}
+              className="gap-2"
+              title={groupByAisle ? "Show as one list" : "Group by aisle"}
+            >
+              <LayoutList className="h-4 w-4" />
+              Aisles
+            </Button>
           </div>
           )}
-          <div className={`space-y-0 ${isSorting ? 'blur-sm pointer-events-none' : ''}`}>
-            {defaultItems.map((item, index) => (
-              <TouchSortableGroceryItem
-                key={item.id}
-                item={item}
-                onToggle={toggleItem}
-                onUpdateQuantity={updateQuantity}
-                onRemove={removeItem}
-                onReorder={(from, to) => handleReorder(defaultItems, from, to)}
-                onImageClick={() => setDetailModalItem(item)}
-                onToggleBuyLater={toggleBuyLater}
-                index={index}
-                totalItems={defaultItems.length}
-                dragDestination={dragDestination}
-                onDragDestinationChange={setDragDestination}
-              />
-            ))}
+          {showSearchSort && listCategories.length > 1 && (
+            <div className="flex gap-2 overflow-x-auto pb-1">
+              <Button
+                variant={categoryFilter ? 'outline' : 'default'}
+                size="sm"
+                className="h-7 rounded-full px-3 text-xs shrink-0"
+                onClick={() => setCategoryFilter(null)}
+              >
+                All
+              </Button>
+              {listCategories.map(category => (
+                <Button
+                  key={category}
+                  variant={categoryFilter === category ? 'default' : 'outline'}
+                  size="sm"
+                  className="h-7 gap-1 rounded-full px-3 text-xs shrink-0"
+                  onClick={() => setCategoryFilter(categoryFilter === category ? null : category)}
+                >
+                  <Tag className="h-3 w-3" />
+                  {category}
+                </Button>
+              ))}
+            </div>
+          )}
+          {!readOnly && (
+            <ReplenishmentStrip
+              suggestions={replenishment.suggestions}
+              onAdd={(suggestion) => addOrIncreaseByName(suggestion.name, suggestion.quantity)}
+              onSnooze={replenishment.snooze}
+              onDismiss={replenishment.dismiss}
+            />
+          )}
+          {trip.session && (
+            <ShoppingTripBar
+              session={trip.session}
+              onUnpick={trip.unpick}
+              onPriceChange={trip.setPrice}
+              onFinish={finishTrip}
+              onCancel={cancelTrip}
+            />
+          )}
+          <BasketSummary items={shopItems} budget={budget} onBudgetChange={setBudget} />
+          <div className={`space-y-0 ${isSorting || readOnly ? 'pointer-events-none' : ''} ${isSorting ? 'blur-sm' : ''}`}>
+            {groupByAisle ? (
+              sections.map(group => {
+                const collapsed = collapsedSections.has(group.section);
+                return (
+                  <div key={group.section}>
+                    <button
+                      type="button"
+                      onClick={() => toggleSection(group.section)}
+                      className="w-full flex items-center gap-2 px-4 py-2 bg-muted/40 text-left text-sm font-semibold text-muted-foreground"
+                    >
+                      {collapsed ? <ChevronRight className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                      <span className="flex-1">{group.section}</span>
+                      {group.aisles.length > 0 && (
+                        <span className="text-xs font-normal">Aisle {group.aisles.join(', ')}</span>
+                      )}
+                      <span className="text-xs font-normal">{group.items.length}</span>
+                    </button>
+                    {!collapsed && group.items.map(item => renderListItem(item, defaultItems.indexOf(item)))}
+                  </div>
+                );
+              })
+            ) : (
+              defaultItems.map((item, index) => renderListItem(item, index))
+            )}
             {defaultItems.length === 0 && (
               <div className="p-6 text-center">
                 <div className="text-muted-foreground">
@@ -1465,7 +2131,14 @@ export const GroceryChecklist = forwardRef<GroceryChecklistHandle, Record<string
             )}
             {/* Buy Later section, between the main list and the bottom add bar */}
             <div className="pt-4">
-              <h3 className="text-sm font-semibold text-muted-foreground mb-2">Buy Later</h3>
+              <h3 className="flex justify-between text-sm font-semibold text-muted-foreground mb-2">
+                <span>Buy Later</span>
+                {buyLaterTotal.total.cents > 0 && (
+                  <span className="font-normal">
+                    {buyLaterTotal.unpriced > 0 ? '≈ ' : ''}{formatMoney(buyLaterTotal.total)}
+                  </span>
+                )}
+              </h3>
               <div className={`space-y-0 ${isSorting ? 'blur-sm pointer-events-none' : ''}`}>
                 {buyLaterItems.map((item, index) => (
                   <TouchSortableGroceryItem
@@ -1491,6 +2164,7 @@ export const GroceryChecklist = forwardRef<GroceryChecklistHandle, Record<string
               </div>
             </div>
             {/* Bottom Add bar inside the same card as the list */}
+            {!readOnly && (
             <div className="flex gap-2 items-center pt-4">
               <Input
                 placeholder="Add a new item..."
@@ -1508,9 +2182,11 @@ export const GroceryChecklist = forwardRef<GroceryChecklistHandle, Record<string
                 <Plus className="h-4 w-4" />
               </Button>
             </div>
+            )}
           </div>
         </div>
       </Card>
+      {!readOnly && (
       <Card className="px-0 py-4 shadow-card">
         <div className="space-y-3">
           <div className="flex gap-2">
@@ -1525,25 +2201,91 @@ export const GroceryChecklist = forwardRef<GroceryChecklistHandle, Record<string
             <Button
               variant="outline"
               size="sm"
-              onClick={() => setSpecialsModalOpen(true)}
-              className="flex-1"
+              onClick={() => {
+                setSpecialsModalOpen(true);
+                specialMatches.markAllSeen();
+              }}
+              className="flex-1 relative"
             >
               Add Specials
+              {specialMatches.unseenCount > 0 && (
+                <span
+                  className="absolute -top-1.5 -right-1.5 min-w-[1.1rem] h-[1.1rem] px-1 rounded-full bg-red-500 text-white text-[10px] leading-[1.1rem] text-center"
+                  title={`${specialMatches.unseenCount} tracked item${specialMatches.unseenCount === 1 ? '' : 's'} on special`}
+                >
+                  {specialMatches.unseenCount}
+                </span>
+              )}
             </Button>
+            <WatchlistNotifications
+              matches={specialMatches.matches}
+              unseenCount={specialMatches.unseenCount}
+              onOpen={specialMatches.markAllSeen}
+              onDismiss={specialMatches.dismiss}
+              onViewSpecials={() => setSpecialsModalOpen(true)}
+            />
           </div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setPriceComparisonOpen(true)}
+            className="w-full"
+            disabled={items.length === 0}
+          >
+            Compare Prices
+          </Button>
         </div>
       </Card>
+      )}
+      <PriceComparisonModal
+        isOpen={priceComparisonOpen}
+        onClose={() => setPriceComparisonOpen(false)}
+        items={items}
+      />
       <SavedlistModal
+        listId={listId}
         isOpen={savedlistModalOpen}
         onClose={() => setSavedlistModalOpen(false)}
         onItemsAdded={handleSavedlistItemsAdded}
       />
       <SpecialsModal
+        listId={listId}
         isOpen={specialsModalOpen}
         onClose={() => setSpecialsModalOpen(false)}
         onItemsAdded={handleSpecialsItemsAdded}
       />
       
+      {/* Shopping route store picker */}
+      <Dialog open={storeDialog !== null} onOpenChange={(open) => !open && setStoreDialog(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Where are you shopping?</DialogTitle>
+          </DialogHeader>
+          <p className="text-sm text-muted-foreground">
+            {storeDialog === 'trip'
+              ? "Items you tick off go into your basket, in the order you pick them up. Nothing is saved to your history until you finish the trip."
+              : "Items will be ordered the way you usually walk through this store. Items you tick off from now on are remembered for this store."}
+          </p>
+          <div className="grid grid-cols-2 gap-2 pt-2">
+            {STORES.map(store => (
+              <Button
+                key={store.id}
+                variant={getCurrentStore() === store.id ? 'default' : 'outline'}
+                onClick={() => (storeDialog === 'trip' ? startTrip(store.id) : sortByRoute(store.id))}
+              >
+                {store.label}
+              </Button>
+            ))}
+            <Button
+              variant={getCurrentStore() === null ? 'default' : 'outline'}
+              onClick={() => (storeDialog === 'trip' ? startTrip(null) : sortByRoute(null))}
+            >
+              Any store
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
       {/* Delete All Confirmation Modal */}
       <Dialog open={deleteAllModalOpen} onOpenChange={setDeleteAllModalOpen}>
         <DialogContent className="sm:max-w-md">
@@ -1573,13 +2315,18 @@ export const GroceryChecklist = forwardRef<GroceryChecklistHandle, Record<string
         </DialogContent>
       </Dialog>
 
+      <TripSummaryDialog summary={tripSummary} onClose={() => setTripSummary(null)} />
+
       {detailModalItem && (
         <ItemDetailModal
           isOpen={!!detailModalItem}
           onClose={() => setDetailModalItem(null)}
           item={detailModalItem}
           tableName="Grocery list"
-          onUpdate={fetchItems}
+          onUpdate={() => {
+            fetchItems();
+            itemLocations.refresh();
+          }}
         />
       )}
 
@@ -0,0 +1,259 @@
+import { useState, useEffect, useMemo, useCallback } from "react";
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, ChartLegend, ChartLegendContent, type ChartConfig } from "@/components/ui/chart";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { useOnlineStatus } from "@/hooks/useOnlineStatus";
+import { isNetworkError } from "@/services/syncQueue";
+import { formatPrice } from "@/services/priceComparison";
+import {
+  spendByPeriod,
+  spendByCategory,
+  totalSavings,
+  mostBought,
+  priceHistory,
+  type PurchaseRecord,
+  type SpendPeriod,
+} from "@/services/spendInsights";
+import { OfflineNotice } from "./OfflineNotice";
+import { cn } from "@/lib/utils";
+
+// A year of purchases covers every chart below, including twelve monthly bars
+const HISTORY_DAYS = 365;
+const PERIOD_COUNTS: Record<SpendPeriod, number> = { week: 12, month: 12 };
+
+const spendConfig = {
+  total: { label: "Spent", color: "hsl(var(--primary))" },
+  savings: { label: "Saved on specials", color: "#f59e0b" },
+} satisfies ChartConfig;
+
+const categoryConfig = {
+  total: { label: "Spent", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+const priceConfig = {
+  price: { label: "Price paid", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+export function Insights() {
+  const [records, setRecords] = useState<PurchaseRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [unavailableOffline, setUnavailableOffline] = useState(false);
+  const [period, setPeriod] = useState<SpendPeriod>('week');
+  const [priceItem, setPriceItem] = useState<string | null>(null);
+  const isOnline = useOnlineStatus();
+  const { toast } = useToast();
+
+  const fetchInsights = useCallback(async () => {
+    try {
+      const since = new Date(Date.now() - HISTORY_DAYS * 24 * 60 * 60 * 1000).toISOString();
+      const { data: events, error } = await supabase
+        .from('purchase_events')
+        .select('item, normalized_name, quantity, price_paid, savings, purchased_at, category')
+        .gte('purchased_at', since)
+        .order('purchased_at', { ascending: true });
+      if (error) throw error;
+      setRecords(events || []);
+      setUnavailableOffline(false);
+    } catch (error) {
+      if (isNetworkError(error)) {
+        setUnavailableOffline(true);
+        return;
+      }
+      toast({
+        title: "Error loading insights",
+        description: "Failed to load your purchases from database",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchInsights();
+  }, [fetchInsights]);
+
+  useEffect(() => {
+    if (isOnline && unavailableOffline) fetchInsights();
+  }, [isOnline, unavailableOffline, fetchInsights]);
+
+  const periods = useMemo(() => spendByPeriod(records, period, PERIOD_COUNTS[period]), [records, period]);
+  const thisWeek = useMemo(() => spendByPeriod(records, 'week', 1)[0], [records]);
+  const thisMonth = useMemo(() => spendByPeriod(records, 'month', 1)[0], [records]);
+  const categories = useMemo(() => spendByCategory(records), [records]);
+  const saved = useMemo(() => totalSavings(records), [records]);
+  const topItems = useMemo(() => mostBought(records, 10), [records]);
+
+  // Only items bought at a known price more than once have a trend worth charting
+  const pricedItems = useMemo(
+    () => mostBought(records.filter(r => r.price_paid !== null), 50).filter(item => item.times > 1),
+    [records]
+  );
+  const selectedPriceItem = priceItem ?? pricedItems[0]?.key ?? null;
+  const pricePoints = useMemo(
+    () => selectedPriceItem
+      ? priceHistory(records, selectedPriceItem).map(point => ({
+          ...point,
+          label: new Date(point.date).toLocaleDateString('en-US', { month: 'short', day: 'numeric' }),
+        }))
+      : [],
+    [records, selectedPriceItem]
+  );
+
+  if (loading) {
+    return (
+      <div className="space-y-4">
+        <Card className="p-6 text-center shadow-card">
+          <div className="text-muted-foreground">Loading your insights...</div>
+        </Card>
+      </div>
+    );
+  }
+
+  if (unavailableOffline) {
+    return (
+      <div className="space-y-4">
+        <OfflineNotice
+          title="You're offline"
+          description="Insights will load when you're back online."
+          onRetry={isOnline ? fetchInsights : undefined}
+        />
+      </div>
+    );
+  }
+
+  if (records.length === 0) {
+    return (
+      <Card className="p-6 text-center shadow-card">
+        <div className="text-muted-foreground">
+          No purchases yet. Check off items from your grocery list and your spending will show up here.
+        </div>
+      </Card>
+    );
+  }
+
+  const hasPrices = records.some(r => r.price_paid !== null);
+
+  return (
+    <div className="space-y-4">
+      {/* Headline totals */}
+      <div className="grid grid-cols-3 gap-2">
+        <Card className="p-3 text-center shadow-card">
+          <div className="text-xs text-muted-foreground">This week</div>
+          <div className="text-lg font-semibold">{formatPrice(thisWeek.total)}</div>
+        </Card>
+        <Card className="p-3 text-center shadow-card">
+          <div className="text-xs text-muted-foreground">This month</div>
+          <div className="text-lg font-semibold">{formatPrice(thisMonth.total)}</div>
+        </Card>
+        <Card className="p-3 text-center shadow-card">
+          <div className="text-xs text-muted-foreground">Saved on specials</div>
+          <div className="text-lg font-semibold text-amber-600">{formatPrice(saved)}</div>
+        </Card>
+      </div>
+
+      {!hasPrices && (
+        <p className="text-xs text-muted-foreground text-center">
+          None of your purchases had a price yet. Items added from specials carry their price into your spending.
+        </p>
+      )}
+
+      {/* Spend over time */}
+      <Card className="p-4 shadow-card space-y-3">
+        <div className="flex items-center justify-between">
+          <h3 className="font-medium text-sm">Spending</h3>
+          <div className="flex gap-1">
+            {(['week', 'month'] as SpendPeriod[]).map(option => (
+              <Button
+                key={option}
+                variant="ghost"
+                size="sm"
+                onClick={() => setPeriod(option)}
+                className={cn("h-7 text-xs", period === option && "bg-muted")}
+              >
+                {option === 'week' ? 'Weekly' : 'Monthly'}
+              </Button>
+            ))}
+          </div>
+        </div>
+        <ChartContainer config={spendConfig} className="aspect-auto h-56 w-full">
+          <BarChart data={periods}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="label" tickLine={false} axisLine={false} />
+            <YAxis tickLine={false} axisLine={false} width={40} tickFormatter={(value) => `$${value}`} />
+            <ChartTooltip content={<ChartTooltipContent formatter={(value, name) => `${spendConfig[name as keyof typeof spendConfig]?.label ?? name}: ${formatPrice(Number(value))}`} />} />
+            <ChartLegend content={<ChartLegendContent />} />
+            <Bar dataKey="total" fill="var(--color-total)" radius={4} />
+            <Bar dataKey="savings" fill="var(--color-savings)" radius={4} />
+          </BarChart>
+        </ChartContainer>
+      </Card>
+
+      {/* Spend by category */}
+      {categories.length > 0 && (
+        <Card className="p-4 shadow-card space-y-3">
+          <h3 className="font-medium text-sm">Spending by category</h3>
+          <ChartContainer config={categoryConfig} className="aspect-auto w-full" style={{ height: Math.max(120, categories.length * 32) }}>
+            <BarChart data={categories} layout="vertical" margin={{ left: 8 }}>
+              <XAxis type="number" hide />
+              <YAxis type="category" dataKey="category" tickLine={false} axisLine={false} width={100} />
+              <ChartTooltip content={<ChartTooltipContent hideLabel formatter={(value) => formatPrice(Number(value))} />} />
+              <Bar dataKey="total" fill="var(--color-total)" radius={4} />
+            </BarChart>
+          </ChartContainer>
+          <p className="text-xs text-muted-foreground">
+            Uses each item's category when it was bought. Change an item's category from its details.
+          </p>
+        </Card>
+      )}
+
+      {/* Most bought */}
+      <Card className="p-4 shadow-card space-y-2">
+        <h3 className="font-medium text-sm">Most bought</h3>
+        <div className="divide-y">
+          {topItems.map(item => (
+            <div key={item.key} className="flex items-center justify-between py-2 text-sm">
+              <span className="font-medium truncate">{item.name}</span>
+              <span className="text-xs text-muted-foreground flex-shrink-0 ml-2">
+                {item.times} {item.times === 1 ? 'time' : 'times'} · qty {item.quantity}
+                {item.spent > 0 && ` · ${formatPrice(item.spent)}`}
+              </span>
+            </div>
+          ))}
+        </div>
+      </Card>
+
+      {/* Price over time */}
+      {pricedItems.length > 0 && selectedPriceItem && (
+        <Card className="p-4 shadow-card space-y-3">
+          <div className="flex items-center justify-between gap-2">
+            <h3 className="font-medium text-sm">Price over time</h3>
+            <Select value={selectedPriceItem} onValueChange={setPriceItem}>
+              <SelectTrigger className="w-40 h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {pricedItems.map(item => (
+                  <SelectItem key={item.key} value={item.key}>{item.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <ChartContainer config={priceConfig} className="aspect-auto h-48 w-full">
+            <LineChart data={pricePoints}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="label" tickLine={false} axisLine={false} />
+              <YAxis tickLine={false} axisLine={false} width={40} tickFormatter={(value) => `$${value}`} domain={['auto', 'auto']} />
+              <ChartTooltip content={<ChartTooltipContent formatter={(value) => formatPrice(Number(value))} />} />
+              <Line dataKey="price" stroke="var(--color-price)" strokeWidth={2} dot />
+            </LineChart>
+          </ChartContainer>
+        </Card>
+      )}
+    </div>
+  );
+}
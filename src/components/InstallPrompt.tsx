@@ -0,0 +1,37 @@
+import { useState } from "react";
+import { Download, X } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { useInstallPrompt } from "@/hooks/useInstallPrompt";
+
+const DISMISSED_STORAGE_KEY = 'install-prompt-dismissed';
+
+export function InstallPrompt() {
+  const { canInstall, promptInstall } = useInstallPrompt();
+  const [dismissed, setDismissed] = useState(() => localStorage.getItem(DISMISSED_STORAGE_KEY) === 'true');
+
+  if (!canInstall || dismissed) return null;
+
+  const dismiss = () => {
+    localStorage.setItem(DISMISSED_STORAGE_KEY, 'true');
+    setDismissed(true);
+  };
+
+  return (
+    <Card className="mb-4 p-3 shadow-card flex items-center gap-3">
+      <div className="w-8 h-8 bg-gradient-primary rounded-lg flex items-center justify-center flex-shrink-0">
+        <Download className="h-4 w-4 text-primary-foreground" />
+      </div>
+      <div className="flex-1 text-sm">
+        <div className="font-medium text-foreground">Install Simple Grocery List</div>
+        <div className="text-xs text-muted-foreground">Open it from your home screen, even without signal.</div>
+      </div>
+      <Button size="sm" onClick={promptInstall}>
+        Install
+      </Button>
+      <Button variant="ghost" size="sm" onClick={dismiss} className="h-8 w-8 p-0" aria-label="Dismiss install prompt">
+        <X className="h-4 w-4" />
+      </Button>
+    </Card>
+  );
+}
@@ -3,10 +3,21 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/u
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
-import { Edit3, Trash2, Link, Check } from "lucide-react";
+import { Edit3, Trash2, Link, Check, Scale, Bell, BellRing, Tag, ChevronDown } from "lucide-react";
 import { ToastAction } from "@/components/ui/toast";
+import { PriceComparisonModal } from "./PriceComparisonModal";
+import { useTrackedItems } from "@/hooks/useTrackedItems";
+import { useItemLocations } from "@/hooks/useItemLocations";
+import { ANY_STORE, STORE_SECTIONS } from "@/services/storeLayout";
+import { STORES } from "@/services/priceComparison";
+import { getCurrentStore } from "@/services/shoppingRoute";
+import { CATEGORIES, UNCATEGORISED, getCategoryForItem } from "@/lib/utils";
+import { structuredPriceFromText, structuredPriceOf, unitPriceLabel, unitSizeForRename } from "@/services/money";
+import type { StructuredPrice } from "@/integrations/supabase/types";
 
 interface ItemDetailModalProps {
   isOpen: boolean;
@@ -22,7 +33,9 @@ interface ItemDetailModalProps {
     notes?: string | null;
     link?: string | null;
     buy_later?: boolean;
-  };
+    list_id?: number | null;
+    category?: string | null;
+  } & Partial<StructuredPrice>;
   tableName: 'Grocery list' | 'SavedlistItems';
   onUpdate: () => void;
 }
@@ -36,8 +49,19 @@ export function ItemDetailModal({ isOpen, onClose, item, tableName, onUpdate }:
   const [isEditingName, setIsEditingName] = useState(false);
   const [nameValue, setNameValue] = useState(item.Item);
   const [buyLater, setBuyLater] = useState(!!item.buy_later);
+  const [comparisonOpen, setComparisonOpen] = useState(false);
+  const [locationStore, setLocationStore] = useState(getCurrentStore() ?? ANY_STORE);
+  const [section, setSection] = useState("");
+  const [aisle, setAisle] = useState("");
+  const [locationChanged, setLocationChanged] = useState(false);
+  const [category, setCategory] = useState(item.category || getCategoryForItem(item.Item) || UNCATEGORISED);
   const nameInputRef = useRef<HTMLInputElement | null>(null);
+  const { isTracked, toggleTracked } = useTrackedItems();
+  const { locationFor, saveLocation } = useItemLocations();
   const { toast } = useToast();
+  const tracked = isTracked(nameValue);
+  // Worked out from the price as typed, so it follows edits before they're saved
+  const unitLabel = unitPriceLabel({ price, currency: item.currency, unit_size: item.unit_size, unit: item.unit }, nameValue);
 
   useEffect(() => {
     setQuantity(item.Quantity || 1);
@@ -48,8 +72,17 @@ export function ItemDetailModal({ isOpen, onClose, item, tableName, onUpdate }:
     setNameValue(item.Item);
     setIsEditingName(false);
     setBuyLater(!!item.buy_later);
+    setCategory(item.category || getCategoryForItem(item.Item) || UNCATEGORISED);
   }, [item]);
 
+  // Show what's saved (or inferred) for the chosen store until the user edits it
+  useEffect(() => {
+    if (locationChanged) return;
+    const location = locationFor(item.Item, locationStore, category);
+    setSection(location.section);
+    setAisle(location.aisle ?? "");
+  }, [item, locationStore, category, locationChanged, locationFor]);
+
   useEffect(() => {
     if (isOpen) {
       // Push state to history to handle back button
@@ -91,12 +124,10 @@ export function ItemDetailModal({ isOpen, onClose, item, tableName, onUpdate }:
         toast({ title: "Authentication Error", description: "Please sign in to edit items", variant: "destructive" });
         return false;
       }
-      // Duplicate check (case-insensitive) within user's items
-      let query = supabase.from(tableName).select('id, Item, user_id');
-      if (tableName === 'Grocery list' || tableName === 'SavedlistItems') {
-        query = query.eq('user_id', user.id);
-      }
-      const { data: rows, error } = await query;
+      // Duplicate check (case-insensitive) within the item's list, or the user's saved items
+      const { data: rows, error } = tableName === 'Grocery list' && item.list_id
+        ? await supabase.from('Grocery list').select('id, Item, user_id').eq('list_id', item.list_id)
+        : await supabase.from(tableName).select('id, Item, user_id').eq('user_id', user.id);
       if (error) throw error;
       const exists = (rows || []).some((r: any) => r.id !== item.id && (r.Item || '').toLowerCase().trim() === trimmed.toLowerCase());
       if (exists) {
@@ -105,9 +136,8 @@ export function ItemDetailModal({ isOpen, onClose, item, tableName, onUpdate }:
       }
       const { error: updateErr } = await supabase
         .from(tableName)
-        .update({ Item: trimmed })
-        .eq('id', item.id)
-        .eq('user_id', user.id);
+        .update({ Item: trimmed, ...unitSizeForRename(trimmed, price) })
+        .eq('id', item.id);
       if (updateErr) throw updateErr;
       toast({ title: "Item updated", description: "Item name has been updated" });
       onUpdate();
@@ -134,11 +164,17 @@ export function ItemDetailModal({ isOpen, onClose, item, tableName, onUpdate }:
           price: price,
           discount_percentage: discountPercentage || null,
           discount: discount,
+          ...structuredPriceFromText(nameValue.trim() || item.Item, { price, discount, discount_percentage: discountPercentage || null }, item.currency || undefined),
           notes: notes,
+          category: category === UNCATEGORISED ? null : category,
         })
         .eq('id', item.id);
 
       if (error) throw error;
+      if (locationChanged) {
+        await saveLocation(nameValue.trim() || item.Item, locationStore, section, aisle);
+        setLocationChanged(false);
+      }
 
       toast({
         title: "Item Updated",
@@ -179,7 +215,7 @@ export function ItemDetailModal({ isOpen, onClose, item, tableName, onUpdate }:
                   const { data: minOrderData, error: minOrderError } = await supabase
                     .from('Grocery list')
                     .select('order')
-                    .eq('user_id', user.id)
+                    .eq('list_id', snapshot.list_id)
                     .order('order', { ascending: true })
                     .limit(1)
                     .single();
@@ -191,11 +227,14 @@ export function ItemDetailModal({ isOpen, onClose, item, tableName, onUpdate }:
                       Item: snapshot.Item,
                       Quantity: snapshot.Quantity || 1,
                       user_id: user.id,
+                      list_id: snapshot.list_id ?? null,
                       img: (snapshot as any).img || null,
                       price: (snapshot as any).price || null,
                       discount_percentage: (snapshot as any).discount_percentage || null,
                       discount: (snapshot as any).discount || null,
+                      ...structuredPriceOf(snapshot),
                       notes: (snapshot as any).notes || null,
+                      category: snapshot.category ?? null,
                       order: newOrder,
                     }]);
                 } else {
@@ -219,7 +258,9 @@ export function ItemDetailModal({ isOpen, onClose, item, tableName, onUpdate }:
                       price: (snapshot as any).price || null,
                       discount_percentage: (snapshot as any).discount_percentage || null,
                       discount: (snapshot as any).discount || null,
+                      ...structuredPriceOf(snapshot),
                       notes: (snapshot as any).notes || null,
+                      category: snapshot.category ?? null,
                       order: newOrder,
                     }]);
                 }
@@ -242,6 +283,24 @@ export function ItemDetailModal({ isOpen, onClose, item, tableName, onUpdate }:
     }
   };
 
+  const handleToggleTracked = async () => {
+    try {
+      const nowTracked = await toggleTracked(nameValue, tableName, category === UNCATEGORISED ? null : category);
+      toast({
+        title: nowTracked ? "Tracking specials" : "Stopped tracking",
+        description: nowTracked
+          ? `You'll be notified when ${nameValue} is on special`
+          : `${nameValue} removed from your watchlist`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to update your watchlist",
+        variant: "destructive",
+      });
+    }
+  };
+
   const handleToggleBuyLater = async () => {
     const next = !buyLater;
     setBuyLater(next);
@@ -307,6 +366,17 @@ export function ItemDetailModal({ isOpen, onClose, item, tableName, onUpdate }:
                 <Edit3 className="h-4 w-4" />
               </Button>
               </div>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className={`gap-1 mr-6 ${tracked ? 'text-amber-600' : 'text-muted-foreground'}`}
+                onClick={handleToggleTracked}
+                title={tracked ? "Stop tracking specials" : "Track specials for this item"}
+              >
+                {tracked ? <BellRing className="h-4 w-4" /> : <Bell className="h-4 w-4" />}
+                <span className="text-xs">{tracked ? 'Tracking' : 'Track'}</span>
+              </Button>
             </div>
           </DialogTitle>
         </DialogHeader>
@@ -348,6 +418,24 @@ export function ItemDetailModal({ isOpen, onClose, item, tableName, onUpdate }:
                   </div>
                 )}
               </div>
+
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button type="button" variant="outline" size="sm" className="mt-3 h-7 gap-1 rounded-full px-3 text-xs" title="Change category">
+                    <Tag className="h-3 w-3" />
+                    {category}
+                    <ChevronDown className="h-3 w-3 opacity-60" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="center" className="max-h-64 overflow-y-auto">
+                  {[...CATEGORIES, UNCATEGORISED].map(option => (
+                    <DropdownMenuItem key={option} onClick={() => setCategory(option)}>
+                      {option === category && <Check className="h-4 w-4 mr-2" />}
+                      <span className={option === category ? '' : 'ml-6'}>{option}</span>
+                    </DropdownMenuItem>
+                  ))}
+                </DropdownMenuContent>
+              </DropdownMenu>
               
               {/* Price and Discount Display under image */}
               {(price || discountPercentage) && (
@@ -418,6 +506,16 @@ export function ItemDetailModal({ isOpen, onClose, item, tableName, onUpdate }:
                 <div>
                   <label htmlFor="price" className="block text-sm font-medium mb-1">Price</label>
                   <Input id="price" value={price} onChange={(e) => setPrice(e.target.value)} />
+                  {unitLabel && <p className="mt-1 text-xs text-muted-foreground">{unitLabel}</p>}
+                  <Button
+                    type="button"
+                    variant="link"
+                    size="sm"
+                    onClick={() => setComparisonOpen(true)}
+                    className="h-auto p-0 mt-1 gap-1 text-xs"
+                  >
+                    <Scale className="h-3 w-3" /> Compare store prices
+                  </Button>
                 </div>
                 <div>
                   <label htmlFor="discount_percentage" className="block text-sm font-medium mb-1">Discount %</label>
@@ -432,6 +530,56 @@ export function ItemDetailModal({ isOpen, onClose, item, tableName, onUpdate }:
                   <label htmlFor="discount" className="block text-sm font-medium mb-1">Discount</label>
                   <Input id="discount" value={discount} onChange={(e) => setDiscount(e.target.value)} />
                 </div>
+                <div>
+                  <label className="block text-sm font-medium mb-1">Aisle</label>
+                  <div className="space-y-2">
+                    <Select
+                      value={locationStore}
+                      onValueChange={(value) => {
+                        setLocationStore(value);
+                        setLocationChanged(false);
+                      }}
+                    >
+                      <SelectTrigger className="h-9 text-sm">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={ANY_STORE}>Any store</SelectItem>
+                        {STORES.map(store => (
+                          <SelectItem key={store.id} value={store.id}>{store.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <div className="flex gap-2">
+                      <Select
+                        value={section}
+                        onValueChange={(value) => {
+                          setSection(value);
+                          setLocationChanged(true);
+                        }}
+                      >
+                        <SelectTrigger className="h-9 text-sm flex-1">
+                          <SelectValue placeholder="Section" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {(STORE_SECTIONS.includes(section) || !section ? STORE_SECTIONS : [...STORE_SECTIONS, section]).map(option => (
+                            <SelectItem key={option} value={option}>{option}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Input
+                        value={aisle}
+                        onChange={(e) => {
+                          setAisle(e.target.value);
+                          setLocationChanged(true);
+                        }}
+                        placeholder="Aisle no."
+                        className="h-9 w-24 text-sm"
+                        maxLength={10}
+                      />
+                    </div>
+                  </div>
+                </div>
                 <div>
                   <label htmlFor="notes" className="block text-sm font-medium mb-1">Notes</label>
                   <Textarea 
@@ -464,6 +612,12 @@ export function ItemDetailModal({ isOpen, onClose, item, tableName, onUpdate }:
           <Button variant="destructive" onClick={handleDelete} className="gap-2"><Trash2 className="h-4 w-4" /> Delete</Button>
           <Button onClick={handleUpdate}>Update</Button>
         </div>
+        <PriceComparisonModal
+          isOpen={comparisonOpen}
+          onClose={() => setComparisonOpen(false)}
+          items={[{ id: item.id, Item: nameValue, Quantity: quantity }]}
+          title={`Prices for ${nameValue}`}
+        />
       </DialogContent>
     </Dialog>
   );
@@ -0,0 +1,125 @@
+import { useState, useEffect, useCallback } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Card } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { normalizePlural } from "@/lib/utils";
+import { STORES, formatPrice } from "@/services/priceComparison";
+
+interface ItemPurchase {
+  id: number;
+  quantity: number;
+  price_paid: number | null;
+  store: string | null;
+  purchased_at: string;
+  variant: string | null;
+}
+
+interface ItemPurchaseHistoryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  itemName: string;
+}
+
+export function ItemPurchaseHistoryModal({ isOpen, onClose, itemName }: ItemPurchaseHistoryModalProps) {
+  const [purchases, setPurchases] = useState<ItemPurchase[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+
+  const fetchPurchases = useCallback(async () => {
+    setLoading(true);
+    try {
+      // Rows brought over from the old history table were only lower-cased, not singularised
+      const names = Array.from(new Set([normalizePlural(itemName), itemName.toLowerCase().trim()]));
+      const { data, error } = await supabase
+        .from('purchase_events')
+        .select('id, quantity, price_paid, store, purchased_at, variant')
+        .in('normalized_name', names)
+        .order('purchased_at', { ascending: false });
+      if (error) throw error;
+      setPurchases(data || []);
+    } catch (error) {
+      toast({
+        title: "Error loading purchases",
+        description: `Failed to load purchases of ${itemName}`,
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [itemName, toast]);
+
+  useEffect(() => {
+    if (isOpen && itemName) {
+      fetchPurchases();
+    }
+  }, [isOpen, itemName, fetchPurchases]);
+
+  const totalQuantity = purchases.reduce((sum, p) => sum + p.quantity, 0);
+  const priced = purchases.filter(p => p.price_paid !== null);
+  const averagePrice = priced.length > 0
+    ? priced.reduce((sum, p) => sum + p.price_paid!, 0) / priced.length
+    : null;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="w-[95vw] max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{itemName}</DialogTitle>
+        </DialogHeader>
+        {loading ? (
+          <div className="py-6 text-center text-muted-foreground">Loading purchases...</div>
+        ) : purchases.length === 0 ? (
+          <div className="py-6 text-center text-muted-foreground">No purchases recorded for this item yet.</div>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-2">
+              <Card className="p-3 text-center">
+                <div className="text-xs text-muted-foreground">Times bought</div>
+                <div className="text-lg font-semibold">{purchases.length}</div>
+              </Card>
+              <Card className="p-3 text-center">
+                <div className="text-xs text-muted-foreground">Total qty</div>
+                <div className="text-lg font-semibold">{totalQuantity}</div>
+              </Card>
+              <Card className="p-3 text-center">
+                <div className="text-xs text-muted-foreground">Avg price</div>
+                <div className="text-lg font-semibold">{averagePrice !== null ? formatPrice(averagePrice) : '—'}</div>
+              </Card>
+            </div>
+
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-muted-foreground">
+                  <th className="py-2 pr-2 font-medium">Date</th>
+                  <th className="py-2 px-2 font-medium text-right">Qty</th>
+                  <th className="py-2 px-2 font-medium text-right">Price paid</th>
+                  <th className="py-2 pl-2 font-medium">Store</th>
+                </tr>
+              </thead>
+              <tbody>
+                {purchases.map(purchase => (
+                  <tr key={purchase.id} className="border-t">
+                    <td className="py-2 pr-2">
+                      <div>{new Date(purchase.purchased_at).toLocaleDateString()}</div>
+                      {purchase.variant && <div className="text-xs text-muted-foreground">{purchase.variant}</div>}
+                    </td>
+                    <td className="py-2 px-2 text-right">{purchase.quantity}</td>
+                    <td className="py-2 px-2 text-right">
+                      {purchase.price_paid !== null ? formatPrice(purchase.price_paid) : <span className="text-muted-foreground">—</span>}
+                    </td>
+                    <td className="py-2 pl-2">
+                      {purchase.store
+                        ? STORES.find(s => s.id === purchase.store)?.label ?? purchase.store
+                        : <span className="text-muted-foreground">—</span>}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
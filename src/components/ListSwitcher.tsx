@@ -0,0 +1,358 @@
+import { useState, useEffect, useCallback } from "react";
+import { MoreVertical, Plus, Edit3, Trash2, Users, KeyRound, LogOut } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { ShareListModal } from "./ShareListModal";
+
+export type ListRole = 'owner' | 'editor' | 'viewer';
+
+export interface GroceryListSummary {
+  id: number;
+  name: string;
+  order: number;
+  role: ListRole;
+}
+
+interface ListSwitcherProps {
+  activeListId: number | null;
+  onChange: (listId: number, role: ListRole) => void;
+}
+
+const ACTIVE_LIST_STORAGE_KEY = 'active-list-id';
+const DEFAULT_LIST_NAME = 'Grocery list';
+
+const DIALOG_COPY = {
+  create: { title: 'New List', placeholder: 'e.g. Costco run', action: 'Create' },
+  rename: { title: 'Rename List', placeholder: 'List name', action: 'Save' },
+  join: { title: 'Join a Shared List', placeholder: 'Enter join code', action: 'Join' },
+};
+
+export function ListSwitcher({ activeListId, onChange }: ListSwitcherProps) {
+  const [lists, setLists] = useState<GroceryListSummary[]>([]);
+  const [dialogMode, setDialogMode] = useState<'create' | 'rename' | 'join' | null>(null);
+  const [nameValue, setNameValue] = useState("");
+  const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
+  const [shareModalOpen, setShareModalOpen] = useState(false);
+  const { toast } = useToast();
+
+  const selectList = useCallback((list: GroceryListSummary) => {
+    localStorage.setItem(ACTIVE_LIST_STORAGE_KEY, list.id.toString());
+    onChange(list.id, list.role);
+  }, [onChange]);
+
+  const fetchLists = useCallback(async (preferredListId?: number) => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+      // Pick up any lists shared with this user's email since the last visit
+      await supabase.rpc('accept_list_invites');
+      const { data, error } = await supabase
+        .from('list_members')
+        .select('role, lists(id, name, order)')
+        .eq('user_id', user.id);
+      if (error) throw error;
+      let rows: GroceryListSummary[] = (data || [])
+        .filter(m => m.lists)
+        .map(m => ({ ...m.lists, role: m.role as ListRole }))
+        .sort((a, b) => a.order - b.order);
+      // First visit: every user gets a default list to start with
+      if (rows.length === 0) {
+        const { data: created, error: createError } = await supabase
+          .from('lists')
+          .insert({ name: DEFAULT_LIST_NAME, user_id: user.id, order: 1 })
+          .select('id, name, order')
+          .single();
+        if (createError) throw createError;
+        rows = created ? [{ ...created, role: 'owner' }] : [];
+      }
+      setLists(rows);
+      const savedListId = preferredListId ?? parseInt(localStorage.getItem(ACTIVE_LIST_STORAGE_KEY) || '');
+      const initial = rows.find(l => l.id === savedListId) ?? rows[0];
+      if (initial) selectList(initial);
+    } catch (error) {
+      toast({
+        title: "Error loading lists",
+        description: "Failed to load your lists from database",
+        variant: "destructive",
+      });
+    }
+  }, [selectList, toast]);
+
+  useEffect(() => {
+    fetchLists();
+  }, [fetchLists]);
+
+  const validateListName = (name: string, ignoreId?: number): string | null => {
+    if (!name) return "List name cannot be empty";
+    if (name.length > 50) return "List name cannot exceed 50 characters";
+    // Names only need to be unique among the lists this user owns
+    const duplicate = lists.some(l => l.role === 'owner' && l.id !== ignoreId && l.name.toLowerCase() === name.toLowerCase());
+    if (duplicate) return "A list with this name already exists";
+    return null;
+  };
+
+  const createList = async () => {
+    const trimmed = nameValue.trim();
+    const validationError = validateListName(trimmed);
+    if (validationError) {
+      toast({ title: "Invalid name", description: validationError, variant: "destructive" });
+      return;
+    }
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('User not authenticated');
+      const nextOrder = lists.reduce((max, l) => Math.max(max, l.order), 0) + 1;
+      const { data, error } = await supabase
+        .from('lists')
+        .insert({ name: trimmed, user_id: user.id, order: nextOrder })
+        .select('id, name, order')
+        .single();
+      if (error) throw error;
+      if (data) {
+        const created: GroceryListSummary = { ...data, role: 'owner' };
+        setLists(prev => [...prev, created]);
+        selectList(created);
+      }
+      setDialogMode(null);
+      toast({ title: "List created", description: `${trimmed} is ready to go.` });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to create list';
+      toast({ title: "Error", description: message, variant: "destructive" });
+    }
+  };
+
+  const renameList = async () => {
+    if (!activeListId) return;
+    const trimmed = nameValue.trim();
+    const validationError = validateListName(trimmed, activeListId);
+    if (validationError) {
+      toast({ title: "Invalid name", description: validationError, variant: "destructive" });
+      return;
+    }
+    try {
+      const { error } = await supabase
+        .from('lists')
+        .update({ name: trimmed })
+        .eq('id', activeListId);
+      if (error) throw error;
+      setLists(prev => prev.map(l => (l.id === activeListId ? { ...l, name: trimmed } : l)));
+      setDialogMode(null);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to rename list';
+      toast({ title: "Error", description: message, variant: "destructive" });
+    }
+  };
+
+  const joinList = async () => {
+    const code = nameValue.trim();
+    if (!code) return;
+    try {
+      const { data: joinedListId, error } = await supabase.rpc('join_list_by_code', { invite_code: code });
+      if (error) throw error;
+      setDialogMode(null);
+      await fetchLists(joinedListId);
+      toast({ title: "Joined list", description: "The shared list has been added to your lists." });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to join list';
+      toast({ title: "Couldn't join list", description: message, variant: "destructive" });
+    }
+  };
+
+  const leaveList = async () => {
+    const list = lists.find(l => l.id === activeListId);
+    if (!list) return;
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('User not authenticated');
+      const { error } = await supabase
+        .from('list_members')
+        .delete()
+        .eq('list_id', list.id)
+        .eq('user_id', user.id);
+      if (error) throw error;
+      const remaining = lists.filter(l => l.id !== list.id);
+      setLists(remaining);
+      if (remaining.length > 0) {
+        selectList(remaining[0]);
+      } else {
+        await fetchLists();
+      }
+      toast({ title: "Left list", description: `You no longer have access to ${list.name}.` });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to leave list';
+      toast({ title: "Error", description: message, variant: "destructive" });
+    }
+  };
+
+  const deleteList = async () => {
+    if (!activeListId) return;
+    if (ownedListCount <= 1) {
+      toast({ title: "Can't delete list", description: "You need at least one list of your own", variant: "destructive" });
+      setDeleteDialogOpen(false);
+      return;
+    }
+    const deleted = lists.find(l => l.id === activeListId);
+    try {
+      // Items in the list are removed by the ON DELETE CASCADE on list_id
+      const { error } = await supabase
+        .from('lists')
+        .delete()
+        .eq('id', activeListId);
+      if (error) throw error;
+      const remaining = lists.filter(l => l.id !== activeListId);
+      setLists(remaining);
+      selectList(remaining[0]);
+      setDeleteDialogOpen(false);
+      toast({ title: "List deleted", description: `${deleted?.name ?? 'List'} has been deleted.` });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to delete list';
+      toast({ title: "Error", description: message, variant: "destructive" });
+    }
+  };
+
+  const submitDialog = () => {
+    if (dialogMode === 'rename') renameList();
+    else if (dialogMode === 'join') joinList();
+    else createList();
+  };
+
+  const activeList = lists.find(l => l.id === activeListId);
+  const ownsActiveList = activeList?.role === 'owner';
+  const ownedListCount = lists.filter(l => l.role === 'owner').length;
+
+  return (
+    <div className="flex gap-2 items-center mb-4">
+      <Select
+        value={activeListId ? activeListId.toString() : undefined}
+        onValueChange={(value) => {
+          const list = lists.find(l => l.id === parseInt(value));
+          if (list) selectList(list);
+        }}
+      >
+        <SelectTrigger className="flex-1">
+          <SelectValue placeholder="Loading lists..." />
+        </SelectTrigger>
+        <SelectContent>
+          {lists.map(list => (
+            <SelectItem key={list.id} value={list.id.toString()}>
+              {list.name}
+              {list.role !== 'owner' && <span className="text-muted-foreground"> (shared)</span>}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button
+        variant="outline"
+        size="sm"
+        title="New list"
+        onClick={() => { setNameValue(""); setDialogMode('create'); }}
+      >
+        <Plus className="h-4 w-4" />
+      </Button>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" title="List options" disabled={!activeList}>
+            <MoreVertical className="h-4 w-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuItem onClick={() => setShareModalOpen(true)}>
+            <Users className="h-4 w-4 mr-2" /> {ownsActiveList ? 'Share list' : 'Members'}
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => { setNameValue(""); setDialogMode('join'); }}>
+            <KeyRound className="h-4 w-4 mr-2" /> Join with code
+          </DropdownMenuItem>
+          {ownsActiveList ? (
+            <>
+              <DropdownMenuItem onClick={() => { setNameValue(activeList?.name ?? ""); setDialogMode('rename'); }}>
+                <Edit3 className="h-4 w-4 mr-2" /> Rename list
+              </DropdownMenuItem>
+              <DropdownMenuItem
+                onClick={() => setDeleteDialogOpen(true)}
+                disabled={ownedListCount <= 1}
+                className="text-destructive"
+              >
+                <Trash2 className="h-4 w-4 mr-2" /> Delete list
+              </DropdownMenuItem>
+            </>
+          ) : (
+            <DropdownMenuItem onClick={leaveList} className="text-destructive">
+              <LogOut className="h-4 w-4 mr-2" /> Leave list
+            </DropdownMenuItem>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      {/* Create / Rename / Join Dialog */}
+      <Dialog open={dialogMode !== null} onOpenChange={(open) => { if (!open) setDialogMode(null); }}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>{DIALOG_COPY[dialogMode ?? 'create'].title}</DialogTitle>
+          </DialogHeader>
+          <Input
+            placeholder={DIALOG_COPY[dialogMode ?? 'create'].placeholder}
+            value={nameValue}
+            onChange={(e) => setNameValue(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                submitDialog();
+              }
+            }}
+            maxLength={50}
+            autoFocus
+          />
+          <DialogFooter className="flex gap-2">
+            <Button variant="outline" onClick={() => setDialogMode(null)}>Cancel</Button>
+            <Button onClick={submitDialog}>
+              {DIALOG_COPY[dialogMode ?? 'create'].action}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {activeList && (
+        <ShareListModal
+          isOpen={shareModalOpen}
+          onClose={() => setShareModalOpen(false)}
+          list={activeList}
+          onOwnershipTransferred={() => fetchLists(activeList.id)}
+        />
+      )}
+
+      {/* Delete List Confirmation Modal */}
+      <Dialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Delete List</DialogTitle>
+          </DialogHeader>
+          <div className="py-4">
+            <p className="text-sm text-muted-foreground">
+              Are you sure you want to delete "{activeList?.name}" and all of its items? This cannot be undone.
+            </p>
+          </div>
+          <DialogFooter className="flex gap-2">
+            <Button
+              variant="outline"
+              onClick={() => setDeleteDialogOpen(false)}
+              className="bg-green-50 text-green-700 border-green-300 hover:bg-green-100 hover:text-green-800 hover:border-green-400"
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={deleteList}
+              className="bg-red-600 hover:bg-red-700 text-white"
+            >
+              Yes, delete list
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
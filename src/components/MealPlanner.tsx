@@ -0,0 +1,258 @@
+import { useMemo, useState } from "react";
+import { format } from "date-fns";
+import { CalendarDays, ChevronLeft, ChevronRight, FileDown, ListPlus, Minus, Pencil, Plus, Trash2, UtensilsCrossed } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useRecipes } from "@/hooks/useRecipes";
+import { useMealPlan } from "@/hooks/useMealPlan";
+import { isoDate } from "@/services/catalogueWeeks";
+import { addOrIncreaseItem } from "@/services/listItems";
+import { buildPlannedItems, startOfWeek, weekDays, type Recipe } from "@/services/mealPlan";
+import { RecipeEditorDialog } from "./RecipeEditorDialog";
+import { RecipeImportDialog } from "./RecipeImportDialog";
+
+interface MealPlannerProps {
+  listId: number | null;
+  readOnly?: boolean;
+}
+
+export function MealPlanner({ listId, readOnly = false }: MealPlannerProps) {
+  const [weekStart, setWeekStart] = useState(() => startOfWeek(new Date()));
+  const [pickerOpen, setPickerOpen] = useState(false);
+  // undefined while the editor is closed, null for a new recipe
+  const [editing, setEditing] = useState<Recipe | null | undefined>(undefined);
+  const [importOpen, setImportOpen] = useState(false);
+  const [generating, setGenerating] = useState(false);
+  const { recipes, saveRecipe, deleteRecipe } = useRecipes();
+  const { entries, addEntry, updateServings, removeEntry, refresh: refreshPlan } = useMealPlan(weekStart);
+  const { toast } = useToast();
+
+  const days = useMemo(() => weekDays(weekStart), [weekStart]);
+  const recipesById = useMemo(() => new Map(recipes.map(recipe => [recipe.id, recipe])), [recipes]);
+
+  const shiftWeek = (weeks: number) => {
+    setWeekStart(prev => new Date(prev.getFullYear(), prev.getMonth(), prev.getDate() + weeks * 7));
+  };
+
+  const showError = (title: string, error: unknown) => {
+    const message = error instanceof Error ? error.message : "An unknown error occurred.";
+    toast({
+      title,
+      description: message,
+      variant: "destructive",
+    });
+  };
+
+  const planMeal = async (day: Date, recipeId: string) => {
+    const recipe = recipesById.get(Number(recipeId));
+    if (!recipe) return;
+    try {
+      await addEntry(isoDate(day), recipe.id, recipe.servings);
+    } catch (error) {
+      showError("Couldn't plan meal", error);
+    }
+  };
+
+  const changeServings = async (entryId: number, servings: number) => {
+    if (servings < 1) return;
+    try {
+      await updateServings(entryId, servings);
+    } catch (error) {
+      showError("Couldn't update servings", error);
+    }
+  };
+
+  const unplanMeal = async (entryId: number) => {
+    try {
+      await removeEntry(entryId);
+    } catch (error) {
+      showError("Couldn't remove meal", error);
+    }
+  };
+
+  const removeRecipe = async (recipe: Recipe) => {
+    if (!window.confirm(`Delete "${recipe.name}"? It will also be taken off your meal plan.`)) return;
+    try {
+      await deleteRecipe(recipe.id);
+      // Its planned meals are deleted with it
+      await refreshPlan();
+    } catch (error) {
+      showError("Couldn't delete recipe", error);
+    }
+  };
+
+  // Items go in one at a time so a repeated ingredient increases the line just added
+  const generateList = async () => {
+    if (!listId) return;
+    const planned = buildPlannedItems(entries, recipes);
+    if (planned.length === 0) {
+      toast({
+        title: "Nothing to add",
+        description: "Plan some meals with ingredients first.",
+      });
+      return;
+    }
+    setGenerating(true);
+    let added = 0;
+    let increased = 0;
+    try {
+      for (const item of planned) {
+        const result = await addOrIncreaseItem(listId, item.name, item.quantity, item.note, { recipeId: item.recipeId });
+        if (result?.kind === "created") added++;
+        if (result?.kind === "increased") increased++;
+      }
+      toast({
+        title: "List updated",
+        description: `${added} added, ${increased} increased from this week's meals.`,
+      });
+    } catch (error) {
+      showError("Couldn't generate list", error);
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card className="p-4 shadow-card">
+        <div className="flex items-center justify-between gap-2 mb-4">
+          <Button variant="ghost" size="sm" onClick={() => shiftWeek(-1)} title="Previous week">
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Popover open={pickerOpen} onOpenChange={setPickerOpen}>
+            <PopoverTrigger asChild>
+              <Button variant="outline" size="sm" className="gap-2">
+                <CalendarDays className="h-4 w-4" />
+                Week of {format(weekStart, "d MMM")}
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-auto p-0" align="center">
+              <Calendar
+                mode="single"
+                weekStartsOn={1}
+                selected={weekStart}
+                onSelect={(day) => {
+                  if (!day) return;
+                  setWeekStart(startOfWeek(day));
+                  setPickerOpen(false);
+                }}
+                initialFocus
+              />
+            </PopoverContent>
+          </Popover>
+          <Button variant="ghost" size="sm" onClick={() => shiftWeek(1)} title="Next week">
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+
+        <div className="divide-y">
+          {days.map(day => {
+            const dayEntries = entries.filter(entry => entry.planned_on === isoDate(day));
+            return (
+              <div key={isoDate(day)} className="py-2">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="text-sm font-medium w-24 shrink-0">{format(day, "EEE d MMM")}</div>
+                  <Select value="" onValueChange={(recipeId) => planMeal(day, recipeId)} disabled={recipes.length === 0}>
+                    <SelectTrigger className="h-8 w-40 text-xs">
+                      <SelectValue placeholder="Add meal" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {recipes.map(recipe => (
+                        <SelectItem key={recipe.id} value={String(recipe.id)}>{recipe.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {dayEntries.map(entry => (
+                  <div key={entry.id} className="flex items-center gap-2 mt-1 pl-2">
+                    <span className="flex-1 text-sm text-foreground truncate">
+                      {recipesById.get(entry.recipe_id)?.name ?? "Recipe"}
+                    </span>
+                    <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => changeServings(entry.id, entry.servings - 1)} title="Fewer servings">
+                      <Minus className="h-3 w-3" />
+                    </Button>
+                    <span className="text-xs text-muted-foreground w-16 text-center">serves {entry.servings}</span>
+                    <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => changeServings(entry.id, entry.servings + 1)} title="More servings">
+                      <Plus className="h-3 w-3" />
+                    </Button>
+                    <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => unplanMeal(entry.id)} title="Remove meal">
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            );
+          })}
+        </div>
+
+        <Button
+          className="w-full mt-4 gap-2"
+          onClick={generateList}
+          disabled={!listId || readOnly || generating || entries.length === 0}
+        >
+          <ListPlus className="h-4 w-4" />
+          {generating ? "Adding…" : "Generate list"}
+        </Button>
+      </Card>
+
+      <Card className="p-4 shadow-card">
+        <div className="flex items-center justify-between mb-2">
+          <h2 className="font-semibold text-foreground flex items-center gap-2">
+            <UtensilsCrossed className="h-4 w-4" />
+            Recipes
+          </h2>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" className="gap-1" onClick={() => setImportOpen(true)}>
+              <FileDown className="h-4 w-4" /> Import
+            </Button>
+            <Button variant="outline" size="sm" className="gap-1" onClick={() => setEditing(null)}>
+              <Plus className="h-4 w-4" /> New
+            </Button>
+          </div>
+        </div>
+        {recipes.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Add a recipe to start planning meals.</p>
+        ) : (
+          <div className="divide-y">
+            {recipes.map(recipe => (
+              <div key={recipe.id} className="flex items-center gap-2 py-2">
+                <div className="flex-1 min-w-0">
+                  <div className="text-sm font-medium truncate">{recipe.name}</div>
+                  <div className="text-xs text-muted-foreground">
+                    Serves {recipe.servings} · {recipe.recipe_ingredients.length} {recipe.recipe_ingredients.length === 1 ? "ingredient" : "ingredients"}
+                  </div>
+                </div>
+                <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => setEditing(recipe)} title="Edit recipe">
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => removeRecipe(recipe)} title="Delete recipe">
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </Card>
+
+      <RecipeEditorDialog
+        open={editing !== undefined}
+        recipe={editing ?? null}
+        onClose={() => setEditing(undefined)}
+        onSave={async (draft) => {
+          await saveRecipe(draft);
+        }}
+      />
+      <RecipeImportDialog
+        open={importOpen}
+        onClose={() => setImportOpen(false)}
+        onSave={async (draft) => {
+          await saveRecipe(draft);
+        }}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,26 @@
+import { WifiOff } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+
+interface OfflineNoticeProps {
+  title: string;
+  description: string;
+  onRetry?: () => void;
+}
+
+export function OfflineNotice({ title, description, onRetry }: OfflineNoticeProps) {
+  return (
+    <Card className="p-6 text-center shadow-card">
+      <div className="mx-auto mb-3 w-10 h-10 rounded-full bg-muted flex items-center justify-center">
+        <WifiOff className="h-5 w-5 text-muted-foreground" />
+      </div>
+      <div className="font-medium text-foreground">{title}</div>
+      <div className="text-sm text-muted-foreground mt-1">{description}</div>
+      {onRetry && (
+        <Button variant="outline" size="sm" onClick={onRetry} className="mt-4">
+          Try again
+        </Button>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,212 @@
+import { useMemo, useState } from "react";
+import { format } from "date-fns";
+import { AlertTriangle, CalendarClock, Minus, Plus, Refrigerator, Trash2 } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Calendar } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { useToast } from "@/hooks/use-toast";
+import { usePantry } from "@/hooks/usePantry";
+import { isoDate } from "@/services/catalogueWeeks";
+import { addOrIncreaseItem } from "@/services/listItems";
+import { daysUntilExpiry, expiryStatus, needsRestock, restockQuantity, sortPantry, type PantryItem } from "@/services/pantry";
+import { parseSmartSyntax, cn } from "@/lib/utils";
+
+interface PantryProps {
+  // Where restocked items go when the item wasn't bought from a list
+  listId: number | null;
+}
+
+function expiryLabel(item: PantryItem): string | null {
+  const days = daysUntilExpiry(item);
+  if (days === null) return null;
+  if (days < -1) return `Expired ${-days} days ago`;
+  if (days === -1) return "Expired yesterday";
+  if (days === 0) return "Use today";
+  if (days === 1) return "Use by tomorrow";
+  return `Use by ${format(new Date(`${item.expires_on}T00:00:00`), "EEE d MMM")}`;
+}
+
+export function Pantry({ listId }: PantryProps) {
+  const [newItem, setNewItem] = useState("");
+  const [thresholdValue, setThresholdValue] = useState("");
+  const { items, loading, addItem, updateItem, removeItem } = usePantry();
+  const { toast } = useToast();
+
+  const sorted = useMemo(() => sortPantry(items), [items]);
+  const useSoon = sorted.filter(item => expiryStatus(item) !== null);
+
+  const showError = (title: string, error: unknown) => {
+    const message = error instanceof Error ? error.message : "An unknown error occurred.";
+    toast({
+      title,
+      description: message,
+      variant: "destructive",
+    });
+  };
+
+  // Crossing below the threshold puts the item back on its list, unless it's already there
+  const restockIfLow = async (before: PantryItem, after: PantryItem) => {
+    if (needsRestock(before) || !needsRestock(after)) return;
+    const targetListId = after.list_id ?? listId;
+    if (!targetListId) return;
+    try {
+      const result = await addOrIncreaseItem(targetListId, after.item, restockQuantity(after), null, { onlyIfMissing: true });
+      if (result) {
+        toast({
+          title: "Running low",
+          description: `Added ${after.item} to your list.`,
+        });
+      }
+    } catch (error) {
+      showError("Couldn't add to list", error);
+    }
+  };
+
+  const changeItem = async (item: PantryItem, changes: Partial<Pick<PantryItem, "quantity" | "expires_on" | "restock_below">>) => {
+    try {
+      await updateItem(item.id, changes);
+      await restockIfLow(item, { ...item, ...changes });
+    } catch (error) {
+      showError("Couldn't update pantry", error);
+    }
+  };
+
+  const handleAdd = async () => {
+    if (!newItem.trim()) return;
+    const { itemName, quantity } = parseSmartSyntax(newItem);
+    try {
+      await addItem(itemName, quantity);
+      setNewItem("");
+    } catch (error) {
+      showError("Couldn't add to pantry", error);
+    }
+  };
+
+  const handleRemove = async (item: PantryItem) => {
+    try {
+      await removeItem(item.id);
+    } catch (error) {
+      showError("Couldn't remove item", error);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {useSoon.length > 0 && (
+        <Card className="p-4 border-amber-300 bg-amber-50 dark:bg-amber-950/30">
+          <div className="flex items-center gap-2 font-medium text-amber-900 dark:text-amber-200 mb-1">
+            <AlertTriangle className="h-4 w-4" />
+            Use soon
+          </div>
+          <ul className="text-sm text-amber-900 dark:text-amber-200 space-y-0.5">
+            {useSoon.map(item => (
+              <li key={item.id}>
+                {item.item} · {expiryLabel(item)}
+              </li>
+            ))}
+          </ul>
+        </Card>
+      )}
+
+      <Card className="p-4 shadow-card">
+        <form
+          className="flex gap-2 mb-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleAdd();
+          }}
+        >
+          <Input value={newItem} onChange={(e) => setNewItem(e.target.value)} placeholder="Add to pantry, e.g. Rice x2" />
+          <Button type="submit" disabled={!newItem.trim()}>
+            <Plus className="h-4 w-4" />
+          </Button>
+        </form>
+
+        {!loading && sorted.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            <Refrigerator className="h-8 w-8 mx-auto mb-2 opacity-50" />
+            <p className="text-sm">Things you buy show up here. Add anything you already have at home.</p>
+          </div>
+        ) : (
+          <div className="divide-y">
+            {sorted.map(item => {
+              const status = expiryStatus(item);
+              const label = expiryLabel(item);
+              return (
+                <div key={item.id} className={cn("flex items-center gap-2 py-2", item.quantity === 0 && "opacity-60")}>
+                  <div className="flex-1 min-w-0">
+                    <div className="text-sm font-medium truncate">{item.item}</div>
+                    <div className="text-xs text-muted-foreground flex flex-wrap gap-x-2">
+                      {item.quantity === 0 && <span>Out</span>}
+                      {label && item.quantity > 0 && (
+                        <span className={cn(status === "expired" && "text-destructive", status === "soon" && "text-amber-600")}>{label}</span>
+                      )}
+                      {item.restock_below !== null && <span>Restock below {item.restock_below}</span>}
+                    </div>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 w-8 p-0"
+                    onClick={() => changeItem(item, { quantity: item.quantity - 1 })}
+                    disabled={item.quantity === 0}
+                    title="Used one"
+                  >
+                    <Minus className="h-4 w-4" />
+                  </Button>
+                  <span className="w-6 text-center text-sm tabular-nums">{item.quantity}</span>
+                  <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => changeItem(item, { quantity: item.quantity + 1 })} title="Add one">
+                    <Plus className="h-4 w-4" />
+                  </Button>
+                  <Popover onOpenChange={(open) => open && setThresholdValue(item.restock_below ? String(item.restock_below) : "")}>
+                    <PopoverTrigger asChild>
+                      <Button variant="ghost" size="sm" className="h-8 w-8 p-0" title="Expiry and restocking">
+                        <CalendarClock className="h-4 w-4" />
+                      </Button>
+                    </PopoverTrigger>
+                    <PopoverContent align="end" className="w-auto p-0">
+                      <Calendar
+                        mode="single"
+                        weekStartsOn={1}
+                        selected={item.expires_on ? new Date(`${item.expires_on}T00:00:00`) : undefined}
+                        onSelect={(day) => changeItem(item, { expires_on: day ? isoDate(day) : null })}
+                      />
+                      <div className="border-t p-3 space-y-2">
+                        <label htmlFor={`restock-${item.id}`} className="block text-sm font-medium">Add to list when below</label>
+                        <div className="flex gap-2">
+                          <Input
+                            id={`restock-${item.id}`}
+                            type="number"
+                            min={1}
+                            value={thresholdValue}
+                            onChange={(e) => setThresholdValue(e.target.value)}
+                            placeholder="Never"
+                            className="w-24"
+                          />
+                          <Button
+                            size="sm"
+                            onClick={() => {
+                              const threshold = parseInt(thresholdValue, 10);
+                              changeItem(item, { restock_below: threshold > 0 ? threshold : null });
+                            }}
+                          >
+                            Save
+                          </Button>
+                        </div>
+                      </div>
+                    </PopoverContent>
+                  </Popover>
+                  <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => handleRemove(item)} title="Remove from pantry">
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+}
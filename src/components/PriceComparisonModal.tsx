@@ -0,0 +1,147 @@
+import { useState, useEffect, useMemo, useCallback } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Card } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { STORES, compareBasket, formatPrice, type StorePrice } from "@/services/priceComparison";
+import { cn } from "@/lib/utils";
+
+interface PriceComparisonModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  items: { id: number; Item: string; Quantity?: number }[];
+  title?: string;
+}
+
+export function PriceComparisonModal({ isOpen, onClose, items, title = "Compare Prices" }: PriceComparisonModalProps) {
+  const [prices, setPrices] = useState<StorePrice[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+
+  const fetchPrices = useCallback(async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('store_prices')
+        .select('id, store, product_name, price, unit_price, unit, captured_at, link')
+        .order('captured_at', { ascending: false });
+      if (error) throw error;
+      setPrices(data || []);
+    } catch (error) {
+      toast({
+        title: "Error loading prices",
+        description: "Failed to load store prices from database",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    if (isOpen) {
+      fetchPrices();
+    }
+  }, [isOpen, fetchPrices]);
+
+  const comparison = useMemo(() => compareBasket(items, prices), [items, prices]);
+  const isSingleItem = items.length === 1;
+  const latestCapture = prices[0]?.captured_at;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="w-[95vw] max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+        </DialogHeader>
+        {loading ? (
+          <div className="py-6 text-center text-muted-foreground">Loading prices...</div>
+        ) : items.length === 0 ? (
+          <div className="py-6 text-center text-muted-foreground">Add items to your list to compare prices.</div>
+        ) : (
+          <div className="space-y-4">
+            {/* Basket totals per store */}
+            {!isSingleItem && (
+              <div className="grid grid-cols-3 gap-2">
+                {STORES.map(store => {
+                  const total = comparison.totals[store.id];
+                  const isCheapest = comparison.cheapestStore === store.id;
+                  return (
+                    <Card
+                      key={store.id}
+                      className={cn("p-3 text-center", isCheapest && "border-green-500 bg-green-50")}
+                    >
+                      <div className="text-xs text-muted-foreground">{store.label}</div>
+                      <div className="text-lg font-semibold">{formatPrice(total.total)}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {total.missing > 0 ? `${total.missing} not found` : 'All items'}
+                      </div>
+                      {isCheapest && <div className="text-xs font-medium text-green-700 mt-1">Cheapest</div>}
+                    </Card>
+                  );
+                })}
+              </div>
+            )}
+
+            {/* Per-item prices */}
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-muted-foreground">
+                    <th className="py-2 pr-2 font-medium">Item</th>
+                    {STORES.map(store => (
+                      <th key={store.id} className="py-2 px-2 font-medium text-right">{store.label}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {comparison.items.map((row, index) => (
+                    <tr key={items[index].id} className="border-t">
+                      <td className="py-2 pr-2">
+                        <div className="font-medium">{row.itemName}</div>
+                        {row.quantity > 1 && <div className="text-xs text-muted-foreground">x{row.quantity}</div>}
+                      </td>
+                      {STORES.map(store => {
+                        const match = row.matches[store.id];
+                        return (
+                          <td
+                            key={store.id}
+                            className={cn(
+                              "py-2 px-2 text-right align-top",
+                              row.cheapestStore === store.id && "text-green-700 font-semibold"
+                            )}
+                          >
+                            {match ? (
+                              <>
+                                <div>{formatPrice(match.price * row.quantity)}</div>
+                                <div className="text-xs text-muted-foreground font-normal truncate max-w-[8rem] ml-auto" title={match.product_name}>
+                                  {match.product_name}
+                                </div>
+                                {match.unit_price !== null && match.unit && (
+                                  <div className="text-xs text-muted-foreground font-normal">
+                                    {formatPrice(match.unit_price)}/{match.unit}
+                                  </div>
+                                )}
+                              </>
+                            ) : (
+                              <span className="text-muted-foreground">—</span>
+                            )}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            {latestCapture && (
+              <p className="text-xs text-muted-foreground">
+                Shelf prices captured {new Date(latestCapture).toLocaleDateString()}. Specials may differ in store.
+              </p>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
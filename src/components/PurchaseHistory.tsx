@@ -1,10 +1,16 @@
-import { useState, useEffect } from "react";
-import { Calendar, Package, Undo2, ChevronDown, ChevronRight, Trash2, Plus } from "lucide-react";
+import { useState, useEffect, useCallback } from "react";
+import { Calendar, Package, Undo2, ChevronDown, ChevronRight, Trash2, Plus, Bell, BellRing } from "lucide-react";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
 import { ToastAction } from "@/components/ui/toast";
 import { supabase } from "@/integrations/supabase/client";
+import { useOnlineStatus } from "@/hooks/useOnlineStatus";
+import { isNetworkError } from "@/services/syncQueue";
+import { OfflineNotice } from "./OfflineNotice";
+import { useTrackedItems } from "@/hooks/useTrackedItems";
+import { ItemPurchaseHistoryModal } from "./ItemPurchaseHistoryModal";
+import { STORES, formatPrice } from "@/services/priceComparison";
 
 interface PurchaseItem {
   id: number;
@@ -13,8 +19,36 @@ interface PurchaseItem {
   last_bought: string;
   created_at: string;
   img?: string;
+  price_paid: number | null;
+  store: string | null;
+  list_id: number | null;
+  normalized_name: string;
+  trip_id: string;
+  sequence: number;
+  variant: string | null;
+  category: string | null;
 }
 
+type PurchaseEventRow = Omit<PurchaseItem, 'Item' | 'Quantity' | 'last_bought' | 'img'> & {
+  item: string;
+  quantity: number;
+  purchased_at: string;
+  img: string | null;
+};
+
+const EVENT_COLUMNS = 'id, item, quantity, price_paid, store, list_id, normalized_name, trip_id, sequence, purchased_at, created_at, img, variant, category';
+
+// Each row is one purchase event; the rest of this component still speaks the old history shape
+const toPurchaseItem = (event: PurchaseEventRow): PurchaseItem => ({
+  ...event,
+  Item: event.item,
+  Quantity: event.quantity,
+  last_bought: event.purchased_at,
+  img: event.img ?? undefined,
+});
+
+const storeLabel = (store: string) => STORES.find(s => s.id === store)?.label ?? store;
+
 interface GroupedDate {
   date: string;
   items: PurchaseItem[];
@@ -36,19 +70,23 @@ interface AddedToGroceryItem {
   originalQuantity?: number;
 }
 
-export function PurchaseHistory() {
+interface PurchaseHistoryProps {
+  listId: number | null;
+}
+
+export function PurchaseHistory({ listId }: PurchaseHistoryProps) {
   const [todayGroup, setTodayGroup] = useState<GroupedDate | null>(null);
   const [olderDates, setOlderDates] = useState<GroupedDate[]>([]);
   const [loading, setLoading] = useState(true);
   const [recentlyDeleted, setRecentlyDeleted] = useState<DeletedItem | null>(null);
   const [recentlyAddedToGrocery, setRecentlyAddedToGrocery] = useState<AddedToGroceryItem | null>(null);
+  const [unavailableOffline, setUnavailableOffline] = useState(false);
+  const [historyItemName, setHistoryItemName] = useState<string | null>(null);
+  const isOnline = useOnlineStatus();
+  const { isTracked, toggleTracked } = useTrackedItems();
   const { toast } = useToast();
 
-  useEffect(() => {
-    fetchPurchaseHistory();
-  }, []);
-
-  const fetchPurchaseHistory = async () => {
+  const fetchPurchaseHistory = useCallback(async () => {
     try {
       const today = new Date();
       const todayStart = new Date(today.getFullYear(), today.getMonth(), today.getDate());
@@ -56,10 +94,10 @@ export function PurchaseHistory() {
 
       // Get today's items
       const { data: todayData, error: todayError } = await supabase
-        .from('Purchase history')
-        .select('*')
-        .gte('last_bought', todayStartISO)
-        .order('last_bought', { ascending: false });
+        .from('purchase_events')
+        .select(EVENT_COLUMNS)
+        .gte('purchased_at', todayStartISO)
+        .order('purchased_at', { ascending: false });
 
       if (todayError) throw todayError;
 
@@ -67,7 +105,7 @@ export function PurchaseHistory() {
       if (todayData && todayData.length > 0) {
         setTodayGroup({
           date: "Today",
-          items: todayData,
+          items: todayData.map(toPurchaseItem),
           expanded: true,
           loaded: true,
           count: todayData.length
@@ -78,17 +116,17 @@ export function PurchaseHistory() {
 
       // Get older dates (just unique dates, not the items yet)
       const { data: olderData, error: olderError } = await supabase
-        .from('Purchase history')
-        .select('last_bought')
-        .lt('last_bought', todayStartISO)
-        .order('last_bought', { ascending: false });
+        .from('purchase_events')
+        .select('purchased_at')
+        .lt('purchased_at', todayStartISO)
+        .order('purchased_at', { ascending: false });
 
       if (olderError) throw olderError;
 
       // Group by date (ignore time)
       const dateGroups = new Map<string, number>();
       olderData?.forEach(item => {
-        const date = new Date(item.last_bought).toDateString();
+        const date = new Date(item.purchased_at).toDateString();
         dateGroups.set(date, (dateGroups.get(date) || 0) + 1);
       });
 
@@ -101,7 +139,12 @@ export function PurchaseHistory() {
       }));
 
       setOlderDates(groupedDates);
+      setUnavailableOffline(false);
     } catch (error) {
+      if (isNetworkError(error)) {
+        setUnavailableOffline(true);
+        return;
+      }
       toast({
         title: "Error loading purchase history",
         description: "Failed to load purchase history from database",
@@ -110,7 +153,16 @@ export function PurchaseHistory() {
     } finally {
       setLoading(false);
     }
-  };
+  }, [toast]);
+
+  useEffect(() => {
+    fetchPurchaseHistory();
+  }, [fetchPurchaseHistory]);
+
+  // Load automatically once the connection comes back
+  useEffect(() => {
+    if (isOnline && unavailableOffline) fetchPurchaseHistory();
+  }, [isOnline, unavailableOffline, fetchPurchaseHistory]);
 
   const expandDate = async (dateString: string) => {
     // Handle Today group toggle
@@ -130,17 +182,17 @@ export function PurchaseHistory() {
         const endOfDay = new Date(targetDate.getFullYear(), targetDate.getMonth(), targetDate.getDate() + 1);
 
         const { data, error } = await supabase
-          .from('Purchase history')
-          .select('*')
-          .gte('last_bought', startOfDay.toISOString())
-          .lt('last_bought', endOfDay.toISOString())
-          .order('last_bought', { ascending: false });
+          .from('purchase_events')
+          .select(EVENT_COLUMNS)
+          .gte('purchased_at', startOfDay.toISOString())
+          .lt('purchased_at', endOfDay.toISOString())
+          .order('purchased_at', { ascending: false });
 
         if (error) throw error;
 
         setOlderDates(prev => prev.map(d => 
           d.date === dateString 
-            ? { ...d, items: data || [], expanded: !d.expanded, loaded: true }
+            ? { ...d, items: (data || []).map(toPurchaseItem), expanded: !d.expanded, loaded: true }
             : d
         ));
       } catch (error) {
@@ -166,7 +218,7 @@ export function PurchaseHistory() {
       if (!user.data.user) return;
 
       const { error: deleteError } = await supabase
-        .from('Purchase history')
+        .from('purchase_events')
         .delete()
         .eq('id', item.id);
 
@@ -211,6 +263,24 @@ export function PurchaseHistory() {
     }
   };
 
+  const toggleTrackItem = async (item: PurchaseItem) => {
+    try {
+      const nowTracked = await toggleTracked(item.Item, 'Purchase history', item.category);
+      toast({
+        title: nowTracked ? "Tracking specials" : "Stopped tracking",
+        description: nowTracked
+          ? `You'll be notified when ${item.Item} is on special`
+          : `${item.Item} removed from your watchlist`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to update your watchlist",
+        variant: "destructive",
+      });
+    }
+  };
+
   const addToGroceryList = async (item: PurchaseItem) => {
     try {
       const user = await supabase.auth.getUser();
@@ -223,7 +293,7 @@ export function PurchaseHistory() {
       const { data: allItems, error: fetchError } = await supabase
         .from('Grocery list')
         .select('*')
-        .eq('user_id', user.data.user.id);
+        .eq('list_id', listId);
 
       if (fetchError) throw fetchError;
 
@@ -252,11 +322,11 @@ export function PurchaseHistory() {
         if (updateError) throw updateError;
       } else {
         // Add new item to grocery list
-        // Get the highest order value to place new item at the end (user-specific)
+        // Get the highest order value to place new item at the end of the list
         const { data: maxOrderData, error: maxOrderError } = await supabase
           .from('Grocery list')
           .select('order')
-          .eq('user_id', user.data.user.id)
+          .eq('list_id', listId)
           .order('order', { ascending: false })
           .limit(1)
           .single();
@@ -274,7 +344,10 @@ export function PurchaseHistory() {
               Item: item.Item,
               Quantity: item.Quantity,
               user_id: user.data.user.id,
+              list_id: listId,
               img: item.img,
+              variant: item.variant,
+              category: item.category,
               order: newOrder
             }
           ])
@@ -327,16 +400,25 @@ export function PurchaseHistory() {
       // Helper function for case-insensitive comparison
       const normalizeItemName = (name: string) => name.toLowerCase().trim();
 
-      // Re-add the item to purchase history
+      // Re-record the purchase exactly as it was, including its place in the trip
+      const original = itemToUndo.originalItem;
       const { error: insertError } = await supabase
-        .from('Purchase history')
+        .from('purchase_events')
         .insert([
           {
-            Item: itemToUndo.originalItem.Item,
-            Quantity: itemToUndo.originalItem.Quantity,
             user_id: user.data.user.id,
-            last_bought: itemToUndo.originalItem.last_bought,
-            img: itemToUndo.originalItem.img
+            list_id: original.list_id,
+            item: original.Item,
+            normalized_name: original.normalized_name,
+            quantity: original.Quantity,
+            price_paid: original.price_paid,
+            store: original.store,
+            trip_id: original.trip_id,
+            sequence: original.sequence,
+            purchased_at: original.last_bought,
+            img: original.img,
+            variant: original.variant,
+            category: original.category
           }
         ]);
 
@@ -374,7 +456,7 @@ export function PurchaseHistory() {
       const { data: allItems, error: fetchError } = await supabase
         .from('Grocery list')
         .select('*')
-        .eq('user_id', user.data.user.id);
+        .eq('list_id', listId);
 
       if (fetchError) throw fetchError;
 
@@ -441,6 +523,18 @@ export function PurchaseHistory() {
     );
   }
 
+  if (unavailableOffline) {
+    return (
+      <div className="space-y-4">
+        <OfflineNotice
+          title="You're offline"
+          description="Purchase history will load when you're back online. Items you tick off are still saved and will sync."
+          onRetry={isOnline ? fetchPurchaseHistory : undefined}
+        />
+      </div>
+    );
+  }
+
   return (
     <div className="space-y-4">
       {/* Today's group */}
@@ -498,11 +592,19 @@ export function PurchaseHistory() {
                         </div>
                       )}
                       <div className="flex-1 min-w-0">
-                        <div className="font-medium text-sm text-foreground break-words">
+                        <button
+                          type="button"
+                          onClick={() => setHistoryItemName(item.Item)}
+                          className="font-medium text-sm text-foreground break-words text-left hover:underline"
+                          title="See every purchase of this item"
+                        >
                           {item.Item}
-                        </div>
+                        </button>
                         <div className="text-xs text-muted-foreground">
+                          {item.variant && `${item.variant} · `}
                           Qty: {item.Quantity}
+                          {item.price_paid !== null && ` · ${formatPrice(item.price_paid)}`}
+                          {item.store && ` · ${storeLabel(item.store)}`}
                         </div>
                       </div>
                     </div>
@@ -513,6 +615,15 @@ export function PurchaseHistory() {
                         </div>
                       </div>
                       <div className="flex items-center gap-1">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => toggleTrackItem(item)}
+                          className={isTracked(item.Item) ? "text-amber-500 hover:text-amber-600" : "text-gray-400 hover:text-gray-600 transition-colors"}
+                          title={isTracked(item.Item) ? "Stop tracking specials" : "Track specials for this item"}
+                        >
+                          {isTracked(item.Item) ? <BellRing className="h-4 w-4" /> : <Bell className="h-4 w-4" />}
+                        </Button>
                         <Button
                           variant="ghost"
                           size="sm"
@@ -596,11 +707,19 @@ export function PurchaseHistory() {
                         </div>
                       )}
                       <div className="flex-1 min-w-0">
-                        <div className="font-medium text-sm text-foreground break-words">
+                        <button
+                          type="button"
+                          onClick={() => setHistoryItemName(item.Item)}
+                          className="font-medium text-sm text-foreground break-words text-left hover:underline"
+                          title="See every purchase of this item"
+                        >
                           {item.Item}
-                        </div>
+                        </button>
                         <div className="text-xs text-muted-foreground">
+                          {item.variant && `${item.variant} · `}
                           Qty: {item.Quantity}
+                          {item.price_paid !== null && ` · ${formatPrice(item.price_paid)}`}
+                          {item.store && ` · ${storeLabel(item.store)}`}
                         </div>
                       </div>
                     </div>
@@ -611,6 +730,15 @@ export function PurchaseHistory() {
                         </div>
                       </div>
                       <div className="flex items-center gap-1">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => toggleTrackItem(item)}
+                          className={isTracked(item.Item) ? "text-amber-500 hover:text-amber-600" : "text-gray-400 hover:text-gray-600 transition-colors"}
+                          title={isTracked(item.Item) ? "Stop tracking specials" : "Track specials for this item"}
+                        >
+                          {isTracked(item.Item) ? <BellRing className="h-4 w-4" /> : <Bell className="h-4 w-4" />}
+                        </Button>
                         <Button
                           variant="ghost"
                           size="sm"
@@ -648,6 +776,12 @@ export function PurchaseHistory() {
         </Card>
       )}
 
+      <ItemPurchaseHistoryModal
+        isOpen={historyItemName !== null}
+        onClose={() => setHistoryItemName(null)}
+        itemName={historyItemName ?? ''}
+      />
+
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,143 @@
+import { useEffect, useState } from "react";
+import { Plus, Trash2 } from "lucide-react";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import type { RecipeDraft } from "@/hooks/useRecipes";
+import type { Recipe, RecipeIngredient } from "@/services/mealPlan";
+
+interface RecipeEditorDialogProps {
+  open: boolean;
+  // null creates a new recipe
+  recipe: Recipe | null;
+  onClose: () => void;
+  onSave: (draft: RecipeDraft) => Promise<void>;
+}
+
+const emptyIngredient = (): RecipeIngredient => ({ name: "", quantity: null, unit: null, notes: null });
+
+export function RecipeEditorDialog({ open, recipe, onClose, onSave }: RecipeEditorDialogProps) {
+  const [name, setName] = useState("");
+  const [servings, setServings] = useState(4);
+  const [notes, setNotes] = useState("");
+  const [ingredients, setIngredients] = useState<RecipeIngredient[]>([emptyIngredient()]);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!open) return;
+    setName(recipe?.name ?? "");
+    setServings(recipe?.servings ?? 4);
+    setNotes(recipe?.notes ?? "");
+    setIngredients(recipe && recipe.recipe_ingredients.length > 0 ? recipe.recipe_ingredients : [emptyIngredient()]);
+  }, [open, recipe]);
+
+  const updateIngredient = (index: number, changes: Partial<RecipeIngredient>) => {
+    setIngredients(prev => prev.map((ingredient, i) => (i === index ? { ...ingredient, ...changes } : ingredient)));
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await onSave({ id: recipe?.id, name, servings, notes: notes.trim() || null, ingredients });
+      onClose();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "An unknown error occurred.";
+      toast({
+        title: "Couldn't save recipe",
+        description: message,
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{recipe ? "Edit recipe" : "New recipe"}</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="flex gap-2">
+            <div className="flex-1">
+              <label htmlFor="recipe-name" className="block text-sm font-medium mb-1">Name</label>
+              <Input id="recipe-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g. Spaghetti bolognese" />
+            </div>
+            <div className="w-24">
+              <label htmlFor="recipe-servings" className="block text-sm font-medium mb-1">Serves</label>
+              <Input
+                id="recipe-servings"
+                type="number"
+                min={1}
+                value={servings}
+                onChange={(e) => setServings(Math.max(1, parseInt(e.target.value, 10) || 1))}
+              />
+            </div>
+          </div>
+
+          <div>
+            <div className="block text-sm font-medium mb-1">Ingredients</div>
+            <div className="space-y-2">
+              {ingredients.map((ingredient, index) => (
+                <div key={index} className="flex gap-2">
+                  <Input
+                    aria-label="Quantity"
+                    type="number"
+                    step="any"
+                    min={0}
+                    placeholder="Qty"
+                    className="w-20"
+                    value={ingredient.quantity ?? ""}
+                    onChange={(e) => {
+                      const quantity = parseFloat(e.target.value);
+                      updateIngredient(index, { quantity: Number.isNaN(quantity) ? null : quantity });
+                    }}
+                  />
+                  <Input
+                    aria-label="Unit"
+                    placeholder="Unit"
+                    className="w-20"
+                    value={ingredient.unit ?? ""}
+                    onChange={(e) => updateIngredient(index, { unit: e.target.value || null })}
+                  />
+                  <Input
+                    aria-label="Ingredient"
+                    placeholder="Ingredient"
+                    className="flex-1"
+                    value={ingredient.name}
+                    onChange={(e) => updateIngredient(index, { name: e.target.value })}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-10 w-10 p-0"
+                    onClick={() => setIngredients(prev => prev.filter((_, i) => i !== index))}
+                    title="Remove ingredient"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+            <Button variant="outline" size="sm" className="mt-2 gap-1" onClick={() => setIngredients(prev => [...prev, emptyIngredient()])}>
+              <Plus className="h-4 w-4" /> Add ingredient
+            </Button>
+          </div>
+
+          <div>
+            <label htmlFor="recipe-notes" className="block text-sm font-medium mb-1">Notes</label>
+            <Textarea id="recipe-notes" value={notes} onChange={(e) => setNotes(e.target.value)} rows={3} />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button onClick={handleSave} disabled={saving || !name.trim()}>Save</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,208 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import type { RecipeDraft } from "@/hooks/useRecipes";
+import type { ImportedRecipe } from "@/services/recipeImport";
+import type { ParsedIngredient } from "@/services/ingredients";
+
+interface RecipeImportDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onSave: (draft: RecipeDraft) => Promise<void>;
+}
+
+type ReviewLine = ParsedIngredient & { include: boolean };
+
+// Paste an ingredient list or upload a saved recipe page, check what was read, then save it as a recipe
+export function RecipeImportDialog({ open, onClose, onSave }: RecipeImportDialogProps) {
+  const [mode, setMode] = useState<"paste" | "upload">("paste");
+  const [text, setText] = useState("");
+  const [file, setFile] = useState<File | null>(null);
+  const [reading, setReading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [name, setName] = useState("");
+  const [servings, setServings] = useState(4);
+  const [lines, setLines] = useState<ReviewLine[] | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!open) return;
+    setText("");
+    setFile(null);
+    setLines(null);
+  }, [open]);
+
+  const readRecipe = async () => {
+    setReading(true);
+    try {
+      const content = mode === "upload" ? await file?.text() : text;
+      if (!content?.trim()) throw new Error(mode === "upload" ? "Choose a saved recipe page" : "Paste some ingredients");
+      const base = import.meta.env.VITE_API_BASE_URL || "";
+      const res = await fetch(`${base}/api/recipe-import`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ content, filename: mode === "upload" ? file?.name : undefined }),
+      });
+      if (!res.ok) throw new Error(await res.text());
+      const recipe: ImportedRecipe = await res.json();
+      setName(recipe.name);
+      setServings(recipe.servings ?? 4);
+      setLines(recipe.ingredients.map(ingredient => ({ ...ingredient, include: true })));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "An unknown error occurred.";
+      toast({
+        title: "Couldn't read recipe",
+        description: message,
+        variant: "destructive",
+      });
+    } finally {
+      setReading(false);
+    }
+  };
+
+  const updateLine = (index: number, changes: Partial<ReviewLine>) => {
+    setLines(prev => prev && prev.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+  };
+
+  const handleSave = async () => {
+    if (!lines) return;
+    setSaving(true);
+    try {
+      await onSave({
+        name,
+        servings,
+        notes: null,
+        ingredients: lines.filter(line => line.include).map(({ include: _include, ...ingredient }) => ingredient),
+      });
+      onClose();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "An unknown error occurred.";
+      toast({
+        title: "Couldn't save recipe",
+        description: message,
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{lines ? "Check the recipe" : "Import a recipe"}</DialogTitle>
+          <DialogDescription>
+            {lines
+              ? "Untick anything you don't want and fix what was misread."
+              : "Paste an ingredient list, or upload a recipe page saved from your browser."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {!lines ? (
+          <Tabs value={mode} onValueChange={(value) => setMode(value as "paste" | "upload")}>
+            <TabsList className="grid w-full grid-cols-2">
+              <TabsTrigger value="paste">Paste text</TabsTrigger>
+              <TabsTrigger value="upload">Upload page</TabsTrigger>
+            </TabsList>
+            <TabsContent value="paste">
+              <Textarea
+                aria-label="Recipe text"
+                rows={10}
+                value={text}
+                onChange={(e) => setText(e.target.value)}
+                placeholder={"Pancakes\n\nServes 4\n1 1/2 cups flour\n2 eggs\n300 ml milk"}
+              />
+            </TabsContent>
+            <TabsContent value="upload">
+              <Input type="file" accept=".html,.htm,text/html" onChange={(e) => setFile(e.target.files?.[0] ?? null)} />
+            </TabsContent>
+          </Tabs>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex gap-2">
+              <div className="flex-1">
+                <label htmlFor="import-name" className="block text-sm font-medium mb-1">Name</label>
+                <Input id="import-name" value={name} onChange={(e) => setName(e.target.value)} />
+              </div>
+              <div className="w-24">
+                <label htmlFor="import-servings" className="block text-sm font-medium mb-1">Serves</label>
+                <Input
+                  id="import-servings"
+                  type="number"
+                  min={1}
+                  value={servings}
+                  onChange={(e) => setServings(Math.max(1, parseInt(e.target.value, 10) || 1))}
+                />
+              </div>
+            </div>
+            {lines.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No ingredients were found.</p>
+            ) : (
+              <div className="space-y-2">
+                {lines.map((line, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <Checkbox
+                      aria-label={`Include ${line.name}`}
+                      checked={line.include}
+                      onCheckedChange={(checked) => updateLine(index, { include: checked === true })}
+                    />
+                    <Input
+                      aria-label="Quantity"
+                      type="number"
+                      step="any"
+                      min={0}
+                      className="w-20"
+                      value={line.quantity ?? ""}
+                      onChange={(e) => {
+                        const quantity = parseFloat(e.target.value);
+                        updateLine(index, { quantity: Number.isNaN(quantity) ? null : quantity });
+                      }}
+                    />
+                    <Input
+                      aria-label="Unit"
+                      className="w-16"
+                      value={line.unit ?? ""}
+                      onChange={(e) => updateLine(index, { unit: e.target.value || null })}
+                    />
+                    <div className="flex-1 min-w-0">
+                      <Input
+                        aria-label="Ingredient"
+                        value={line.name}
+                        onChange={(e) => updateLine(index, { name: e.target.value })}
+                      />
+                      {line.notes && <div className="text-xs text-muted-foreground mt-0.5 truncate">{line.notes}</div>}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {lines ? (
+            <>
+              <Button variant="outline" onClick={() => setLines(null)}>Back</Button>
+              <Button onClick={handleSave} disabled={saving || !name.trim() || !lines.some(line => line.include)}>
+                Save recipe
+              </Button>
+            </>
+          ) : (
+            <>
+              <Button variant="outline" onClick={onClose}>Cancel</Button>
+              <Button onClick={readRecipe} disabled={reading || (mode === "paste" ? !text.trim() : !file)}>
+                {reading ? "Reading…" : "Read recipe"}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,65 @@
+import { Plus, Clock, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { SNOOZE_DAYS, type ReplenishmentSuggestion } from "@/services/replenishment";
+
+interface ReplenishmentStripProps {
+  suggestions: ReplenishmentSuggestion[];
+  onAdd: (suggestion: ReplenishmentSuggestion) => void;
+  onSnooze: (suggestion: ReplenishmentSuggestion) => void;
+  onDismiss: (suggestion: ReplenishmentSuggestion) => void;
+}
+
+const describeInterval = (days: number) => {
+  const rounded = Math.round(days);
+  if (rounded === 1) return 'every day';
+  if (rounded % 7 === 0) return rounded === 7 ? 'every week' : `every ${rounded / 7} weeks`;
+  return `every ~${rounded} days`;
+};
+
+export function ReplenishmentStrip({ suggestions, onAdd, onSnooze, onDismiss }: ReplenishmentStripProps) {
+  if (suggestions.length === 0) return null;
+
+  return (
+    <div className="px-4 space-y-2">
+      <div className="text-xs font-semibold text-muted-foreground">Probably running low</div>
+      <div className="flex gap-2 overflow-x-auto pb-1">
+        {suggestions.map(suggestion => (
+          <div
+            key={suggestion.key}
+            className="flex items-center gap-1 rounded-full border bg-green-50 border-green-200 pl-3 pr-1 py-1 flex-shrink-0"
+          >
+            <button
+              type="button"
+              onClick={() => onAdd(suggestion)}
+              className="flex items-center gap-1 text-sm text-green-800"
+              title={`Add ${suggestion.quantity} × ${suggestion.name}`}
+            >
+              <Plus className="h-3 w-3" />
+              <span className="font-medium">{suggestion.name}</span>
+              {suggestion.quantity > 1 && <span className="text-xs">x{suggestion.quantity}</span>}
+            </button>
+            <span className="text-[10px] text-green-700/70 ml-1">{describeInterval(suggestion.intervalDays)}</span>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onSnooze(suggestion)}
+              className="h-6 w-6 p-0 text-green-700/70 hover:text-green-800"
+              title={`Remind me in ${SNOOZE_DAYS} days`}
+            >
+              <Clock className="h-3 w-3" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onDismiss(suggestion)}
+              className="h-6 w-6 p-0 text-green-700/70 hover:text-green-800"
+              title="Not needed this time"
+            >
+              <X className="h-3 w-3" />
+            </Button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
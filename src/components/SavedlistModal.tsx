@@ -10,8 +10,9 @@ import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigge
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
 import { ItemDetailModal } from "./ItemDetailModal";
-import { parseSmartSyntax, normalizePlural, getIconForItem } from "@/lib/utils";
+import { parseSmartSyntax, normalizePlural, getIconForItem, getCategoryForItem } from "@/lib/utils";
 import { ItemIcon } from "./ItemIcon";
+import { unitSizeForRename } from "@/services/money";
 
 interface SavedlistItem {
   id: number;
@@ -25,6 +26,7 @@ interface SavedlistItem {
   discount_percentage?: string | null;
   notes?: string | null;
   link?: string | null;
+  category?: string | null;
 }
 
 interface SelectedSavedlistItem extends SavedlistItem {
@@ -32,6 +34,7 @@ interface SelectedSavedlistItem extends SavedlistItem {
 }
 
 interface SavedlistModalProps {
+  listId: number | null;
   isOpen: boolean;
   onClose: () => void;
   onItemsAdded: (data: { items: { item: string; quantity: number }[]; addedItemIds: number[] }) => void;
@@ -436,7 +439,7 @@ function TouchSortableSavedlistItem({
   );
 }
 
-export function SavedlistModal({ isOpen, onClose, onItemsAdded }: SavedlistModalProps) {
+export function SavedlistModal({ listId, isOpen, onClose, onItemsAdded }: SavedlistModalProps) {
   const [savedlistItems, setSavedlistItems] = useState<SelectedSavedlistItem[]>([]);
   const [loading, setLoading] = useState(true);
   const [newItem, setNewItem] = useState("");
@@ -602,7 +605,7 @@ export function SavedlistModal({ isOpen, onClose, onItemsAdded }: SavedlistModal
 
       const { error } = await supabase
         .from('SavedlistItems')
-        .update({ Item: newName })
+        .update({ Item: newName, ...unitSizeForRename(newName, savedlistItems.find(item => item.id === id)?.price) })
         .eq('id', id)
         .eq('user_id', user.data.user.id);
 
@@ -680,7 +683,8 @@ export function SavedlistModal({ isOpen, onClose, onItemsAdded }: SavedlistModal
             notes: notes,
             user_id: user.data.user.id,
             order: newOrder,
-            auto_icon: autoIcon
+            auto_icon: autoIcon,
+            category: getCategoryForItem(itemName)
           }
         ])
         .select()
@@ -764,7 +768,7 @@ export function SavedlistModal({ isOpen, onClose, onItemsAdded }: SavedlistModal
       const { data: existingItems, error: fetchError } = await supabase
         .from('Grocery list')
         .select('*')
-        .eq('user_id', user.data.user.id);
+        .eq('list_id', listId);
 
       if (fetchError) throw fetchError;
 
@@ -801,7 +805,7 @@ export function SavedlistModal({ isOpen, onClose, onItemsAdded }: SavedlistModal
           const { data: maxOrderData, error: maxOrderError } = await supabase
             .from('Grocery list')
             .select('order')
-            .eq('user_id', user.data.user.id)
+            .eq('list_id', listId)
             .order('order', { ascending: false })
             .limit(1)
             .single();
@@ -819,7 +823,9 @@ export function SavedlistModal({ isOpen, onClose, onItemsAdded }: SavedlistModal
                 Item: selectedItem.Item,
                 Quantity: selectedItem.selectedQuantity,
                 user_id: user.data.user.id,
+                list_id: listId,
                 img: selectedItem.img,
+                category: selectedItem.category ?? getCategoryForItem(selectedItem.Item),
                 order: newOrder
               }
             ])
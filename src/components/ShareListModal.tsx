@@ -0,0 +1,327 @@
+import { useState, useEffect, useCallback } from "react";
+import { Copy, Trash2, UserPlus, KeyRound } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import type { GroceryListSummary, ListRole } from "./ListSwitcher";
+
+interface ListMember {
+  user_id: string;
+  email: string | null;
+  role: ListRole;
+}
+
+interface ListInvite {
+  id: number;
+  email: string | null;
+  code: string;
+  role: ListRole;
+  expires_at: string;
+}
+
+interface ShareListModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  list: GroceryListSummary;
+  // Called after the list has been handed to another member, so roles can be reloaded
+  onOwnershipTransferred?: () => void;
+}
+
+const ROLE_LABELS: Record<ListRole, string> = {
+  owner: 'Owner',
+  editor: 'Can edit',
+  viewer: 'View only',
+};
+
+// Short, unambiguous code that is easy to read out loud
+const generateJoinCode = () => {
+  const alphabet = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+  const values = crypto.getRandomValues(new Uint32Array(6));
+  return Array.from(values, v => alphabet[v % alphabet.length]).join('');
+};
+
+export function ShareListModal({ isOpen, onClose, list, onOwnershipTransferred }: ShareListModalProps) {
+  const [members, setMembers] = useState<ListMember[]>([]);
+  const [invites, setInvites] = useState<ListInvite[]>([]);
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [inviteEmail, setInviteEmail] = useState("");
+  const [inviteRole, setInviteRole] = useState<ListRole>('editor');
+  const { toast } = useToast();
+  const isOwner = list.role === 'owner';
+
+  const fetchSharing = useCallback(async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      setCurrentUserId(user?.id ?? null);
+      const { data: memberRows, error: membersError } = await supabase
+        .from('list_members')
+        .select('user_id, email, role')
+        .eq('list_id', list.id)
+        .order('created_at', { ascending: true });
+      if (membersError) throw membersError;
+      setMembers((memberRows || []) as ListMember[]);
+      if (isOwner) {
+        const { data: inviteRows, error: invitesError } = await supabase
+          .from('list_invites')
+          .select('id, email, code, role, expires_at')
+          .eq('list_id', list.id)
+          .is('accepted_at', null)
+          .gt('expires_at', new Date().toISOString())
+          .order('created_at', { ascending: false });
+        if (invitesError) throw invitesError;
+        setInvites((inviteRows || []) as ListInvite[]);
+      }
+    } catch (error) {
+      toast({
+        title: "Error loading sharing",
+        description: "Failed to load members for this list",
+        variant: "destructive",
+      });
+    }
+  }, [list.id, isOwner, toast]);
+
+  useEffect(() => {
+    if (isOpen) {
+      fetchSharing();
+    }
+  }, [isOpen, fetchSharing]);
+
+  const createInvite = async (email: string | null) => {
+    try {
+      const { data, error } = await supabase
+        .from('list_invites')
+        .insert({ list_id: list.id, email, code: generateJoinCode(), role: inviteRole })
+        .select('id, email, code, role, expires_at')
+        .single();
+      if (error) throw error;
+      if (data) setInvites(prev => [data as ListInvite, ...prev]);
+      return data as ListInvite | null;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to create invite';
+      toast({ title: "Error", description: message, variant: "destructive" });
+      return null;
+    }
+  };
+
+  const inviteByEmail = async () => {
+    const email = inviteEmail.trim().toLowerCase();
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+      toast({ title: "Invalid email", description: "Please enter a valid email address", variant: "destructive" });
+      return;
+    }
+    if (members.some(m => m.email?.toLowerCase() === email)) {
+      toast({ title: "Already a member", description: `${email} already has access to this list` });
+      return;
+    }
+    const invite = await createInvite(email);
+    if (invite) {
+      setInviteEmail("");
+      toast({
+        title: "Invite sent",
+        description: `${email} will see "${list.name}" next time they sign in.`,
+      });
+    }
+  };
+
+  const copyCode = async (code: string) => {
+    try {
+      await navigator.clipboard.writeText(code);
+      toast({ title: "Code copied", description: `Share ${code} to let someone join "${list.name}".` });
+    } catch (error) {
+      toast({ title: "Join code", description: code });
+    }
+  };
+
+  const createJoinCode = async () => {
+    const invite = await createInvite(null);
+    if (invite) await copyCode(invite.code);
+  };
+
+  const revokeInvite = async (inviteId: number) => {
+    try {
+      const { error } = await supabase
+        .from('list_invites')
+        .delete()
+        .eq('id', inviteId);
+      if (error) throw error;
+      setInvites(prev => prev.filter(i => i.id !== inviteId));
+    } catch (error) {
+      toast({ title: "Error", description: "Failed to revoke invite", variant: "destructive" });
+    }
+  };
+
+  const changeRole = async (member: ListMember, role: ListRole) => {
+    if (role === 'owner') {
+      await transferOwnership(member);
+      return;
+    }
+    try {
+      const { error } = await supabase
+        .from('list_members')
+        .update({ role })
+        .eq('list_id', list.id)
+        .eq('user_id', member.user_id);
+      if (error) throw error;
+      setMembers(prev => prev.map(m => (m.user_id === member.user_id ? { ...m, role } : m)));
+    } catch (error) {
+      toast({ title: "Error", description: "Failed to change member role", variant: "destructive" });
+    }
+  };
+
+  // The current owner becomes an editor
+  const transferOwnership = async (member: ListMember) => {
+    if (!window.confirm(`Make ${member.email ?? 'this member'} the owner of "${list.name}"? You'll become an editor.`)) return;
+    try {
+      const { error } = await supabase.rpc('transfer_list_ownership', {
+        target_list_id: list.id,
+        new_owner_id: member.user_id,
+      });
+      if (error) throw error;
+      toast({ title: "Ownership transferred", description: `${member.email ?? 'Member'} now owns this list.` });
+      onOwnershipTransferred?.();
+      onClose();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : (error as { message?: string })?.message;
+      toast({ title: "Error", description: message || "Failed to transfer ownership", variant: "destructive" });
+    }
+  };
+
+  const removeMember = async (member: ListMember) => {
+    try {
+      const { error } = await supabase
+        .from('list_members')
+        .delete()
+        .eq('list_id', list.id)
+        .eq('user_id', member.user_id);
+      if (error) throw error;
+      setMembers(prev => prev.filter(m => m.user_id !== member.user_id));
+      toast({ title: "Member removed", description: `${member.email ?? 'Member'} no longer has access.` });
+    } catch (error) {
+      toast({ title: "Error", description: "Failed to remove member", variant: "destructive" });
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="w-[95vw] max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Share "{list.name}"</DialogTitle>
+        </DialogHeader>
+
+        {/* Members */}
+        <div className="space-y-2">
+          <h3 className="text-sm font-semibold text-muted-foreground">Members</h3>
+          {members.map(member => (
+            <div key={member.user_id} className="flex items-center gap-2">
+              <span className="flex-1 text-sm break-all">
+                {member.email ?? 'Unknown member'}
+                {member.user_id === currentUserId && <span className="text-muted-foreground"> (you)</span>}
+              </span>
+              {isOwner && member.role !== 'owner' ? (
+                <>
+                  <Select value={member.role} onValueChange={(value) => changeRole(member, value as ListRole)}>
+                    <SelectTrigger className="w-28 h-8 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="editor">{ROLE_LABELS.editor}</SelectItem>
+                      <SelectItem value="viewer">{ROLE_LABELS.viewer}</SelectItem>
+                      <SelectItem value="owner">Make owner</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => removeMember(member)}
+                    className="h-8 w-8 p-0 text-muted-foreground hover:text-destructive"
+                    title="Remove member"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </>
+              ) : (
+                <span className="text-xs text-muted-foreground">{ROLE_LABELS[member.role]}</span>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {isOwner ? (
+          <>
+            {/* Invite by email */}
+            <div className="space-y-2 pt-4">
+              <h3 className="text-sm font-semibold text-muted-foreground">Invite</h3>
+              <div className="flex gap-2">
+                <Input
+                  type="email"
+                  placeholder="partner@example.com"
+                  value={inviteEmail}
+                  onChange={(e) => setInviteEmail(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && inviteByEmail()}
+                  className="flex-1"
+                />
+                <Select value={inviteRole} onValueChange={(value) => setInviteRole(value as ListRole)}>
+                  <SelectTrigger className="w-28">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="editor">{ROLE_LABELS.editor}</SelectItem>
+                    <SelectItem value="viewer">{ROLE_LABELS.viewer}</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex gap-2">
+                <Button size="sm" onClick={inviteByEmail} className="flex-1 gap-2" disabled={!inviteEmail.trim()}>
+                  <UserPlus className="h-4 w-4" /> Invite by email
+                </Button>
+                <Button size="sm" variant="outline" onClick={createJoinCode} className="flex-1 gap-2">
+                  <KeyRound className="h-4 w-4" /> Create join code
+                </Button>
+              </div>
+            </div>
+
+            {/* Pending invites */}
+            {invites.length > 0 && (
+              <div className="space-y-2 pt-4">
+                <h3 className="text-sm font-semibold text-muted-foreground">Pending invites</h3>
+                {invites.map(invite => (
+                  <div key={invite.id} className="flex items-center gap-2">
+                    <span className="flex-1 text-sm break-all">
+                      {invite.email ?? <span className="font-mono tracking-widest">{invite.code}</span>}
+                      <span className="text-xs text-muted-foreground"> · {ROLE_LABELS[invite.role]}</span>
+                    </span>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => copyCode(invite.code)}
+                      className="h-8 w-8 p-0 text-muted-foreground"
+                      title="Copy join code"
+                    >
+                      <Copy className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => revokeInvite(invite.id)}
+                      className="h-8 w-8 p-0 text-muted-foreground hover:text-destructive"
+                      title="Revoke invite"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        ) : (
+          <p className="text-sm text-muted-foreground pt-4">
+            Only the list owner can invite people or change roles.
+          </p>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,110 @@
+import { useEffect, useState } from "react";
+import { ShoppingBasket, Undo2, Flag, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Sheet, SheetContent, SheetFooter, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { STORES, formatPrice } from "@/services/priceComparison";
+import { parseMoney } from "@/services/money";
+import { summarizeTrip, type TripSession } from "@/services/shoppingTrip";
+
+interface ShoppingTripBarProps {
+  session: TripSession;
+  onUnpick: (itemId: number) => void;
+  onPriceChange: (itemId: number, pricePaid: number | null) => void;
+  onFinish: () => Promise<void>;
+  onCancel: () => void;
+}
+
+// Shown while a trip is in progress: what's in the basket so far, with the cart to check it over
+export function ShoppingTripBar({ session, onUnpick, onPriceChange, onFinish, onCancel }: ShoppingTripBarProps) {
+  const [cartOpen, setCartOpen] = useState(false);
+  const [finishing, setFinishing] = useState(false);
+  const [now, setNow] = useState(() => new Date());
+
+  // Keeps the elapsed time moving while the list is open
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 60000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const summary = summarizeTrip(session, now);
+  const storeLabel = STORES.find(s => s.id === session.store)?.label;
+
+  const finish = async () => {
+    setFinishing(true);
+    try {
+      await onFinish();
+      setCartOpen(false);
+    } finally {
+      setFinishing(false);
+    }
+  };
+
+  return (
+    <>
+      <div className="mx-4 flex items-center gap-2 rounded-md border border-green-200 bg-green-50 px-3 py-2 text-sm text-green-800">
+        <ShoppingBasket className="h-4 w-4 flex-shrink-0" />
+        <button type="button" className="flex-1 text-left" onClick={() => setCartOpen(true)}>
+          <span className="font-medium">Shopping{storeLabel ? ` at ${storeLabel}` : ''}</span>
+          <span className="text-xs text-green-700/80">
+            {' · '}{summary.minutes} min · {summary.quantity} in basket
+            {summary.spent > 0 && ` · ${formatPrice(summary.spent)}`}
+          </span>
+        </button>
+        <Button size="sm" className="h-7 gap-1 px-2 bg-green-600 hover:bg-green-700 text-white" onClick={finish} disabled={finishing}>
+          <Flag className="h-3 w-3" /> Finish
+        </Button>
+        <Button variant="ghost" size="sm" className="h-7 w-7 p-0 text-green-800" onClick={onCancel} title="Stop shopping without saving">
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <Sheet open={cartOpen} onOpenChange={setCartOpen}>
+        <SheetContent side="bottom" className="max-h-[80vh] flex flex-col">
+          <SheetHeader>
+            <SheetTitle>Basket</SheetTitle>
+          </SheetHeader>
+          <div className="flex-1 overflow-y-auto divide-y">
+            {summary.basket.length === 0 && (
+              <p className="py-6 text-center text-sm text-muted-foreground">Tick items off the list as you put them in your basket.</p>
+            )}
+            {summary.basket.map(entry => (
+              <div key={entry.itemId} className="flex items-center gap-2 py-2">
+                <span className="w-5 text-xs text-muted-foreground">{entry.sequence}</span>
+                <span className="flex-1 text-sm">
+                  {entry.Item}
+                  {entry.quantity > 1 && <span className="text-muted-foreground"> ×{entry.quantity}</span>}
+                </span>
+                {/* Per-unit price as paid; starts at the list's price */}
+                <Input
+                  key={`${entry.itemId}-${entry.pricePaid}`}
+                  defaultValue={entry.pricePaid !== null ? entry.pricePaid.toFixed(2) : ''}
+                  placeholder="Price"
+                  inputMode="decimal"
+                  className="h-8 w-20 text-right"
+                  onBlur={(e) => {
+                    const parsed = parseMoney(e.target.value);
+                    const pricePaid = parsed ? parsed.cents / 100 : null;
+                    if (pricePaid !== entry.pricePaid) onPriceChange(entry.itemId, pricePaid);
+                  }}
+                />
+                <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => onUnpick(entry.itemId)} title="Put back on the list">
+                  <Undo2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+          <SheetFooter className="flex-row items-center justify-between gap-2 border-t pt-3 sm:justify-between">
+            <div className="text-sm">
+              <span className="font-medium">{formatPrice(summary.spent)}</span>
+              {summary.unpriced > 0 && <span className="text-muted-foreground"> + {summary.unpriced} unpriced</span>}
+            </div>
+            <Button onClick={finish} disabled={finishing} className="gap-2">
+              <Flag className="h-4 w-4" /> Finish trip
+            </Button>
+          </SheetFooter>
+        </SheetContent>
+      </Sheet>
+    </>
+  );
+}
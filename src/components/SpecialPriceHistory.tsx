@@ -0,0 +1,81 @@
+import { useState, useEffect } from "react";
+import { TrendingDown, TrendingUp, Minus } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { formatPrice } from "@/services/priceComparison";
+import { formatWindow, judgeDeal, type CataloguePrice } from "@/services/catalogueWeeks";
+import type { PricedRow } from "@/services/money";
+import { cn } from "@/lib/utils";
+
+// Enough catalogues to cover the usual half-price cycle a few times over
+const HISTORY_LIMIT = 12;
+
+interface SpecialPriceHistoryProps {
+  special: PricedRow & { id: number; item: string };
+}
+
+const VERDICTS = {
+  lowest: { label: "Lowest price we've seen", className: "text-green-700 bg-green-50 border-green-200", Icon: TrendingDown },
+  good: { label: "Cheaper than usual", className: "text-green-700 bg-green-50 border-green-200", Icon: TrendingDown },
+  usual: { label: "About the usual special price", className: "text-amber-700 bg-amber-50 border-amber-200", Icon: Minus },
+  higher: { label: "Dearer than it usually is on special", className: "text-red-700 bg-red-50 border-red-200", Icon: TrendingUp },
+};
+
+// The same item's price in earlier catalogues, with a verdict on whether this week's is a good deal
+export function SpecialPriceHistory({ special }: SpecialPriceHistoryProps) {
+  const [history, setHistory] = useState<CataloguePrice[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    const fetchHistory = async () => {
+      setLoading(true);
+      // Matches the normalized_item column the database generates from item
+      const normalized = special.item.toLowerCase().replace(/\s+/g, ' ').trim();
+      const { data, error } = await supabase
+        .from('specials')
+        .select('id, price, price_cents, discount_percentage, catalogue_date, valid_from, valid_to')
+        .eq('normalized_item', normalized)
+        .neq('id', special.id)
+        .order('valid_from', { ascending: false, nullsFirst: false })
+        .limit(HISTORY_LIMIT);
+      if (cancelled) return;
+      // Non-critical: without history the detail view just shows this week's price
+      setHistory(error ? [] : data || []);
+      setLoading(false);
+    };
+    fetchHistory();
+    return () => {
+      cancelled = true;
+    };
+  }, [special.id, special.item]);
+
+  if (loading || history.length === 0) return null;
+
+  const verdict = judgeDeal(special, history);
+  const style = verdict ? VERDICTS[verdict.kind] : null;
+
+  return (
+    <div className="px-4 space-y-2">
+      <h3 className="text-sm font-medium">Price in past catalogues</h3>
+      {verdict && style && (
+        <div className={cn("flex items-center gap-2 rounded-md border px-3 py-2 text-sm", style.className)}>
+          <style.Icon className="h-4 w-4 flex-shrink-0" />
+          <span>
+            {style.label}. Before this it was as low as {formatPrice(verdict.lowest)} and typically {formatPrice(verdict.median)} across {verdict.catalogues} catalogue{verdict.catalogues === 1 ? '' : 's'}.
+          </span>
+        </div>
+      )}
+      <ul className="divide-y rounded-md border text-sm">
+        {history.map(point => (
+          <li key={point.id} className="flex items-center justify-between px-3 py-1.5">
+            <span className="text-muted-foreground">{formatWindow(point) ?? point.catalogue_date ?? 'Unknown week'}</span>
+            <span>
+              {point.price ?? '—'}
+              {point.discount_percentage && <span className="ml-2 text-xs text-muted-foreground">{point.discount_percentage} off</span>}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -1,7 +1,10 @@
 import { useState, useEffect, useMemo, useRef } from "react";
-import { X, Plus, Minus, Check, Heart, Link } from "lucide-react";
+import { X, Plus, Minus, Check, Heart, Link, SlidersHorizontal, Star, Search, Filter } from "lucide-react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import {
   Dialog,
   DialogContent,
@@ -22,7 +25,27 @@ import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
 import { QuantitySelector } from "./QuantitySelector";
 import { useIsMobile } from "@/hooks/use-mobile";
-import { parseSmartSyntax } from "@/lib/utils";
+import { isNetworkError } from "@/services/syncQueue";
+import { OfflineNotice } from "./OfflineNotice";
+import { SpecialPriceHistory } from "./SpecialPriceHistory";
+import { CategoryPreferencesDialog } from "./CategoryPreferencesDialog";
+import { useCategoryPreferences } from "@/hooks/useCategoryPreferences";
+import { applyCategoryPreferences, orderCategories } from "@/services/categoryPreferences";
+import {
+  filterSpecials,
+  sortSpecials,
+  loadSpecialsQuery,
+  saveSpecialsQuery,
+  activeFilterCount,
+  DEFAULT_SPECIALS_QUERY,
+  type SpecialsQuery,
+  type SpecialsSort,
+} from "@/services/specialsQuery";
+import { structuredPriceOf, unitPriceLabel } from "@/services/money";
+import type { StructuredPrice } from "@/integrations/supabase/types";
+import { CATALOGUE_WEEKS, PAST_CATALOGUE_DAYS, addDays, formatWindow, isoDate, type CatalogueWeek } from "@/services/catalogueWeeks";
+import { parseSmartSyntax, getCategoryForItem, matchCategory, CATEGORIES, UNCATEGORISED, cn } from "@/lib/utils";
+import { groupVariants, productName, variantOf, isSameListItem, formatWithVariant, type ProductGroup } from "@/services/productVariants";
 import {
   Pagination,
   PaginationContent,
@@ -32,7 +55,7 @@ import {
   PaginationPrevious,
 } from "@/components/ui/pagination";
 
-interface SpecialsItem {
+interface SpecialsItem extends Partial<StructuredPrice> {
   id: number;
   item: string;
   quantity: number;
@@ -40,13 +63,35 @@ interface SpecialsItem {
   price: string | null;
   discount: string | null;
   catalogue_date: string | null;
+  valid_from?: string | null;
+  valid_to?: string | null;
   on_special: boolean;
-  discount_percentage: number | null;
+  discount_percentage: string | null;
   img: string | null;
   user_id?: string;
+  product_id?: number | null;
+  variant?: string | null;
+  products?: { name: string } | null;
 }
 
+// The catalogue's own category when it maps onto ours, otherwise one guessed from the product name
+const listCategory = (item: SpecialsItem) => matchCategory(item.category) ?? getCategoryForItem(productName(item));
+
+const SORT_OPTIONS: { value: SpecialsSort; label: string }[] = [
+  { value: 'relevance', label: 'For you' },
+  { value: 'discount', label: 'Biggest discount' },
+  { value: 'price-asc', label: 'Price: low to high' },
+  { value: 'price-desc', label: 'Price: high to low' },
+  { value: 'name', label: 'Name A-Z' },
+];
+
+const DISCOUNT_OPTIONS = [10, 25, 40, 50];
+
+// Empty input means no bound
+const parseBound = (value: string) => (value.trim() === '' || Number.isNaN(Number(value)) ? null : Number(value));
+
 interface SpecialsModalProps {
+  listId: number | null;
   isOpen: boolean;
   onClose: () => void;
   onItemsAdded: (data: {
@@ -56,7 +101,7 @@ interface SpecialsModalProps {
   onModalClose?: () => void;
 }
 
-export function SpecialsModal({ isOpen, onClose, onItemsAdded, onModalClose }: SpecialsModalProps) {
+export function SpecialsModal({ listId, isOpen, onClose, onItemsAdded, onModalClose }: SpecialsModalProps) {
   const [specials, setSpecials] = useState<SpecialsItem[]>([]);
   const [loading, setLoading] = useState(true);
   const [carouselApi, setCarouselApi] = useState<CarouselApi>();
@@ -65,6 +110,7 @@ export function SpecialsModal({ isOpen, onClose, onItemsAdded, onModalClose }: S
   const [pageInputValue, setPageInputValue] = useState("1");
 
   const [detailViewItem, setDetailViewItem] = useState<SpecialsItem | null>(null);
+  const [detailVariants, setDetailVariants] = useState<SpecialsItem[]>([]);
   const [isDetailViewOpen, setIsDetailViewOpen] = useState(false);
   const [detailQuantity, setDetailQuantity] = useState(1);
   const [detailNotes, setDetailNotes] = useState("");
@@ -72,6 +118,12 @@ export function SpecialsModal({ isOpen, onClose, onItemsAdded, onModalClose }: S
   const [savedItems, setSavedItems] = useState<Set<number>>(new Set());
   const notesTextareaRef = useRef<HTMLTextAreaElement | null>(null);
   const [isNotesFocused, setIsNotesFocused] = useState(false);
+  const [unavailableOffline, setUnavailableOffline] = useState(false);
+  const [query, setQuery] = useState<SpecialsQuery>(loadSpecialsQuery);
+  const categoryTab = query.category;
+  const [preferencesOpen, setPreferencesOpen] = useState(false);
+  const [catalogueWeek, setCatalogueWeek] = useState<CatalogueWeek>('this');
+  const categoryPreferences = useCategoryPreferences();
 
   const { toast } = useToast();
   const isMobile = useIsMobile();
@@ -146,18 +198,15 @@ export function SpecialsModal({ isOpen, onClose, onItemsAdded, onModalClose }: S
 
       const { data: existingItems, error } = await supabase
         .from('Grocery list')
-        .select('Item')
-        .eq('user_id', user.id);
+        .select('Item, variant')
+        .eq('list_id', listId);
 
       if (error) throw error;
 
-      const normalize = (name: string) => name.toLowerCase().trim();
-      const existingItemNames = new Set(existingItems?.map(item => normalize(item.Item)) || []);
-
       // Check which specials items already exist in the grocery list
       const alreadyAddedItems = new Set<number>();
       specials.forEach(special => {
-        if (existingItemNames.has(normalize(special.item))) {
+        if (existingItems?.some(item => isSameListItem(item, productName(special), variantOf(special)))) {
           alreadyAddedItems.add(special.id);
         }
       });
@@ -197,19 +246,37 @@ export function SpecialsModal({ isOpen, onClose, onItemsAdded, onModalClose }: S
     }
   };
 
-  const fetchSpecialsItems = async () => {
+  const fetchSpecialsItems = async (week: CatalogueWeek = catalogueWeek) => {
     setLoading(true);
     try {
-      const { data, error } = await supabase
-        .from('specials')
-        .select('*')
-        .eq('on_special', true)
-        .order('id', { ascending: true });
+      const today = isoDate();
+      let request = supabase.from('specials').select('*, products(name)');
+      if (week === 'this') {
+        // Rows imported before catalogue windows existed fall back to the on_special flag
+        request = request.or(`and(valid_from.lte.${today},valid_to.gte.${today}),and(valid_from.is.null,on_special.eq.true)`);
+      } else if (week === 'next') {
+        request = request.gt('valid_from', today);
+      } else {
+        request = request.lt('valid_to', today).gte('valid_to', addDays(today, -PAST_CATALOGUE_DAYS));
+      }
+      // Preferences may have changed on another device since the modal was last open
+      const [{ data, error }] = await Promise.all([
+        week === 'past'
+          ? request.order('valid_from', { ascending: false }).order('id', { ascending: true })
+          : request.order('id', { ascending: true }),
+        categoryPreferences.refresh(),
+      ]);
 
       if (error) throw error;
 
       setSpecials(data || []);
+      setUnavailableOffline(false);
     } catch (error) {
+      // Offline: keep showing the specials from the last successful load, if any
+      if (isNetworkError(error)) {
+        setUnavailableOffline(true);
+        return;
+      }
       toast({
         title: "Error loading specials",
         description: "Failed to fetch specials from the database.",
@@ -220,20 +287,72 @@ export function SpecialsModal({ isOpen, onClose, onItemsAdded, onModalClose }: S
     }
   };
 
+  // One card per product; its variants are picked in the detail view
+  const allProductGroups = useMemo(() => groupVariants(specials), [specials]);
+  const groupCategory = (group: ProductGroup<SpecialsItem>) => listCategory(group.variants[0]) ?? UNCATEGORISED;
+
+  // Search and filters, then preferred categories first and muted ones hidden (unless a category
+  // tab is open), then the chosen sort
+  const productGroups = useMemo(
+    () => sortSpecials(
+      applyCategoryPreferences(filterSpecials(allProductGroups, query), groupCategory, categoryPreferences.preferences, query.category),
+      query.sort
+    ),
+    [allProductGroups, categoryPreferences.preferences, query]
+  );
+  const filtersActive = query.category !== null || query.search.trim() !== '' || activeFilterCount(query) > 0;
+
+  const categoryTabs = useMemo(() => {
+    const counts = new Map<string, number>();
+    allProductGroups.forEach(group => counts.set(groupCategory(group), (counts.get(groupCategory(group)) ?? 0) + 1));
+    return orderCategories(Array.from(counts.keys()), [...CATEGORIES, UNCATEGORISED], categoryPreferences.preferences)
+      .map(category => ({ category, count: counts.get(category)! }));
+  }, [allProductGroups, categoryPreferences.preferences]);
+
+  // Results are re-paginated, so start again from the first page
+  const updateQuery = (changes: Partial<SpecialsQuery>) => {
+    const next = { ...query, ...changes };
+    setQuery(next);
+    saveSpecialsQuery(next);
+    carouselApi?.scrollTo(0, true);
+  };
+
+  const selectCategoryTab = (category: string | null) => updateQuery({ category });
+
+  const selectCatalogueWeek = (week: CatalogueWeek) => {
+    if (week === catalogueWeek) return;
+    setCatalogueWeek(week);
+    setSpecials([]);
+    carouselApi?.scrollTo(0, true);
+    fetchSpecialsItems(week);
+  };
+
+  // Shown next to the week switcher, e.g. "22 Oct – 28 Oct"
+  const catalogueWindow = useMemo(() => {
+    if (catalogueWeek === 'past') return null;
+    const windows = specials.filter(s => s.valid_from);
+    if (windows.length === 0) return null;
+    const from = windows.map(s => s.valid_from!).sort()[0];
+    const to = windows.map(s => s.valid_to).filter(Boolean).sort().pop() ?? null;
+    return formatWindow({ valid_from: from, valid_to: to });
+  }, [specials, catalogueWeek]);
+
   const pages = useMemo(() => {
-    const p = [];
-    for (let i = 0; i < specials.length; i += ITEMS_PER_PAGE) {
-      p.push(specials.slice(i, i + ITEMS_PER_PAGE));
+    const p: ProductGroup<SpecialsItem>[][] = [];
+    for (let i = 0; i < productGroups.length; i += ITEMS_PER_PAGE) {
+      p.push(productGroups.slice(i, i + ITEMS_PER_PAGE));
     }
     return p;
-  }, [specials, ITEMS_PER_PAGE]);
+  }, [productGroups, ITEMS_PER_PAGE]);
 
   useEffect(() => {
     setTotalPages(pages.length);
   }, [pages]);
 
-  const handleItemClick = (item: SpecialsItem) => {
-    setDetailViewItem(item);
+  const handleItemClick = (group: ProductGroup<SpecialsItem>) => {
+    // Open on the variant already on the list, if there is one
+    setDetailViewItem(group.variants.find(v => addedItems.has(v.id)) ?? group.variants[0]);
+    setDetailVariants(group.variants);
     setIsDetailViewOpen(true);
     // Default notes to empty; user can add a note explicitly in detail view
     setDetailNotes("");
@@ -252,13 +371,14 @@ export function SpecialsModal({ isOpen, onClose, onItemsAdded, onModalClose }: S
 
       const { data: existingItems, error: fetchError } = await supabase
         .from('Grocery list')
-        .select('id, Item, Quantity')
-        .eq('user_id', user.id);
+        .select('id, Item, Quantity, variant')
+        .eq('list_id', listId);
 
       if (fetchError) throw fetchError;
 
-      const normalize = (name: string) => name.toLowerCase().trim();
-      const existingItem = existingItems?.find(i => normalize(i.Item) === normalize(item.item));
+      const name = productName(item);
+      const variant = variantOf(item);
+      const existingItem = existingItems?.find(i => isSameListItem(i, name, variant));
 
       let addedItemId: number;
       let wasNew = false;
@@ -274,6 +394,7 @@ export function SpecialsModal({ isOpen, onClose, onItemsAdded, onModalClose }: S
             price: item.price,
             discount: item.discount,
             discount_percentage: item.discount_percentage,
+            ...structuredPriceOf(item),
             link: item.link
           })
           .eq('id', existingItem.id);
@@ -282,11 +403,11 @@ export function SpecialsModal({ isOpen, onClose, onItemsAdded, onModalClose }: S
       } else {
         wasNew = true;
         
-        // Get the minimum order value to place new item at the top (user-specific)
+        // Get the minimum order value to place new item at the top of the list
         const { data: minOrderData, error: minOrderError } = await supabase
           .from('Grocery list')
           .select('order')
-          .eq('user_id', user.id)
+          .eq('list_id', listId)
           .order('order', { ascending: true })
           .limit(1)
           .single();
@@ -301,14 +422,18 @@ export function SpecialsModal({ isOpen, onClose, onItemsAdded, onModalClose }: S
         const { data: newItem, error } = await supabase
           .from('Grocery list')
           .insert({ 
-            Item: item.item, 
+            Item: name, 
+            variant,
+            category: listCategory(item),
             Quantity: 1, 
             user_id: user.id, 
+            list_id: listId,
             img: item.img, 
             order: newOrder,
             price: item.price,
             discount: item.discount,
             discount_percentage: item.discount_percentage,
+            ...structuredPriceOf(item),
             link: item.link,
             // Do not set default notes when adding from specials quick add
             notes: null
@@ -320,7 +445,7 @@ export function SpecialsModal({ isOpen, onClose, onItemsAdded, onModalClose }: S
       }
 
       onItemsAdded({
-        items: [{ item: item.item, quantity: 1, wasNew, originalQuantity }],
+        items: [{ item: name, quantity: 1, wasNew, originalQuantity }],
         addedItemIds: [addedItemId],
       });
 
@@ -329,7 +454,7 @@ export function SpecialsModal({ isOpen, onClose, onItemsAdded, onModalClose }: S
 
       toast({
         title: "Item Added",
-        description: `${item.item} added to your list.`,
+        description: `${formatWithVariant(name, variant)} added to your list.`,
       });
 
     } catch (error) {
@@ -391,11 +516,13 @@ export function SpecialsModal({ isOpen, onClose, onItemsAdded, onModalClose }: S
             Item: item.item, 
             user_id: user.id, 
             img: item.img,
+            category: listCategory(item),
             Quantity: 1, // Add default quantity
             order: newOrder, // Add order
             price: item.price,
             discount: item.discount,
             discount_percentage: item.discount_percentage,
+            ...structuredPriceOf(item),
             link: item.link,
             notes: noteOverride ?? null
           });
@@ -427,12 +554,11 @@ export function SpecialsModal({ isOpen, onClose, onItemsAdded, onModalClose }: S
       const { data: existingItems, error: fetchError } = await supabase
         .from('Grocery list')
         .select('*')
-        .eq('user_id', user.id);
+        .eq('list_id', listId);
 
       if (fetchError) throw fetchError;
 
-      const normalize = (name: string) => name.toLowerCase().trim();
-      const existingItem = existingItems?.find(i => normalize(i.Item) === normalize(item.item));
+      const existingItem = existingItems?.find(i => isSameListItem(i, productName(item), variantOf(item)));
 
       if (existingItem) {
         // Remove item completely regardless of quantity
@@ -452,7 +578,7 @@ export function SpecialsModal({ isOpen, onClose, onItemsAdded, onModalClose }: S
 
       toast({
         title: "Item Removed",
-        description: `All quantities of ${item.item} removed from your list.`,
+        description: `All quantities of ${formatWithVariant(productName(item), variantOf(item))} removed from your list.`,
       });
 
     } catch (error) {
@@ -473,12 +599,13 @@ export function SpecialsModal({ isOpen, onClose, onItemsAdded, onModalClose }: S
       const { data: existingItems, error: fetchError } = await supabase
         .from('Grocery list')
         .select('*')
-        .eq('user_id', user.id);
+        .eq('list_id', listId);
 
       if (fetchError) throw fetchError;
 
-      const normalize = (name: string) => name.toLowerCase().trim();
-      const existingItem = existingItems?.find(i => normalize(i.Item) === normalize(item.item));
+      const name = productName(item);
+      const variant = variantOf(item);
+      const existingItem = existingItems?.find(i => isSameListItem(i, name, variant));
 
       let addedItemId: number;
       let wasNew = false;
@@ -497,6 +624,7 @@ export function SpecialsModal({ isOpen, onClose, onItemsAdded, onModalClose }: S
             price: item.price,
             discount: item.discount,
             discount_percentage: item.discount_percentage,
+            ...structuredPriceOf(item),
             link: item.link,
             notes: appendedNote
           })
@@ -506,11 +634,11 @@ export function SpecialsModal({ isOpen, onClose, onItemsAdded, onModalClose }: S
       } else {
         wasNew = true;
         
-        // Get the highest order value to place new item at the end (user-specific)
+        // Get the highest order value to place new item at the end of the list
         const { data: maxOrderData, error: maxOrderError } = await supabase
           .from('Grocery list')
           .select('order')
-          .eq('user_id', user.id)
+          .eq('list_id', listId)
           .order('order', { ascending: false })
           .limit(1)
           .single();
@@ -524,14 +652,18 @@ export function SpecialsModal({ isOpen, onClose, onItemsAdded, onModalClose }: S
         const { data: newItem, error } = await supabase
           .from('Grocery list')
           .insert({ 
-            Item: item.item, 
+            Item: name, 
+            variant,
+            category: listCategory(item),
             Quantity: quantity, 
             user_id: user.id, 
+            list_id: listId,
             img: item.img, 
             order: newOrder,
             price: item.price,
             discount: item.discount,
             discount_percentage: item.discount_percentage,
+            ...structuredPriceOf(item),
             link: item.link,
             notes: note && note.trim() ? note.trim() : null
           })
@@ -542,13 +674,13 @@ export function SpecialsModal({ isOpen, onClose, onItemsAdded, onModalClose }: S
       }
 
       onItemsAdded({
-        items: [{ item: item.item, quantity, wasNew, originalQuantity }],
+        items: [{ item: name, quantity, wasNew, originalQuantity }],
         addedItemIds: [addedItemId],
       });
 
       toast({
         title: "Item Added",
-        description: `${quantity} x ${item.item} added to your list.`,
+        description: `${quantity} x ${formatWithVariant(name, variant)} added to your list.`,
       });
 
       setIsDetailViewOpen(false);
@@ -622,6 +754,16 @@ export function SpecialsModal({ isOpen, onClose, onItemsAdded, onModalClose }: S
                     <span>of {totalPages}</span>
                   </div>
                 )}
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  onClick={() => setPreferencesOpen(true)}
+                  aria-label="Category preferences"
+                  title="Category preferences"
+                >
+                  <SlidersHorizontal className="h-5 w-5" />
+                </Button>
                 <Button
                   variant="ghost"
                   size="icon"
@@ -633,15 +775,191 @@ export function SpecialsModal({ isOpen, onClose, onItemsAdded, onModalClose }: S
                 </Button>
               </div>
             </div>
+            <div className="flex items-center gap-2 pt-2">
+              <div className="inline-flex rounded-md border p-0.5">
+                {CATALOGUE_WEEKS.map(week => (
+                  <Button
+                    key={week.value}
+                    variant={catalogueWeek === week.value ? 'default' : 'ghost'}
+                    size="sm"
+                    className="h-7 px-3 text-xs"
+                    onClick={() => selectCatalogueWeek(week.value)}
+                  >
+                    {week.label}
+                  </Button>
+                ))}
+              </div>
+              {catalogueWindow && <span className="text-xs text-muted-foreground">{catalogueWindow}</span>}
+            </div>
+            {!loading && categoryTabs.length > 1 && (
+              <div className="flex gap-2 overflow-x-auto pb-1 pt-2">
+                <Button
+                  variant={categoryTab ? 'outline' : 'default'}
+                  size="sm"
+                  className="h-7 rounded-full px-3 text-xs shrink-0"
+                  onClick={() => selectCategoryTab(null)}
+                >
+                  All
+                </Button>
+                {categoryTabs.map(({ category, count }) => {
+                  const preference = categoryPreferences.preferences.get(category);
+                  return (
+                    <Button
+                      key={category}
+                      variant={categoryTab === category ? 'default' : 'outline'}
+                      size="sm"
+                      className={cn("h-7 gap-1 rounded-full px-3 text-xs shrink-0", preference === 'muted' && categoryTab !== category && "opacity-50")}
+                      onClick={() => selectCategoryTab(categoryTab === category ? null : category)}
+                    >
+                      {preference === 'preferred' && <Star className="h-3 w-3 fill-current" />}
+                      {category}
+                      <span className="opacity-60">{count}</span>
+                    </Button>
+                  );
+                })}
+              </div>
+            )}
+            {!loading && specials.length > 0 && (
+              <div className="flex gap-2 items-center pt-2">
+                <div className="relative flex-1">
+                  <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                  <Input
+                    placeholder="Search specials..."
+                    value={query.search}
+                    onChange={(e) => updateQuery({ search: e.target.value })}
+                    className="h-9 pl-10 pr-10"
+                  />
+                  {query.search && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => updateQuery({ search: '' })}
+                      className="absolute right-1 top-1/2 transform -translate-y-1/2 h-7 w-7 p-0"
+                      aria-label="Clear search"
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+                <Select value={query.sort} onValueChange={(value) => updateQuery({ sort: value as SpecialsSort })}>
+                  <SelectTrigger className="h-9 w-36 sm:w-44">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SORT_OPTIONS.map(option => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Popover>
+                  <PopoverTrigger asChild>
+                    <Button variant={activeFilterCount(query) > 0 ? 'default' : 'outline'} size="sm" className="h-9 gap-1">
+                      <Filter className="h-4 w-4" />
+                      {activeFilterCount(query) > 0 && <span className="text-xs">{activeFilterCount(query)}</span>}
+                    </Button>
+                  </PopoverTrigger>
+                  <PopoverContent align="end" className="w-72 space-y-4">
+                    <div>
+                      <label className="block text-sm font-medium mb-2">Minimum discount</label>
+                      <div className="flex flex-wrap gap-1">
+                        <Button
+                          variant={query.minDiscount === null ? 'default' : 'outline'}
+                          size="sm"
+                          className="h-7 px-2 text-xs"
+                          onClick={() => updateQuery({ minDiscount: null })}
+                        >
+                          Any
+                        </Button>
+                        {DISCOUNT_OPTIONS.map(percent => (
+                          <Button
+                            key={percent}
+                            variant={query.minDiscount === percent ? 'default' : 'outline'}
+                            size="sm"
+                            className="h-7 px-2 text-xs"
+                            onClick={() => updateQuery({ minDiscount: percent })}
+                          >
+                            {percent}%+
+                          </Button>
+                        ))}
+                      </div>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium mb-2">Price</label>
+                      <div className="flex items-center gap-2">
+                        <Input
+                          type="number"
+                          inputMode="decimal"
+                          min="0"
+                          placeholder="Min $"
+                          value={query.minPrice ?? ''}
+                          onChange={(e) => updateQuery({ minPrice: parseBound(e.target.value) })}
+                          className="h-8"
+                        />
+                        <span className="text-muted-foreground">–</span>
+                        <Input
+                          type="number"
+                          inputMode="decimal"
+                          min="0"
+                          placeholder="Max $"
+                          value={query.maxPrice ?? ''}
+                          onChange={(e) => updateQuery({ maxPrice: parseBound(e.target.value) })}
+                          className="h-8"
+                        />
+                      </div>
+                    </div>
+                    {activeFilterCount(query) > 0 && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="w-full"
+                        onClick={() => updateQuery({ minDiscount: null, minPrice: null, maxPrice: null })}
+                      >
+                        Clear filters
+                      </Button>
+                    )}
+                  </PopoverContent>
+                </Popover>
+              </div>
+            )}
           </DialogHeader>
           {loading ? (
             <div className="flex-1 flex items-center justify-center">
               <p className="text-muted-foreground">Loading specials...</p>
             </div>
+          ) : unavailableOffline && specials.length === 0 ? (
+            <div className="flex-1 flex items-center justify-center p-4">
+              <OfflineNotice
+                title="Specials need a connection"
+                description="This week's catalogue will load once you're back online."
+                onRetry={() => fetchSpecialsItems()}
+              />
+            </div>
           ) : specials.length === 0 ? (
             <div className="flex-1 flex items-center justify-center">
-              <p className="text-muted-foreground">No specials available right now.</p>
+              <p className="text-muted-foreground">
+                {catalogueWeek === 'next'
+                  ? "Next week's catalogue isn't out yet."
+                  : catalogueWeek === 'past'
+                    ? "No catalogues from the last four weeks."
+                    : "No specials available right now."}
+              </p>
             </div>
+          ) : productGroups.length === 0 ? (
+            filtersActive ? (
+              <div className="flex-1 flex flex-col items-center justify-center gap-2 text-center">
+                <p className="text-muted-foreground">No specials match your search.</p>
+                <Button variant="outline" size="sm" onClick={() => updateQuery({ ...DEFAULT_SPECIALS_QUERY, sort: query.sort })}>
+                  Clear search and filters
+                </Button>
+              </div>
+            ) : (
+              <div className="flex-1 flex flex-col items-center justify-center gap-2 text-center">
+                <p className="text-muted-foreground">Every special this week is in a category you've muted.</p>
+                <Button variant="outline" size="sm" onClick={() => setPreferencesOpen(true)}>
+                  Change category preferences
+                </Button>
+              </div>
+            )
           ) : (
             <Carousel setApi={setCarouselApi} className="flex-1 flex flex-col justify-between">
               <div className="relative flex-1 overflow-hidden">
@@ -649,11 +967,17 @@ export function SpecialsModal({ isOpen, onClose, onItemsAdded, onModalClose }: S
                   {pages.map((page, pageIndex) => (
                     <CarouselItem key={pageIndex} className="h-full">
                       <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-0 p-0 h-full overflow-y-auto">
-                        {page.map((item) => (
+                        {page.map((group) => {
+                          const item = group.variants[0];
+                          const hasVariants = group.variants.length > 1;
+                          // Variants come in different sizes, so only a single product shows a unit price
+                          const unitLabel = hasVariants ? null : unitPriceLabel(item, item.item);
+                          const isAdded = group.variants.some(v => addedItems.has(v.id));
+                          return (
                           <Card
-                            key={item.id}
+                            key={group.key}
                               className="flex flex-col text-center cursor-pointer overflow-hidden relative aspect-[5/6] border-2 border-gray-200 hover:border-blue-300 transition-colors"
-                            onClick={() => handleItemClick(item)}
+                            onClick={() => handleItemClick(group)}
                           >
                             <CardContent className="p-1 flex flex-col w-full h-full">
                               {/* Product Image positioned top right, covering 75% of card */}
@@ -673,22 +997,25 @@ export function SpecialsModal({ isOpen, onClose, onItemsAdded, onModalClose }: S
                                 <div className="absolute top-2 left-2">
                                   <Button
                                     size="sm"
-                                    variant={addedItems.has(item.id) ? "default" : "secondary"}
+                                    variant={isAdded ? "default" : "secondary"}
                                     className={`w-8 h-8 sm:w-10 sm:h-10 p-0 rounded-full ${
-                                      addedItems.has(item.id) 
+                                      isAdded 
                                         ? 'bg-green-500 hover:bg-green-600 text-white' 
                                         : 'bg-green-100 hover:bg-green-200 text-green-600 border border-green-300'
                                     }`}
                                     onClick={(e) => {
                                       e.stopPropagation();
-                                      if (addedItems.has(item.id)) {
+                                      // Products with several variants need one picked first
+                                      if (hasVariants) {
+                                        handleItemClick(group);
+                                      } else if (isAdded) {
                                         handleRemoveItemFromCard(item);
                                       } else {
                                         handleAddItemFromCard(item);
                                       }
                                     }}
                                   >
-                                    {addedItems.has(item.id) ? (
+                                    {isAdded ? (
                                       <Check className="w-4 h-4 sm:w-5 sm:h-5" />
                                     ) : (
                                       <Plus className="w-4 h-4 sm:w-5 sm:h-5" />
@@ -746,13 +1073,24 @@ export function SpecialsModal({ isOpen, onClose, onItemsAdded, onModalClose }: S
                                   
                                   {/* Product Name at bottom, aligned left */}
                                   <p className="text-[10px] sm:text-[12px] font-bold text-gray-800 leading-tight text-left break-words line-clamp-2">
-                                    {item.item}
+                                    {group.name}
                                   </p>
+                                  {hasVariants && (
+                                    <p className="text-[10px] sm:text-[11px] text-muted-foreground leading-tight text-left -mt-1">
+                                      {group.variants.length} options
+                                    </p>
+                                  )}
+                                  {unitLabel && (
+                                    <p className="text-[10px] sm:text-[11px] text-muted-foreground leading-tight text-left -mt-1">
+                                      {unitLabel}
+                                    </p>
+                                  )}
                                 </div>
                               </div>
                             </CardContent>
                           </Card>
-                        ))}
+                          );
+                        })}
                       </div>
                     </CarouselItem>
                   ))}
@@ -775,15 +1113,38 @@ export function SpecialsModal({ isOpen, onClose, onItemsAdded, onModalClose }: S
         <Dialog open={isDetailViewOpen} onOpenChange={() => {
           setIsDetailViewOpen(false);
           setDetailViewItem(null);
+          setDetailVariants([]);
           setDetailQuantity(1);
         }}>
           <DialogContent className={`w-[95vw] max-w-2xl max-h-[90vh] overflow-y-auto ${isMobile && isNotesFocused ? 'pb-32' : ''}`}>
             <DialogHeader>
-              <DialogTitle>{detailViewItem.item}</DialogTitle>
+              <DialogTitle>{productName(detailViewItem)}</DialogTitle>
               {detailViewItem.category && (
                 <p className="text-sm text-muted-foreground mt-1">Category: {detailViewItem.category}</p>
               )}
+              {formatWindow({ valid_from: detailViewItem.valid_from ?? null, valid_to: detailViewItem.valid_to ?? null }) && (
+                <p className="text-sm text-muted-foreground">
+                  Catalogue: {formatWindow({ valid_from: detailViewItem.valid_from ?? null, valid_to: detailViewItem.valid_to ?? null })}
+                </p>
+              )}
             </DialogHeader>
+            {/* Variant picker */}
+            {detailVariants.length > 1 && (
+              <div className="flex flex-wrap gap-2 px-4 pt-2">
+                {detailVariants.map(variant => (
+                  <Button
+                    key={variant.id}
+                    size="sm"
+                    variant={variant.id === detailViewItem.id ? "default" : "outline"}
+                    onClick={() => setDetailViewItem(variant)}
+                    className="h-8 text-xs"
+                  >
+                    {variantOf(variant) ?? variant.item}
+                    {addedItems.has(variant.id) && <Check className="h-3 w-3 ml-1" />}
+                  </Button>
+                ))}
+              </div>
+            )}
             {/* Main Content - Split Layout */}
             <div className="flex flex-col gap-4 pt-4">
               {/* Image and Notes Row */}
@@ -844,6 +1205,12 @@ export function SpecialsModal({ isOpen, onClose, onItemsAdded, onModalClose }: S
                         )}
                       </div>
                       
+                      {unitPriceLabel(detailViewItem, detailViewItem.item) && (
+                        <p className="mt-2 text-center text-xs text-muted-foreground">
+                          {unitPriceLabel(detailViewItem, detailViewItem.item)}
+                        </p>
+                      )}
+
                       {/* Discount Description */}
                       {detailViewItem.discount && (
                         <div className="mt-2 text-center">
@@ -911,6 +1278,7 @@ export function SpecialsModal({ isOpen, onClose, onItemsAdded, onModalClose }: S
                   </div>
                 </div>
               </div>
+              <SpecialPriceHistory special={detailViewItem} />
             </div>
             
             {/* Action Buttons */}
@@ -953,6 +1321,12 @@ export function SpecialsModal({ isOpen, onClose, onItemsAdded, onModalClose }: S
           </DialogContent>
         </Dialog>
       )}
+      <CategoryPreferencesDialog
+        isOpen={preferencesOpen}
+        onClose={() => setPreferencesOpen(false)}
+        preferences={categoryPreferences.preferences}
+        onChange={categoryPreferences.setPreference}
+      />
     </>
   );
 }
@@ -0,0 +1,58 @@
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { STORES, formatPrice } from "@/services/priceComparison";
+import type { TripSummary } from "@/services/shoppingTrip";
+
+interface TripSummaryDialogProps {
+  summary: TripSummary | null;
+  onClose: () => void;
+}
+
+// Shown once a trip has been committed to purchase history
+export function TripSummaryDialog({ summary, onClose }: TripSummaryDialogProps) {
+  const storeLabel = STORES.find(s => s.id === summary?.store)?.label;
+
+  return (
+    <Dialog open={!!summary} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Trip done{storeLabel ? ` at ${storeLabel}` : ''}</DialogTitle>
+        </DialogHeader>
+        {summary && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-2 text-center">
+              {[
+                ['Spent', formatPrice(summary.spent)],
+                ['Items', String(summary.quantity)],
+                ['Minutes', String(summary.minutes)],
+              ].map(([label, value]) => (
+                <div key={label} className="rounded-lg border p-2">
+                  <div className="text-lg font-semibold">{value}</div>
+                  <div className="text-xs text-muted-foreground">{label}</div>
+                </div>
+              ))}
+            </div>
+            {summary.savings > 0 && (
+              <p className="text-sm text-green-700">Specials saved you {formatPrice(summary.savings)}.</p>
+            )}
+            {summary.unpriced > 0 && (
+              <p className="text-xs text-muted-foreground">
+                {summary.unpriced} item{summary.unpriced === 1 ? '' : 's'} had no price, so the total leaves {summary.unpriced === 1 ? 'it' : 'them'} out.
+              </p>
+            )}
+            <ul className="max-h-60 overflow-y-auto divide-y rounded-md border text-sm">
+              {summary.basket.map(entry => (
+                <li key={entry.itemId} className="flex justify-between px-3 py-1.5">
+                  <span>
+                    {entry.Item}
+                    {entry.quantity > 1 && <span className="text-muted-foreground"> ×{entry.quantity}</span>}
+                  </span>
+                  <span>{entry.pricePaid !== null ? formatPrice(entry.pricePaid * entry.quantity) : '—'}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
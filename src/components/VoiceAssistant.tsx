@@ -4,14 +4,16 @@ import { Button } from "@/components/ui/button";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
 import { Card } from "@/components/ui/card";
 import { useAudioRecorder } from "@/hooks/useAudioRecorder";
-import { parseVoiceToPlan, type ParsedPlan } from "@/services/voiceIntent";
+import { emptyPlan, isEmptyPlan, parseVoiceToPlan, type ParsedPlan } from "@/services/voiceIntent";
 import type { GroceryChecklistHandle } from "@/components/GroceryChecklist";
 
 type VoiceAssistantProps = {
   checklistRef: React.RefObject<GroceryChecklistHandle>;
+  // The list on screen; a plan is applied to the list shown when it was accepted
+  listId: number | null;
 };
 
-export function VoiceAssistant({ checklistRef }: VoiceAssistantProps) {
+export function VoiceAssistant({ checklistRef, listId }: VoiceAssistantProps) {
   const recorder = useAudioRecorder();
   const isMobile = /Android|iPhone|iPad|iPod/i.test(navigator.userAgent);
   
@@ -104,8 +106,8 @@ export function VoiceAssistant({ checklistRef }: VoiceAssistantProps) {
           await streamText(data.summary);
           
           // After streaming, process the plan
-          const llmPlan: ParsedPlan = (data?.plan ? { ...data.plan, raw } : { add: [], remove: [], adjust: [], raw });
-          const isClear = (llmPlan.add.length + llmPlan.remove.length + llmPlan.adjust.length) > 0;
+          const llmPlan: ParsedPlan = { ...emptyPlan(raw), ...data?.plan, raw };
+          const isClear = !isEmptyPlan(llmPlan);
           
           if (isClear) {
             setPlan(llmPlan);
@@ -160,23 +162,68 @@ export function VoiceAssistant({ checklistRef }: VoiceAssistantProps) {
       lines.push("Adjust:");
       for (const i of p.adjust) lines.push(`- ${i.delta > 0 ? `+${i.delta}` : i.delta} ${i.name}`);
     }
+    if (p.setQuantity.length) {
+      lines.push("Set quantity:");
+      for (const i of p.setQuantity) lines.push(`- ${i.name} to ${i.quantity}`);
+    }
+    if (p.rename.length) {
+      lines.push("Rename:");
+      for (const i of p.rename) lines.push(`- ${i.name} → ${i.to}`);
+    }
+    if (p.setNote.length) {
+      lines.push("Notes:");
+      for (const i of p.setNote) lines.push(`- ${i.name}: ${i.note ?? "(clear)"}`);
+    }
+    if (p.moveToBuyLater.length) {
+      lines.push("Buy later:");
+      for (const i of p.moveToBuyLater) lines.push(`- ${i.name}`);
+    }
+    if (p.moveToNow.length) {
+      lines.push("Back to list:");
+      for (const i of p.moveToNow) lines.push(`- ${i.name}`);
+    }
+    if (p.markPurchased.length) {
+      lines.push("Bought:");
+      for (const i of p.markPurchased) lines.push(`- ${i.quantity ? `${i.quantity} × ` : ''}${i.name}`);
+    }
+    if (p.addFromSaved.length) {
+      lines.push("Add from saved:");
+      for (const i of p.addFromSaved) lines.push(`- ${i.quantity ? `${i.quantity} × ` : ''}${i.name}`);
+    }
+    if (p.clearList) lines.push("Clear the whole list");
     if (!lines.length) return "I didn’t detect anything to change.";
     return lines.join("\n");
   };
 
   const executePlan = async () => {
-    if (!plan) return;
-    const api = checklistRef.current;
-    if (!api) return;
+    if (!plan || !checklistRef.current || !listId) return;
+    const targetListId = listId;
+    // Read before every step: the checklist rebuilds its handle whenever the list changes
+    const checklist = () => {
+      if (!checklistRef.current) throw new Error("The list was closed before all of your changes were applied.");
+      return checklistRef.current;
+    };
     setExecuting(true);
     try {
-      for (const adj of plan.adjust) await api.adjustQuantityByName(adj.name, adj.delta);
-      for (const rem of plan.remove) await api.removeByName(rem.name);
-      for (const add of plan.add) await api.addOrIncreaseByName(add.name, add.quantity ?? 1, add.note);
+      // Clearing goes first so anything added in the same breath survives it
+      if (plan.clearList) await checklist().clearList(targetListId);
+      for (const ren of plan.rename) await checklist().renameByName(ren.name, ren.to, targetListId);
+      for (const set of plan.setQuantity) await checklist().setQuantityByName(set.name, set.quantity, targetListId);
+      for (const note of plan.setNote) await checklist().setNoteByName(note.name, note.note, targetListId);
+      for (const later of plan.moveToBuyLater) await checklist().setBuyLaterByName(later.name, true, targetListId);
+      for (const now of plan.moveToNow) await checklist().setBuyLaterByName(now.name, false, targetListId);
+      for (const bought of plan.markPurchased) await checklist().markPurchasedByName(bought.name, bought.quantity, targetListId);
+      for (const adj of plan.adjust) await checklist().adjustQuantityByName(adj.name, adj.delta, targetListId);
+      for (const rem of plan.remove) await checklist().removeByName(rem.name, targetListId);
+      for (const add of plan.add) await checklist().addOrIncreaseByName(add.name, add.quantity ?? 1, add.note, targetListId);
+      for (const saved of plan.addFromSaved) await checklist().addFromSavedByName(saved.name, saved.quantity, targetListId);
       setMessages((prev) => [...prev, { role: "assistant", content: "Applied your changes." }]);
       // Close the dialog after 1 second
       setTimeout(() => setChatOpen(false), 1000);
       setPlan(null);
+    } catch (e) {
+      const message = e instanceof Error ? e.message : "Something went wrong.";
+      setMessages((prev) => [...prev, { role: "assistant", content: `Not all of your changes were applied. ${message}` }]);
     } finally {
       setExecuting(false);
     }
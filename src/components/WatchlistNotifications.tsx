@@ -0,0 +1,81 @@
+import { Bell, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import type { SpecialMatch } from "@/hooks/useSpecialMatches";
+
+interface WatchlistNotificationsProps {
+  matches: SpecialMatch[];
+  unseenCount: number;
+  onOpen: () => void;
+  onDismiss: (matchId: number) => void;
+  onViewSpecials: () => void;
+}
+
+export function WatchlistNotifications({ matches, unseenCount, onOpen, onDismiss, onViewSpecials }: WatchlistNotificationsProps) {
+  return (
+    <Popover onOpenChange={(open) => { if (open) onOpen(); }}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className="relative" title="Tracked items on special">
+          <Bell className="h-4 w-4" />
+          {unseenCount > 0 && (
+            <span className="absolute -top-1.5 -right-1.5 min-w-[1.1rem] h-[1.1rem] px-1 rounded-full bg-red-500 text-white text-[10px] leading-[1.1rem] text-center">
+              {unseenCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="px-4 py-3 border-b">
+          <div className="font-semibold text-sm">Tracked items on special</div>
+          <div className="text-xs text-muted-foreground">Track items from an item's details or your purchase history.</div>
+        </div>
+        <div className="max-h-80 overflow-y-auto">
+          {matches.length === 0 ? (
+            <div className="px-4 py-6 text-center text-sm text-muted-foreground">
+              None of your tracked items are on special right now.
+            </div>
+          ) : (
+            matches.map(match => (
+              <div key={match.id} className="flex items-center gap-3 px-4 py-2 border-b last:border-b-0">
+                {match.specials?.img ? (
+                  <img src={match.specials.img} alt={match.specials.item} className="w-10 h-10 object-contain rounded flex-shrink-0" />
+                ) : (
+                  <div className="w-10 h-10 rounded bg-muted flex-shrink-0" />
+                )}
+                <div className="flex-1 min-w-0">
+                  <div className="text-sm font-medium break-words">
+                    {match.specials?.item}
+                    {!match.seen_at && <span className="ml-1 inline-block w-2 h-2 rounded-full bg-red-500 align-middle" />}
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {match.specials?.price}
+                    {match.specials?.discount_percentage && (
+                      <span className="ml-1 font-semibold text-red-600">{match.specials.discount_percentage} off</span>
+                    )}
+                  </div>
+                  <div className="text-xs text-muted-foreground">Tracking "{match.tracked_items?.item_name}"</div>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onDismiss(match.id)}
+                  className="h-7 w-7 p-0 text-muted-foreground"
+                  title="Dismiss"
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+        {matches.length > 0 && (
+          <div className="p-2 border-t">
+            <Button size="sm" variant="outline" className="w-full" onClick={onViewSpecials}>
+              View specials
+            </Button>
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,41 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { CategoryPreference, CategoryPreferences } from "@/services/categoryPreferences";
+
+// The user's preferred and muted specials categories
+export function useCategoryPreferences() {
+  const [preferences, setPreferences] = useState<CategoryPreferences>(new Map());
+
+  const refresh = useCallback(async () => {
+    const { data, error } = await supabase
+      .from("category_preferences")
+      .select("category, preference");
+    if (error) return;
+    setPreferences(new Map((data || []).map(row => [row.category, row.preference as CategoryPreference])));
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // null goes back to no preference
+  const setPreference = useCallback(async (category: string, preference: CategoryPreference | null) => {
+    const { error } = preference
+      ? await supabase
+          .from("category_preferences")
+          .upsert({ category, preference }, { onConflict: "user_id,category" })
+      : await supabase
+          .from("category_preferences")
+          .delete()
+          .eq("category", category);
+    if (error) throw error;
+    setPreferences(prev => {
+      const next = new Map(prev);
+      if (preference) next.set(category, preference);
+      else next.delete(category);
+      return next;
+    });
+  }, []);
+
+  return { preferences, setPreference, refresh };
+}
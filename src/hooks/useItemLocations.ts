@@ -0,0 +1,37 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { normalizePlural } from "@/lib/utils";
+import { resolveLocation, type ItemLocation } from "@/services/storeLayout";
+
+// The user's own section/aisle overrides, per store
+export function useItemLocations() {
+  const [locations, setLocations] = useState<ItemLocation[]>([]);
+
+  const refresh = useCallback(async () => {
+    const { data, error } = await supabase
+      .from("item_locations")
+      .select("store, normalized_name, section, aisle");
+    if (error) return;
+    setLocations(data || []);
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const locationFor = useCallback(
+    (itemName: string, store: string | null, category?: string | null) => resolveLocation(itemName, store, locations, category),
+    [locations]
+  );
+
+  const saveLocation = useCallback(async (itemName: string, store: string, section: string, aisle: string | null) => {
+    const row = { store, normalized_name: normalizePlural(itemName), section, aisle: aisle?.trim() || null };
+    const { error } = await supabase
+      .from("item_locations")
+      .upsert({ ...row, updated_at: new Date().toISOString() }, { onConflict: "user_id,store,normalized_name" });
+    if (error) throw error;
+    setLocations(prev => [...prev.filter(l => !(l.store === row.store && l.normalized_name === row.normalized_name)), row]);
+  }, []);
+
+  return { locations, locationFor, saveLocation, refresh };
+}
@@ -0,0 +1,44 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Money } from "@/integrations/supabase/types";
+import { DEFAULT_CURRENCY } from "@/services/money";
+
+// The signed-in user's budget for one shop of a list
+export function useListBudget(listId: number | null) {
+  const [budget, setBudgetState] = useState<Money | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!listId) {
+      setBudgetState(null);
+      return;
+    }
+    const { data, error } = await supabase
+      .from("list_budgets")
+      .select("amount_cents, currency")
+      .eq("list_id", listId)
+      .maybeSingle();
+    if (error) return;
+    setBudgetState(data ? { cents: data.amount_cents, currency: data.currency } : null);
+  }, [listId]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // null clears the budget
+  const setBudget = useCallback(async (cents: number | null) => {
+    if (!listId) return;
+    const { error } = cents
+      ? await supabase
+          .from("list_budgets")
+          .upsert({ list_id: listId, amount_cents: cents }, { onConflict: "user_id,list_id" })
+      : await supabase
+          .from("list_budgets")
+          .delete()
+          .eq("list_id", listId);
+    if (error) throw error;
+    setBudgetState(cents ? { cents, currency: budget?.currency ?? DEFAULT_CURRENCY } : null);
+  }, [listId, budget]);
+
+  return { budget, setBudget, refresh };
+}
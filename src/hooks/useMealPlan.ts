@@ -0,0 +1,50 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { isoDate } from "@/services/catalogueWeeks";
+import type { MealPlanEntry } from "@/services/mealPlan";
+
+// Meals planned for the seven days starting at weekStart
+export function useMealPlan(weekStart: Date) {
+  const [entries, setEntries] = useState<MealPlanEntry[]>([]);
+  const from = isoDate(weekStart);
+  const to = isoDate(new Date(weekStart.getFullYear(), weekStart.getMonth(), weekStart.getDate() + 6));
+
+  const refresh = useCallback(async () => {
+    const { data, error } = await supabase
+      .from("meal_plan_entries")
+      .select("id, planned_on, recipe_id, servings")
+      .gte("planned_on", from)
+      .lte("planned_on", to)
+      .order("created_at", { ascending: true });
+    if (error) return;
+    setEntries(data || []);
+  }, [from, to]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const addEntry = useCallback(async (plannedOn: string, recipeId: number, servings: number) => {
+    const { data, error } = await supabase
+      .from("meal_plan_entries")
+      .insert({ planned_on: plannedOn, recipe_id: recipeId, servings })
+      .select("id, planned_on, recipe_id, servings")
+      .single();
+    if (error) throw error;
+    setEntries(prev => [...prev, data]);
+  }, []);
+
+  const updateServings = useCallback(async (entryId: number, servings: number) => {
+    const { error } = await supabase.from("meal_plan_entries").update({ servings }).eq("id", entryId);
+    if (error) throw error;
+    setEntries(prev => prev.map(entry => (entry.id === entryId ? { ...entry, servings } : entry)));
+  }, []);
+
+  const removeEntry = useCallback(async (entryId: number) => {
+    const { error } = await supabase.from("meal_plan_entries").delete().eq("id", entryId);
+    if (error) throw error;
+    setEntries(prev => prev.filter(entry => entry.id !== entryId));
+  }, []);
+
+  return { entries, addEntry, updateServings, removeEntry, refresh };
+}
@@ -0,0 +1,62 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { normalizePlural } from "@/lib/utils";
+import type { PantryItem } from "@/services/pantry";
+
+type PantryUpdate = Pick<Database["public"]["Tables"]["pantry_items"]["Update"], "quantity" | "expires_on" | "restock_below">;
+
+// The user's pantry. Purchases stock it on the server, so refresh after shopping to see them.
+export function usePantry() {
+  const [items, setItems] = useState<PantryItem[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    const { data, error } = await supabase.from("pantry_items").select("*");
+    setLoading(false);
+    if (error) return;
+    setItems(data || []);
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Adding something already in the pantry tops it up instead
+  const addItem = useCallback(async (name: string, quantity: number) => {
+    const normalized = normalizePlural(name);
+    const existing = items.find(item => item.normalized_name === normalized);
+    if (existing) {
+      const { data, error } = await supabase
+        .from("pantry_items")
+        .update({ quantity: existing.quantity + quantity })
+        .eq("id", existing.id)
+        .select()
+        .single();
+      if (error) throw error;
+      setItems(prev => prev.map(item => (item.id === data.id ? data : item)));
+      return;
+    }
+    const { data, error } = await supabase
+      .from("pantry_items")
+      .insert({ item: name.trim(), normalized_name: normalized, quantity })
+      .select()
+      .single();
+    if (error) throw error;
+    setItems(prev => [...prev, data]);
+  }, [items]);
+
+  const updateItem = useCallback(async (itemId: number, changes: PantryUpdate) => {
+    const { error } = await supabase.from("pantry_items").update(changes).eq("id", itemId);
+    if (error) throw error;
+    setItems(prev => prev.map(item => (item.id === itemId ? { ...item, ...changes } : item)));
+  }, []);
+
+  const removeItem = useCallback(async (itemId: number) => {
+    const { error } = await supabase.from("pantry_items").delete().eq("id", itemId);
+    if (error) throw error;
+    setItems(prev => prev.filter(item => item.id !== itemId));
+  }, []);
+
+  return { items, loading, addItem, updateItem, removeItem, refresh };
+}
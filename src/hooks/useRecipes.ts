@@ -0,0 +1,74 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Recipe, RecipeIngredient } from "@/services/mealPlan";
+
+export type RecipeDraft = {
+  id?: number;
+  name: string;
+  servings: number;
+  notes: string | null;
+  ingredients: RecipeIngredient[];
+};
+
+// The user's recipes with their ingredient lines, in order
+export function useRecipes() {
+  const [recipes, setRecipes] = useState<Recipe[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    const { data, error } = await supabase
+      .from("recipes")
+      .select("id, name, servings, notes, recipe_ingredients(id, name, quantity, unit, notes, position)")
+      .order("name", { ascending: true });
+    setLoading(false);
+    if (error) return;
+    setRecipes((data || []).map(recipe => ({
+      ...recipe,
+      recipe_ingredients: [...recipe.recipe_ingredients].sort((a, b) => a.position - b.position),
+    })));
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Ingredient lines are replaced wholesale; recipes are short enough that diffing isn't worth it
+  const saveRecipe = useCallback(async (draft: RecipeDraft): Promise<number> => {
+    const fields = { name: draft.name.trim(), servings: draft.servings, notes: draft.notes };
+    let recipeId = draft.id;
+    if (recipeId) {
+      const { error } = await supabase.from("recipes").update(fields).eq("id", recipeId);
+      if (error) throw error;
+      const { error: deleteError } = await supabase.from("recipe_ingredients").delete().eq("recipe_id", recipeId);
+      if (deleteError) throw deleteError;
+    } else {
+      const { data, error } = await supabase.from("recipes").insert(fields).select("id").single();
+      if (error) throw error;
+      recipeId = data.id;
+    }
+    const lines = draft.ingredients
+      .filter(ingredient => ingredient.name.trim())
+      .map((ingredient, position) => ({
+        recipe_id: recipeId!,
+        position,
+        name: ingredient.name.trim(),
+        quantity: ingredient.quantity && ingredient.quantity > 0 ? ingredient.quantity : null,
+        unit: ingredient.unit?.trim() || null,
+        notes: ingredient.notes?.trim() || null,
+      }));
+    if (lines.length > 0) {
+      const { error } = await supabase.from("recipe_ingredients").insert(lines);
+      if (error) throw error;
+    }
+    await refresh();
+    return recipeId!;
+  }, [refresh]);
+
+  const deleteRecipe = useCallback(async (recipeId: number) => {
+    const { error } = await supabase.from("recipes").delete().eq("id", recipeId);
+    if (error) throw error;
+    setRecipes(prev => prev.filter(recipe => recipe.id !== recipeId));
+  }, []);
+
+  return { recipes, loading, saveRecipe, deleteRecipe, refresh };
+}
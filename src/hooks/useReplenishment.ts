@@ -0,0 +1,57 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { normalizePlural } from "@/lib/utils";
+import {
+  predictReplenishment,
+  snoozeSuggestion,
+  dismissSuggestion,
+  isHidden,
+  type ReplenishmentEvent,
+  type ReplenishmentSuggestion,
+} from "@/services/replenishment";
+
+// Enough history to see a monthly habit three times over
+const HISTORY_DAYS = 120;
+
+// Staples that are probably running low, leaving out anything already on the list
+export function useReplenishment(listItemNames: string[]) {
+  const [events, setEvents] = useState<ReplenishmentEvent[]>([]);
+  // Moved on when a suggestion is snoozed or dismissed so the hidden check runs again
+  const [checkedAt, setCheckedAt] = useState(() => Date.now());
+
+  const refresh = useCallback(async () => {
+    const since = new Date(Date.now() - HISTORY_DAYS * 24 * 60 * 60 * 1000).toISOString();
+    const { data, error } = await supabase
+      .from("purchase_events")
+      .select("item, normalized_name, quantity, purchased_at")
+      .gte("purchased_at", since);
+    if (error) return;
+    setEvents(data || []);
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const suggestions = useMemo(() => {
+    const onList = new Set(listItemNames.map(normalizePlural));
+    return predictReplenishment(events).filter(s => !onList.has(s.key) && !isHidden(s, checkedAt));
+  }, [events, listItemNames, checkedAt]);
+
+  // Counts a purchase straight away, including one still queued offline, so it isn't suggested again
+  const notePurchase = useCallback((event: ReplenishmentEvent) => {
+    setEvents(prev => [...prev, event]);
+  }, []);
+
+  const snooze = useCallback((suggestion: ReplenishmentSuggestion) => {
+    snoozeSuggestion(suggestion.key);
+    setCheckedAt(Date.now());
+  }, []);
+
+  const dismiss = useCallback((suggestion: ReplenishmentSuggestion) => {
+    dismissSuggestion(suggestion);
+    setCheckedAt(Date.now());
+  }, []);
+
+  return { suggestions, notePurchase, snooze, dismiss, refresh };
+}
@@ -0,0 +1,58 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  loadTripSession,
+  saveTripSession,
+  startTripSession,
+  pickItem,
+  unpickItem,
+  setPricePaid,
+  replaceTripItemIds,
+  type BasketEntry,
+  type TripSession,
+} from "@/services/shoppingTrip";
+
+// The trip in progress on a list, if "Start shopping" has been pressed
+export function useShoppingTrip(listId: number | null) {
+  const [session, setSession] = useState<TripSession | null>(() => (listId ? loadTripSession(listId) : null));
+
+  useEffect(() => {
+    setSession(listId ? loadTripSession(listId) : null);
+  }, [listId]);
+
+  const update = useCallback((next: TripSession | null) => {
+    const tripListId = next?.listId ?? listId;
+    if (tripListId) saveTripSession(tripListId, next);
+    setSession(next);
+  }, [listId]);
+
+  const start = useCallback((store: string | null) => {
+    if (listId) update(startTripSession(listId, store));
+  }, [listId, update]);
+
+  const pick = useCallback((entry: Omit<BasketEntry, 'sequence' | 'pickedAt'>) => {
+    if (session) update(pickItem(session, entry));
+  }, [session, update]);
+
+  const unpick = useCallback((itemId: number) => {
+    if (session) update(unpickItem(session, itemId));
+  }, [session, update]);
+
+  const setPrice = useCallback((itemId: number, pricePaid: number | null) => {
+    if (session) update(setPricePaid(session, itemId, pricePaid));
+  }, [session, update]);
+
+  // Once items created offline have synced, their picks follow them to their server ids. Reads
+  // the saved session, since this runs after a sync that may have started several renders ago.
+  const replaceItemIds = useCallback((ids: Record<number, number>) => {
+    const current = listId ? loadTripSession(listId) : null;
+    if (current) update(replaceTripItemIds(current, ids));
+  }, [listId, update]);
+
+  // Ends the trip without recording anything (also used once a trip has been committed)
+  const end = useCallback(() => update(null), [update]);
+
+  // Brings back a trip that was cancelled by mistake
+  const resume = useCallback((previous: TripSession) => update(previous), [update]);
+
+  return { session, start, pick, unpick, setPrice, replaceItemIds, end, resume };
+}
@@ -0,0 +1,67 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { isExpired } from "@/services/catalogueWeeks";
+
+export type SpecialMatch = {
+  id: number;
+  created_at: string;
+  seen_at: string | null;
+  tracked_items: { item_name: string } | null;
+  specials: {
+    id: number;
+    item: string;
+    price: string | null;
+    discount_percentage: string | null;
+    img: string | null;
+    on_special: boolean;
+    valid_from: string | null;
+    valid_to: string | null;
+  } | null;
+};
+
+// Tracked items currently on special, newest first, with live updates as catalogues are imported
+export function useSpecialMatches() {
+  const [matches, setMatches] = useState<SpecialMatch[]>([]);
+
+  const refresh = useCallback(async () => {
+    const { data, error } = await supabase
+      .from("special_matches")
+      .select("id, created_at, seen_at, tracked_items(item_name), specials(id, item, price, discount_percentage, img, on_special, valid_from, valid_to)")
+      .order("created_at", { ascending: false });
+    if (error) return;
+    // Specials that have since ended are no longer worth showing
+    setMatches(((data || []) as SpecialMatch[]).filter(m => m.specials?.on_special && !isExpired(m.specials)));
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    const channel = supabase
+      .channel("special-matches")
+      .on("postgres_changes", { event: "INSERT", schema: "public", table: "special_matches" }, () => refresh())
+      .subscribe();
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [refresh]);
+
+  const markAllSeen = useCallback(async () => {
+    const unseenIds = matches.filter(m => !m.seen_at).map(m => m.id);
+    if (unseenIds.length === 0) return;
+    const seenAt = new Date().toISOString();
+    setMatches(prev => prev.map(m => (unseenIds.includes(m.id) ? { ...m, seen_at: seenAt } : m)));
+    await supabase.from("special_matches").update({ seen_at: seenAt }).in("id", unseenIds);
+  }, [matches]);
+
+  const dismiss = useCallback(async (matchId: number) => {
+    setMatches(prev => prev.filter(m => m.id !== matchId));
+    await supabase.from("special_matches").delete().eq("id", matchId);
+  }, []);
+
+  return {
+    matches,
+    unseenCount: matches.filter(m => !m.seen_at).length,
+    markAllSeen,
+    dismiss,
+    refresh,
+  };
+}
@@ -0,0 +1,52 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { getCategoryForItem, normalizePlural } from "@/lib/utils";
+
+export type TrackedSource = "Grocery list" | "SavedlistItems" | "Purchase history";
+
+// Names on the user's watchlist, keyed by normalized name so "Apples" and "apple" are one entry
+export function useTrackedItems() {
+  const [tracked, setTracked] = useState<Map<string, number>>(new Map());
+
+  const refresh = useCallback(async () => {
+    const { data, error } = await supabase
+      .from("tracked_items")
+      .select("id, normalized_name");
+    if (error) return;
+    setTracked(new Map((data || []).map(row => [row.normalized_name, row.id])));
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const isTracked = useCallback((itemName: string) => tracked.has(normalizePlural(itemName)), [tracked]);
+
+  const toggleTracked = useCallback(
+    async (itemName: string, source: TrackedSource, category?: string | null): Promise<boolean> => {
+      const normalized = normalizePlural(itemName);
+      const existingId = tracked.get(normalized);
+      if (existingId) {
+        const { error } = await supabase.from("tracked_items").delete().eq("id", existingId);
+        if (error) throw error;
+        setTracked(prev => {
+          const next = new Map(prev);
+          next.delete(normalized);
+          return next;
+        });
+        return false;
+      }
+      const { data, error } = await supabase
+        .from("tracked_items")
+        .insert({ item_name: itemName.trim(), normalized_name: normalized, category: category || getCategoryForItem(itemName), source })
+        .select("id")
+        .single();
+      if (error) throw error;
+      setTracked(prev => new Map(prev).set(normalized, data.id));
+      return true;
+    },
+    [tracked]
+  );
+
+  return { isTracked, toggleTracked, refresh };
+}
@@ -25,11 +25,21 @@ export type Database = {
           price: string | null
           discount: string | null
           discount_percentage: string | null
+          price_cents: number | null
+          discount_cents: number | null
+          discount_percent: number | null
+          currency: string
+          unit_size: number | null
+          unit: Database["public"]["Enums"]["measure_unit"] | null
           notes: string | null
           img: string | null
           link: string | null
           auto_icon: string | null
+          category: string | null
           buy_later: boolean
+          list_id: number | null
+          variant: string | null
+          recipe_id: number | null
         }
         Insert: {
           created_at?: string
@@ -41,11 +51,21 @@ export type Database = {
           price?: string | null
           discount?: string | null
           discount_percentage?: string | null
+          price_cents?: number | null
+          discount_cents?: number | null
+          discount_percent?: number | null
+          currency?: string
+          unit_size?: number | null
+          unit?: Database["public"]["Enums"]["measure_unit"] | null
           notes?: string | null
           img?: string | null
           link?: string | null
           auto_icon?: string | null
+          category?: string | null
           buy_later?: boolean
+          list_id?: number | null
+          variant?: string | null
+          recipe_id?: number | null
         }
         Update: {
           created_at?: string
@@ -57,16 +77,408 @@ export type Database = {
           price?: string | null
           discount?: string | null
           discount_percentage?: string | null
+          price_cents?: number | null
+          discount_cents?: number | null
+          discount_percent?: number | null
+          currency?: string
+          unit_size?: number | null
+          unit?: Database["public"]["Enums"]["measure_unit"] | null
           notes?: string | null
           img?: string | null
           link?: string | null
           auto_icon?: string | null
+          category?: string | null
           buy_later?: boolean
+          list_id?: number | null
+          variant?: string | null
+          recipe_id?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "Grocery list_list_id_fkey"
+            columns: ["list_id"]
+            isOneToOne: false
+            referencedRelation: "lists"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "Grocery list_recipe_id_fkey"
+            columns: ["recipe_id"]
+            isOneToOne: false
+            referencedRelation: "recipes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      category_preferences: {
+        Row: {
+          category: string
+          created_at: string
+          id: number
+          preference: string
+          user_id: string
+        }
+        Insert: {
+          category: string
+          created_at?: string
+          id?: number
+          preference: string
+          user_id?: string
+        }
+        Update: {
+          category?: string
+          created_at?: string
+          id?: number
+          preference?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      item_locations: {
+        Row: {
+          aisle: string | null
+          created_at: string
+          id: number
+          normalized_name: string
+          section: string
+          store: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          aisle?: string | null
+          created_at?: string
+          id?: number
+          normalized_name: string
+          section: string
+          store?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Update: {
+          aisle?: string | null
+          created_at?: string
+          id?: number
+          normalized_name?: string
+          section?: string
+          store?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      meal_plan_entries: {
+        Row: {
+          created_at: string
+          id: number
+          planned_on: string
+          recipe_id: number
+          servings: number
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: number
+          planned_on: string
+          recipe_id: number
+          servings: number
+          user_id?: string
+        }
+        Update: {
+          created_at?: string
+          id?: number
+          planned_on?: string
+          recipe_id?: number
+          servings?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "meal_plan_entries_recipe_id_fkey"
+            columns: ["recipe_id"]
+            isOneToOne: false
+            referencedRelation: "recipes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      lists: {
+        Row: {
+          created_at: string
+          id: number
+          user_id: string
+          name: string
+          order: number
+        }
+        Insert: {
+          created_at?: string
+          id?: number
+          user_id?: string
+          name: string
+          order?: number
+        }
+        Update: {
+          created_at?: string
+          id?: number
+          user_id?: string
+          name?: string
+          order?: number
+        }
+        Relationships: []
+      }
+      list_budgets: {
+        Row: {
+          amount_cents: number
+          created_at: string
+          currency: string
+          id: number
+          list_id: number
+          user_id: string
+        }
+        Insert: {
+          amount_cents: number
+          created_at?: string
+          currency?: string
+          id?: number
+          list_id: number
+          user_id?: string
+        }
+        Update: {
+          amount_cents?: number
+          created_at?: string
+          currency?: string
+          id?: number
+          list_id?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "list_budgets_list_id_fkey"
+            columns: ["list_id"]
+            isOneToOne: false
+            referencedRelation: "lists"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      list_invites: {
+        Row: {
+          id: number
+          created_at: string
+          list_id: number
+          email: string | null
+          code: string
+          role: string
+          invited_by: string
+          expires_at: string
+          accepted_at: string | null
+        }
+        Insert: {
+          id?: number
+          created_at?: string
+          list_id: number
+          email?: string | null
+          code: string
+          role?: string
+          invited_by?: string
+          expires_at?: string
+          accepted_at?: string | null
+        }
+        Update: {
+          id?: number
+          created_at?: string
+          list_id?: number
+          email?: string | null
+          code?: string
+          role?: string
+          invited_by?: string
+          expires_at?: string
+          accepted_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "list_invites_list_id_fkey"
+            columns: ["list_id"]
+            isOneToOne: false
+            referencedRelation: "lists"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      list_members: {
+        Row: {
+          list_id: number
+          user_id: string
+          role: string
+          email: string | null
+          created_at: string
+        }
+        Insert: {
+          list_id: number
+          user_id: string
+          role?: string
+          email?: string | null
+          created_at?: string
+        }
+        Update: {
+          list_id?: number
+          user_id?: string
+          role?: string
+          email?: string | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "list_members_list_id_fkey"
+            columns: ["list_id"]
+            isOneToOne: false
+            referencedRelation: "lists"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      products: {
+        Row: {
+          category: string | null
+          created_at: string
+          id: number
+          name: string
+          normalized_name: string
+        }
+        Insert: {
+          category?: string | null
+          created_at?: string
+          id?: number
+          name: string
+          normalized_name: string
+        }
+        Update: {
+          category?: string | null
+          created_at?: string
+          id?: number
+          name?: string
+          normalized_name?: string
         }
         Relationships: []
       }
+      pantry_items: {
+        Row: {
+          created_at: string
+          expires_on: string | null
+          id: number
+          item: string
+          last_purchased_at: string | null
+          list_id: number | null
+          normalized_name: string
+          quantity: number
+          restock_below: number | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          expires_on?: string | null
+          id?: number
+          item: string
+          last_purchased_at?: string | null
+          list_id?: number | null
+          normalized_name: string
+          quantity?: number
+          restock_below?: number | null
+          user_id?: string
+        }
+        Update: {
+          created_at?: string
+          expires_on?: string | null
+          id?: number
+          item?: string
+          last_purchased_at?: string | null
+          list_id?: number | null
+          normalized_name?: string
+          quantity?: number
+          restock_below?: number | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "pantry_items_list_id_fkey"
+            columns: ["list_id"]
+            isOneToOne: false
+            referencedRelation: "lists"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      purchase_events: {
+        Row: {
+          category: string | null
+          client_event_id: string | null
+          created_at: string
+          id: number
+          img: string | null
+          item: string
+          list_id: number | null
+          normalized_name: string
+          price_paid: number | null
+          purchased_at: string
+          quantity: number
+          savings: number | null
+          sequence: number
+          store: string | null
+          trip_id: string
+          user_id: string
+          variant: string | null
+        }
+        Insert: {
+          category?: string | null
+          client_event_id?: string | null
+          created_at?: string
+          id?: number
+          img?: string | null
+          item: string
+          list_id?: number | null
+          normalized_name: string
+          price_paid?: number | null
+          purchased_at?: string
+          quantity?: number
+          savings?: number | null
+          sequence: number
+          store?: string | null
+          trip_id: string
+          user_id?: string
+          variant?: string | null
+        }
+        Update: {
+          category?: string | null
+          client_event_id?: string | null
+          created_at?: string
+          id?: number
+          img?: string | null
+          item?: string
+          list_id?: number | null
+          normalized_name?: string
+          price_paid?: number | null
+          purchased_at?: string
+          quantity?: number
+          savings?: number | null
+          sequence?: number
+          store?: string | null
+          trip_id?: string
+          user_id?: string
+          variant?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "purchase_events_list_id_fkey"
+            columns: ["list_id"]
+            isOneToOne: false
+            referencedRelation: "lists"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       "Purchase history": {
         Row: {
+          category: string | null
           created_at: string
           id: number
           Item: string
@@ -75,6 +487,7 @@ export type Database = {
           user_id: string | null
         }
         Insert: {
+          category?: string | null
           created_at?: string
           id?: number
           Item: string
@@ -83,6 +496,7 @@ export type Database = {
           user_id?: string | null
         }
         Update: {
+          category?: string | null
           created_at?: string
           id?: number
           Item?: string
@@ -92,6 +506,71 @@ export type Database = {
         }
         Relationships: []
       }
+      recipe_ingredients: {
+        Row: {
+          id: number
+          name: string
+          notes: string | null
+          position: number
+          quantity: number | null
+          recipe_id: number
+          unit: string | null
+        }
+        Insert: {
+          id?: number
+          name: string
+          notes?: string | null
+          position?: number
+          quantity?: number | null
+          recipe_id: number
+          unit?: string | null
+        }
+        Update: {
+          id?: number
+          name?: string
+          notes?: string | null
+          position?: number
+          quantity?: number | null
+          recipe_id?: number
+          unit?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "recipe_ingredients_recipe_id_fkey"
+            columns: ["recipe_id"]
+            isOneToOne: false
+            referencedRelation: "recipes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      recipes: {
+        Row: {
+          created_at: string
+          id: number
+          name: string
+          notes: string | null
+          servings: number
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: number
+          name: string
+          notes?: string | null
+          servings?: number
+          user_id?: string
+        }
+        Update: {
+          created_at?: string
+          id?: number
+          name?: string
+          notes?: string | null
+          servings?: number
+          user_id?: string
+        }
+        Relationships: []
+      }
       SavedlistItems: {
         Row: {
           created_at: string
@@ -104,9 +583,16 @@ export type Database = {
           price: string | null
           discount: string | null
           discount_percentage: string | null
+          price_cents: number | null
+          discount_cents: number | null
+          discount_percent: number | null
+          currency: string
+          unit_size: number | null
+          unit: Database["public"]["Enums"]["measure_unit"] | null
           notes: string | null
           link: string | null
           auto_icon: string | null
+          category: string | null
         }
         Insert: {
           created_at?: string
@@ -118,10 +604,17 @@ export type Database = {
           img?: string | null
           price?: string | null
           discount?: string | null
-          discount_percentage?: number | null
+          discount_percentage?: string | null
+          price_cents?: number | null
+          discount_cents?: number | null
+          discount_percent?: number | null
+          currency?: string
+          unit_size?: number | null
+          unit?: Database["public"]["Enums"]["measure_unit"] | null
           notes?: string | null
           link?: string | null
           auto_icon?: string | null
+          category?: string | null
         }
         Update: {
           created_at?: string
@@ -133,13 +626,109 @@ export type Database = {
           img?: string | null
           price?: string | null
           discount?: string | null
-          discount_percentage?: number | null
+          discount_percentage?: string | null
+          price_cents?: number | null
+          discount_cents?: number | null
+          discount_percent?: number | null
+          currency?: string
+          unit_size?: number | null
+          unit?: Database["public"]["Enums"]["measure_unit"] | null
           notes?: string | null
           link?: string | null
           auto_icon?: string | null
+          category?: string | null
         }
         Relationships: []
       }
+      shopping_trips: {
+        Row: {
+          created_at: string
+          finished_at: string
+          id: string
+          item_count: number
+          list_id: number | null
+          savings: number | null
+          started_at: string
+          store: string | null
+          total_paid: number | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          finished_at?: string
+          id: string
+          item_count?: number
+          list_id?: number | null
+          savings?: number | null
+          started_at: string
+          store?: string | null
+          total_paid?: number | null
+          user_id?: string
+        }
+        Update: {
+          created_at?: string
+          finished_at?: string
+          id?: string
+          item_count?: number
+          list_id?: number | null
+          savings?: number | null
+          started_at?: string
+          store?: string | null
+          total_paid?: number | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "shopping_trips_list_id_fkey"
+            columns: ["list_id"]
+            isOneToOne: false
+            referencedRelation: "lists"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      special_matches: {
+        Row: {
+          created_at: string
+          id: number
+          seen_at: string | null
+          special_id: number
+          tracked_item_id: number
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: number
+          seen_at?: string | null
+          special_id: number
+          tracked_item_id: number
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: number
+          seen_at?: string | null
+          special_id?: number
+          tracked_item_id?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "special_matches_special_id_fkey"
+            columns: ["special_id"]
+            isOneToOne: false
+            referencedRelation: "specials"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "special_matches_tracked_item_id_fkey"
+            columns: ["tracked_item_id"]
+            isOneToOne: false
+            referencedRelation: "tracked_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       specials: {
         Row: {
           created_at: string
@@ -147,13 +736,25 @@ export type Database = {
           item: string
           quantity: number
           category: string | null
+          app_category: string | null
           price: string | null
           discount: string | null
           catalogue_date: string | null
           on_special: boolean
           discount_percentage: string | null
+          price_cents: number | null
+          discount_cents: number | null
+          discount_percent: number | null
+          currency: string
+          unit_size: number | null
+          unit: Database["public"]["Enums"]["measure_unit"] | null
           img: string | null
           link: string | null
+          product_id: number | null
+          variant: string | null
+          valid_from: string | null
+          valid_to: string | null
+          normalized_item: string | null
         }
         Insert: {
           created_at?: string
@@ -161,13 +762,25 @@ export type Database = {
           item: string
           quantity?: number
           category?: string | null
+          app_category?: string | null
           price?: string | null
           discount?: string | null
           catalogue_date?: string | null
           on_special?: boolean
           discount_percentage?: string | null
+          price_cents?: number | null
+          discount_cents?: number | null
+          discount_percent?: number | null
+          currency?: string
+          unit_size?: number | null
+          unit?: Database["public"]["Enums"]["measure_unit"] | null
           img?: string | null
           link?: string | null
+          product_id?: number | null
+          variant?: string | null
+          valid_from?: string | null
+          valid_to?: string | null
+          normalized_item?: never
         }
         Update: {
           created_at?: string
@@ -175,13 +788,99 @@ export type Database = {
           item?: string
           quantity?: number
           category?: string | null
+          app_category?: string | null
           price?: string | null
           discount?: string | null
           catalogue_date?: string | null
           on_special?: boolean
           discount_percentage?: string | null
+          price_cents?: number | null
+          discount_cents?: number | null
+          discount_percent?: number | null
+          currency?: string
+          unit_size?: number | null
+          unit?: Database["public"]["Enums"]["measure_unit"] | null
           img?: string | null
           link?: string | null
+          product_id?: number | null
+          variant?: string | null
+          valid_from?: string | null
+          valid_to?: string | null
+          normalized_item?: never
+        }
+        Relationships: [
+          {
+            foreignKeyName: "specials_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      store_prices: {
+        Row: {
+          captured_at: string
+          created_at: string
+          id: number
+          link: string | null
+          price: number
+          product_name: string
+          store: string
+          unit: string | null
+          unit_price: number | null
+        }
+        Insert: {
+          captured_at?: string
+          created_at?: string
+          id?: number
+          link?: string | null
+          price: number
+          product_name: string
+          store: string
+          unit?: string | null
+          unit_price?: number | null
+        }
+        Update: {
+          captured_at?: string
+          created_at?: string
+          id?: number
+          link?: string | null
+          price?: number
+          product_name?: string
+          store?: string
+          unit?: string | null
+          unit_price?: number | null
+        }
+        Relationships: []
+      }
+      tracked_items: {
+        Row: {
+          category: string | null
+          created_at: string
+          id: number
+          item_name: string
+          normalized_name: string
+          source: string
+          user_id: string
+        }
+        Insert: {
+          category?: string | null
+          created_at?: string
+          id?: number
+          item_name: string
+          normalized_name: string
+          source: string
+          user_id?: string
+        }
+        Update: {
+          category?: string | null
+          created_at?: string
+          id?: number
+          item_name?: string
+          normalized_name?: string
+          source?: string
+          user_id?: string
         }
         Relationships: []
       }
@@ -190,10 +889,33 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      accept_list_invites: {
+        Args: Record<PropertyKey, never>
+        Returns: number[]
+      }
+      finish_shopping_trip: {
+        Args: { trip: Json }
+        Returns: undefined
+      }
+      join_list_by_code: {
+        Args: { invite_code: string }
+        Returns: number
+      }
+      list_role: {
+        Args: { target_list_id: number }
+        Returns: string
+      }
+      record_purchase: {
+        Args: { purchase: Json }
+        Returns: number
+      }
+      transfer_list_ownership: {
+        Args: { target_list_id: number; new_owner_id: string }
+        Returns: undefined
+      }
     }
     Enums: {
-      [_ in never]: never
+      measure_unit: "g" | "kg" | "mL" | "L" | "each"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -310,7 +1032,25 @@ export type CompositeTypes<
 
 export const Constants = {
   public: {
-    Enums: {},
+    Enums: {
+      measure_unit: ["g", "kg", "mL", "L", "each"],
+    },
   },
 } as const
 
+// Structured prices stored alongside the display strings in specials, "Grocery list" and SavedlistItems
+export type MeasureUnit = Enums<"measure_unit">
+
+export type Money = {
+  cents: number
+  currency: string
+}
+
+export type StructuredPrice = {
+  price_cents: number | null
+  discount_cents: number | null
+  discount_percent: number | null
+  currency: string
+  unit_size: number | null
+  unit: MeasureUnit | null
+}
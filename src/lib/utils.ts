@@ -1,6 +1,7 @@
 import { clsx, type ClassValue } from "clsx"
 import { twMerge } from "tailwind-merge"
 import * as Icons from "lucide-react"
+import { formatAmount, isCountedUnit, parseIngredientLine, parseLeadingAmount } from "@/services/ingredients"
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
@@ -181,6 +182,128 @@ export function getIconForItem(itemName: string): string | null {
   return ICON_MAPPINGS[normalized] || ICON_MAPPINGS[normalizePlural(normalized)] || null;
 }
 
+export const CATEGORIES = [
+  'Produce',
+  'Bakery',
+  'Deli',
+  'Meat & Seafood',
+  'Dairy & Eggs',
+  'Pantry',
+  'Snacks',
+  'Drinks',
+  'Frozen',
+  'Household',
+  'Personal Care',
+];
+
+export const UNCATEGORISED = 'Other';
+
+/**
+ * Category for common grocery items, keyed by singular name (covers the ICON_MAPPINGS items and more)
+ */
+const CATEGORY_MAPPINGS: Record<string, string> = {
+  // Produce
+  'apple': 'Produce', 'banana': 'Produce', 'orange': 'Produce', 'grape': 'Produce',
+  'berry': 'Produce', 'strawberry': 'Produce', 'blueberry': 'Produce', 'cherry': 'Produce',
+  'peach': 'Produce', 'pear': 'Produce', 'mango': 'Produce', 'avocado': 'Produce',
+  'pineapple': 'Produce', 'kiwi': 'Produce', 'lemon': 'Produce', 'lime': 'Produce',
+  'melon': 'Produce', 'watermelon': 'Produce', 'carrot': 'Produce', 'potato': 'Produce',
+  'tomato': 'Produce', 'onion': 'Produce', 'garlic': 'Produce', 'pepper': 'Produce',
+  'capsicum': 'Produce', 'broccoli': 'Produce', 'lettuce': 'Produce', 'cucumber': 'Produce',
+  'mushroom': 'Produce', 'corn': 'Produce', 'eggplant': 'Produce', 'spinach': 'Produce',
+  'zucchini': 'Produce', 'pumpkin': 'Produce', 'celery': 'Produce', 'salad': 'Produce',
+  'herb': 'Produce', 'ginger': 'Produce',
+
+  // Bakery
+  'bread': 'Bakery', 'bagel': 'Bakery', 'croissant': 'Bakery', 'roll': 'Bakery', 'wrap': 'Bakery',
+  'muffin': 'Bakery', 'cake': 'Bakery', 'donut': 'Bakery',
+
+  // Deli
+  'ham': 'Deli', 'salami': 'Deli', 'olive': 'Deli', 'dip': 'Deli', 'hummus': 'Deli',
+  'sandwich': 'Deli', 'sushi': 'Deli',
+
+  // Meat & Seafood
+  'chicken': 'Meat & Seafood', 'beef': 'Meat & Seafood', 'steak': 'Meat & Seafood', 'mince': 'Meat & Seafood',
+  'pork': 'Meat & Seafood', 'lamb': 'Meat & Seafood', 'bacon': 'Meat & Seafood', 'sausage': 'Meat & Seafood',
+  'fish': 'Meat & Seafood', 'salmon': 'Meat & Seafood', 'shrimp': 'Meat & Seafood', 'prawn': 'Meat & Seafood',
+  'crab': 'Meat & Seafood',
+
+  // Dairy & Eggs
+  'milk': 'Dairy & Eggs', 'cheese': 'Dairy & Eggs', 'butter': 'Dairy & Eggs', 'egg': 'Dairy & Eggs',
+  'yoghurt': 'Dairy & Eggs', 'yogurt': 'Dairy & Eggs', 'cream': 'Dairy & Eggs',
+
+  // Pantry
+  'rice': 'Pantry', 'pasta': 'Pantry', 'noodle': 'Pantry', 'flour': 'Pantry', 'sugar': 'Pantry',
+  'salt': 'Pantry', 'oil': 'Pantry', 'honey': 'Pantry', 'cereal': 'Pantry', 'oat': 'Pantry',
+  'tuna': 'Pantry', 'bean': 'Pantry', 'sauce': 'Pantry', 'soup': 'Pantry', 'spice': 'Pantry',
+  'peanut butter': 'Pantry', 'jam': 'Pantry', 'stock': 'Pantry', 'vinegar': 'Pantry',
+  'coffee': 'Pantry', 'tea': 'Pantry',
+
+  // Snacks
+  'cookie': 'Snacks', 'biscuit': 'Snacks', 'chocolate': 'Snacks',
+  'candy': 'Snacks', 'chip': 'Snacks', 'popcorn': 'Snacks', 'nut': 'Snacks',
+  'peanut': 'Snacks', 'pretzel': 'Snacks', 'cracker': 'Snacks',
+
+  // Drinks
+  'juice': 'Drinks', 'water': 'Drinks', 'soda': 'Drinks', 'soft drink': 'Drinks', 'beer': 'Drinks',
+  'wine': 'Drinks', 'kombucha': 'Drinks',
+
+  // Frozen
+  'ice cream': 'Frozen', 'frozen peas': 'Frozen', 'pea': 'Frozen', 'pizza': 'Frozen', 'ice': 'Frozen',
+  'pancake': 'Frozen', 'waffle': 'Frozen',
+
+  // Household
+  'toilet paper': 'Household', 'paper towel': 'Household', 'detergent': 'Household',
+  'dishwashing liquid': 'Household', 'bin bag': 'Household', 'foil': 'Household', 'cling wrap': 'Household',
+  'sponge': 'Household', 'towel': 'Household',
+
+  // Personal Care
+  'soap': 'Personal Care', 'shampoo': 'Personal Care', 'conditioner': 'Personal Care',
+  'toothpaste': 'Personal Care', 'toothbrush': 'Personal Care', 'deodorant': 'Personal Care',
+  'medicine': 'Personal Care', 'tissue': 'Personal Care'
+};
+
+/**
+ * Gets the category for an item name, or null when it isn't recognised.
+ * Falls back to the last recognised word so "Greek yoghurt" and "free range eggs" still match.
+ */
+export function getCategoryForItem(itemName: string): string | null {
+  const normalized = normalizePlural(itemName);
+  if (CATEGORY_MAPPINGS[normalized]) return CATEGORY_MAPPINGS[normalized];
+  const words = normalized.split(/\s+/).reverse();
+  for (const word of words) {
+    const category = CATEGORY_MAPPINGS[word] || CATEGORY_MAPPINGS[normalizePlural(word)] || CATEGORY_MAPPINGS[word.replace(/s$/, '')];
+    if (category) return category;
+  }
+  return null;
+}
+
+// Retailer catalogue categories ("Dairy, Eggs & Fridge", "Health & Beauty") to ours, first match wins.
+// The catalogue importer stores the result on each special as app_category, which watched specials are matched on.
+const CATEGORY_KEYWORDS: [RegExp, string][] = [
+  [/fruit|veg|produce/, 'Produce'],
+  [/frozen|freezer/, 'Frozen'],
+  [/bakery|bread/, 'Bakery'],
+  [/deli/, 'Deli'],
+  [/meat|seafood|poultry/, 'Meat & Seafood'],
+  [/dairy|egg|fridge/, 'Dairy & Eggs'],
+  [/snack|confectionery|chocolate|chips/, 'Snacks'],
+  [/drink|beverage|liquor/, 'Drinks'],
+  [/household|cleaning|laundry|pet/, 'Household'],
+  [/health|beauty|personal|baby/, 'Personal Care'],
+  [/pantry|breakfast|international|canned/, 'Pantry'],
+];
+
+/**
+ * Maps a free-text category (e.g. from a specials catalogue) onto one of CATEGORIES
+ */
+export function matchCategory(text: string | null | undefined): string | null {
+  if (!text) return null;
+  const lower = text.toLowerCase();
+  if (CATEGORIES.includes(text)) return text;
+  return CATEGORY_KEYWORDS.find(([pattern]) => pattern.test(lower))?.[1] ?? null;
+}
+
 /**
  * Parses smart syntax from user input to extract item name, quantity, and notes
  * Examples:
@@ -190,6 +313,8 @@ export function getIconForItem(itemName: string): string | null {
  * - "Chicken (when cheap)" → { itemName: "Chicken", quantity: 1, notes: "when cheap" }
  * - "Chicken x3 (when cheap)" → { itemName: "Chicken", quantity: 3, notes: "when cheap" }
  * - "2x apples (if fresh)" → { itemName: "apples", quantity: 2, notes: "if fresh" }
+ * - "3 cans chickpeas" → { itemName: "chickpeas", quantity: 3 }
+ * - "200g feta, crumbled" → { itemName: "feta", quantity: 1, notes: "200 g, crumbled" }
  */
 export function parseSmartSyntax(input: string): {
   itemName: string;
@@ -220,6 +345,17 @@ export function parseSmartSyntax(input: string): {
       }
       // Extract item name after quantity
       itemName = quantityBeforeMatch[2].trim();
+    } else if (parseLeadingAmount(itemName)) {
+      // 3. Recipe-style amounts: whole counts become the quantity, measures go in the notes
+      const amount = parseLeadingAmount(itemName)!;
+      const ingredient = parseIngredientLine(itemName);
+      if (ingredient) {
+        const counted = isCountedUnit(amount.unit) && Number.isInteger(amount.quantity) && amount.quantity > 0;
+        if (counted) quantity = Math.min(99, amount.quantity);
+        const amountNote = counted ? null : formatAmount(amount.quantity, amount.unit);
+        notes = [amountNote, ingredient.notes].filter(Boolean).join(', ') || undefined;
+        itemName = ingredient.name;
+      }
     }
   }
 
@@ -0,0 +1,254 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { ArrowLeft, FileUp, Loader2 } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+
+// Mirrors the report built by server/catalogueImport.mjs
+interface ImportReport {
+  dryRun: boolean;
+  counts: {
+    records: number;
+    valid: number;
+    invalid: number;
+    duplicates: number;
+    insert: number;
+    update: number;
+    unchanged: number;
+    expire: number;
+  };
+  errors: { line: number; item: string | null; messages: string[] }[];
+  insert: { item: string; price: string | null; discount: string | null; discount_percentage: string | null; catalogue_date: string }[];
+  update: { id: number; item: string; changes: Record<string, [unknown, unknown]> }[];
+  expire: { id: number; item: string; catalogue_date: string }[];
+}
+
+const formatValue = (value: unknown) => (value === null || value === undefined || value === '' ? '—' : String(value));
+
+// Admin screen for loading a retailer catalogue into specials: preview the diff, then commit it
+const AdminSpecials = () => {
+  const [file, setFile] = useState<File | null>(null);
+  const [content, setContent] = useState("");
+  const [catalogueDate, setCatalogueDate] = useState("");
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [running, setRunning] = useState(false);
+  const { toast } = useToast();
+
+  const handleFile = async (selected: File | null) => {
+    setFile(selected);
+    setReport(null);
+    setContent(selected ? await selected.text() : "");
+  };
+
+  const runImport = async (dryRun: boolean) => {
+    if (!file) return;
+    setRunning(true);
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) throw new Error("Sign in to import catalogues");
+      const base = import.meta.env.VITE_API_BASE_URL || '';
+      const res = await fetch(`${base}/api/specials-import`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${session.access_token}`,
+        },
+        body: JSON.stringify({ content, filename: file.name, catalogueDate: catalogueDate || undefined, dryRun }),
+      });
+      if (!res.ok) throw new Error(await res.text());
+      const result: ImportReport = await res.json();
+      setReport(result);
+      if (!dryRun) {
+        toast({
+          title: "Catalogue imported",
+          description: `${result.counts.insert} added, ${result.counts.update} updated, ${result.counts.expire} expired.`,
+        });
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "An unknown error occurred.";
+      toast({
+        title: dryRun ? "Preview failed" : "Import failed",
+        description: message,
+        variant: "destructive",
+      });
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const counts = report?.counts;
+
+  return (
+    <div className="min-h-screen bg-gradient-subtle">
+      <main className="container mx-auto px-4 py-6 max-w-4xl space-y-4">
+        <div className="flex items-center gap-2">
+          <Button variant="ghost" size="icon" asChild>
+            <Link to="/" aria-label="Back to list"><ArrowLeft className="h-5 w-5" /></Link>
+          </Button>
+          <h1 className="text-2xl font-bold">Import specials</h1>
+        </div>
+
+        <Card className="p-4 space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Upload a CSV (with a header row) or JSON catalogue. Each item needs a name and a catalogue date,
+            either in the file or set below. A catalogue runs for a week unless the file gives valid_from and
+            valid_to dates; specials whose week is over are taken off special.
+          </p>
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div>
+              <label className="block text-sm font-medium mb-1">Catalogue file</label>
+              <Input type="file" accept=".csv,.json,text/csv,application/json" onChange={(e) => handleFile(e.target.files?.[0] ?? null)} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-1">Catalogue date (if not in the file)</label>
+              <Input type="date" value={catalogueDate} onChange={(e) => { setCatalogueDate(e.target.value); setReport(null); }} />
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => runImport(true)} disabled={!file || running} className="gap-2">
+              {running ? <Loader2 className="h-4 w-4 animate-spin" /> : <FileUp className="h-4 w-4" />}
+              Preview
+            </Button>
+            {/* Only a file that has just been previewed can be committed */}
+            <Button
+              onClick={() => runImport(false)}
+              disabled={!report?.dryRun || running || (counts!.insert + counts!.update + counts!.expire) === 0}
+            >
+              Import
+            </Button>
+          </div>
+        </Card>
+
+        {report && counts && (
+          <>
+            <Card className="p-4">
+              <h2 className="font-medium mb-3">{report.dryRun ? "Preview: nothing has been written yet" : "Imported"}</h2>
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 text-center">
+                {[
+                  ["New", counts.insert],
+                  ["Updated", counts.update],
+                  ["Unchanged", counts.unchanged],
+                  ["Expired", counts.expire],
+                  ["Records", counts.records],
+                  ["Invalid", counts.invalid],
+                  ["Duplicates", counts.duplicates],
+                ].map(([label, value]) => (
+                  <div key={label} className="rounded-lg border p-2">
+                    <div className="text-xl font-semibold">{value}</div>
+                    <div className="text-xs text-muted-foreground">{label}</div>
+                  </div>
+                ))}
+              </div>
+            </Card>
+
+            {report.errors.length > 0 && (
+              <Card className="p-4">
+                <h2 className="font-medium mb-2 text-destructive">Rows that will be skipped</h2>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-16">Line</TableHead>
+                      <TableHead>Item</TableHead>
+                      <TableHead>Problem</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.errors.map(error => (
+                      <TableRow key={error.line}>
+                        <TableCell>{error.line}</TableCell>
+                        <TableCell>{formatValue(error.item)}</TableCell>
+                        <TableCell>{error.messages.join('; ')}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </Card>
+            )}
+
+            {report.insert.length > 0 && (
+              <Card className="p-4">
+                <h2 className="font-medium mb-2">New specials</h2>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Item</TableHead>
+                      <TableHead>Price</TableHead>
+                      <TableHead>Discount</TableHead>
+                      <TableHead>Catalogue</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.insert.map(row => (
+                      <TableRow key={`${row.item}|${row.catalogue_date}`}>
+                        <TableCell>{row.item}</TableCell>
+                        <TableCell>{formatValue(row.price)}</TableCell>
+                        <TableCell>{formatValue(row.discount_percentage ?? row.discount)}</TableCell>
+                        <TableCell>{row.catalogue_date}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </Card>
+            )}
+
+            {report.update.length > 0 && (
+              <Card className="p-4">
+                <h2 className="font-medium mb-2">Updated specials</h2>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Item</TableHead>
+                      <TableHead>Changes</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.update.map(change => (
+                      <TableRow key={change.id}>
+                        <TableCell>{change.item}</TableCell>
+                        <TableCell className="text-xs">
+                          {Object.entries(change.changes).map(([field, [from, to]]) => (
+                            <div key={field}>
+                              <span className="font-medium">{field}</span>: {formatValue(from)} → {formatValue(to)}
+                            </div>
+                          ))}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </Card>
+            )}
+
+            {report.expire.length > 0 && (
+              <Card className="p-4">
+                <h2 className="font-medium mb-2">Taken off special</h2>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Item</TableHead>
+                      <TableHead>Catalogue</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.expire.map(special => (
+                      <TableRow key={special.id}>
+                        <TableCell>{special.item}</TableCell>
+                        <TableCell>{special.catalogue_date}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </Card>
+            )}
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default AdminSpecials;
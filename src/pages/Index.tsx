@@ -1,5 +1,5 @@
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
 import { useNavigate } from "react-router-dom";
 import { User, Session } from "@supabase/supabase-js";
 import { supabase } from "@/integrations/supabase/client";
@@ -8,19 +8,31 @@ import { Button } from "@/components/ui/button";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { GroceryChecklist, type GroceryChecklistHandle } from "@/components/GroceryChecklist";
 import { PurchaseHistory } from "@/components/PurchaseHistory";
-import { ShoppingCart, LogOut, History, AlertTriangle } from "lucide-react";
+import { Insights } from "@/components/Insights";
+import { MealPlanner } from "@/components/MealPlanner";
+import { Pantry } from "@/components/Pantry";
+import { ListSwitcher, type ListRole } from "@/components/ListSwitcher";
+import { ShoppingCart, LogOut, History, AlertTriangle, BarChart3, UtensilsCrossed, Refrigerator } from "lucide-react";
 import { useRef } from "react";
 import { VoiceAssistant } from "@/components/VoiceAssistant";
+import { InstallPrompt } from "@/components/InstallPrompt";
 
 const Index = () => {
   const navigate = useNavigate();
   const checklistRef = useRef<GroceryChecklistHandle>(null);
   const [activeTab, setActiveTab] = useState("grocery-list");
+  const [activeListId, setActiveListId] = useState<number | null>(null);
+  const [activeListRole, setActiveListRole] = useState<ListRole>('owner');
   const [user, setUser] = useState<User | null>(null);
   const [session, setSession] = useState<Session | null>(null);
   const [loading, setLoading] = useState(true);
   const [configError, setConfigError] = useState(false);
 
+  const handleListChange = useCallback((listId: number, role: ListRole) => {
+    setActiveListId(listId);
+    setActiveListRole(role);
+  }, []);
+
   useEffect(() => {
     // Check if environment variables are properly configured
     const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
@@ -100,9 +112,10 @@ const Index = () => {
     <div className="min-h-screen bg-gradient-subtle">
       {/* Main Content */}
       <main className="container mx-auto px-0 py-6 max-w-2xl">
+        <InstallPrompt />
         <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
           {/* Tab Navigation */}
-          <TabsList className="grid w-full grid-cols-2 bg-card shadow-card border">
+          <TabsList className="grid w-full grid-cols-5 bg-card shadow-card border">
             <TabsTrigger 
               value="grocery-list" 
               className="flex items-center gap-2 data-[state=active]:bg-primary data-[state=active]:text-primary-foreground"
@@ -119,22 +132,65 @@ const Index = () => {
               <span className="hidden sm:inline">Purchase History</span>
               <span className="sm:hidden">History</span>
             </TabsTrigger>
+            <TabsTrigger
+              value="meals"
+              className="flex items-center gap-2 data-[state=active]:bg-primary data-[state=active]:text-primary-foreground"
+            >
+              <UtensilsCrossed className="h-4 w-4" />
+              <span>Meals</span>
+            </TabsTrigger>
+            <TabsTrigger
+              value="pantry"
+              className="flex items-center gap-2 data-[state=active]:bg-primary data-[state=active]:text-primary-foreground"
+            >
+              <Refrigerator className="h-4 w-4" />
+              <span>Pantry</span>
+            </TabsTrigger>
+            <TabsTrigger 
+              value="insights"
+              className="flex items-center gap-2 data-[state=active]:bg-primary data-[state=active]:text-primary-foreground"
+            >
+              <BarChart3 className="h-4 w-4" />
+              <span>Insights</span>
+            </TabsTrigger>
           </TabsList>
 
           {/* Tab Content */}
           <TabsContent value="grocery-list" className="space-y-0">
             <div className="animate-fade-in">
-              <GroceryChecklist ref={checklistRef} />
+              <ListSwitcher
+                activeListId={activeListId}
+                onChange={handleListChange}
+              />
+              <GroceryChecklist ref={checklistRef} listId={activeListId} readOnly={activeListRole === 'viewer'} />
             </div>
           </TabsContent>
 
           <TabsContent value="purchase-history" className="space-y-0">
             <div className="animate-fade-in">
-              <PurchaseHistory />
+              <PurchaseHistory listId={activeListId} />
+            </div>
+          </TabsContent>
+
+          <TabsContent value="meals" className="space-y-0">
+            <div className="animate-fade-in">
+              <MealPlanner listId={activeListId} readOnly={activeListRole === 'viewer'} />
+            </div>
+          </TabsContent>
+
+          <TabsContent value="pantry" className="space-y-0">
+            <div className="animate-fade-in">
+              <Pantry listId={activeListRole === 'viewer' ? null : activeListId} />
+            </div>
+          </TabsContent>
+
+          <TabsContent value="insights" className="space-y-0">
+            <div className="animate-fade-in">
+              <Insights />
             </div>
           </TabsContent>
         </Tabs>
-        <VoiceAssistant checklistRef={checklistRef} />
+        <VoiceAssistant checklistRef={checklistRef} listId={activeListId} />
         <div className="mt-6 flex justify-center">
             <Button
               variant="ghost"
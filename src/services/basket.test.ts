@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { basketTotal, budgetStatus } from "./basket";
+
+describe("basketTotal", () => {
+  it("adds quantity × price and counts items without a price", () => {
+    const total = basketTotal([
+      { price: "$3.50", Quantity: 2 },
+      { price: "2 for $5" },
+      { price: null, Quantity: 3 },
+    ]);
+    expect(total).toEqual({
+      total: { cents: 950, currency: "AUD" },
+      savings: { cents: 0, currency: "AUD" },
+      unpriced: 1,
+    });
+  });
+
+  it("prefers stored cents over the price text", () => {
+    expect(basketTotal([{ price: "$9.99", price_cents: 420 }]).total.cents).toBe(420);
+  });
+
+  it("adds up what specials saved", () => {
+    const total = basketTotal([
+      { price: "$4.00", discount_percentage: "20%", Quantity: 2 },
+      { price: "$3.00", discount: "Save $1.50" },
+    ]);
+    expect(total.total.cents).toBe(1100);
+    expect(total.savings.cents).toBe(350);
+  });
+});
+
+describe("budgetStatus", () => {
+  const budget = { cents: 10000, currency: "AUD" };
+
+  it("warns from 90% of the budget", () => {
+    expect(budgetStatus({ cents: 8999, currency: "AUD" }, budget)).toBe("under");
+    expect(budgetStatus({ cents: 9000, currency: "AUD" }, budget)).toBe("near");
+    expect(budgetStatus({ cents: 10000, currency: "AUD" }, budget)).toBe("near");
+    expect(budgetStatus({ cents: 10001, currency: "AUD" }, budget)).toBe("over");
+  });
+});
@@ -0,0 +1,53 @@
+import type { Money } from "@/integrations/supabase/types";
+import { DEFAULT_CURRENCY, priceAmount, type PricedRow } from "./money";
+import { specialSavings } from "./spendInsights";
+
+export type BasketItem = PricedRow & {
+  Quantity?: number;
+  discount?: string | null;
+  discount_percentage?: string | number | null;
+};
+
+export type BasketTotal = {
+  total: Money;
+  savings: Money;
+  // Items without a price can't be counted, so the total is only an estimate while there are any
+  unpriced: number;
+};
+
+export type BudgetStatus = "under" | "near" | "over";
+
+// Within this share of the budget the total is close enough to warn about
+const NEAR_BUDGET = 0.9;
+
+/**
+ * Quantity × price for each priced item. A special's price is already the sale price, so its
+ * discount has been taken off; what it knocked off is added up separately as savings.
+ */
+export function basketTotal(items: BasketItem[]): BasketTotal {
+  let totalCents = 0;
+  let savingsCents = 0;
+  let unpriced = 0;
+  for (const item of items) {
+    const quantity = item.Quantity || 1;
+    const price = priceAmount(item);
+    if (price === null) {
+      unpriced++;
+      continue;
+    }
+    totalCents += Math.round(price * 100) * quantity;
+    const saved = specialSavings(item.price, item.discount, item.discount_percent ?? item.discount_percentage);
+    if (saved !== null) savingsCents += Math.round(saved * 100) * quantity;
+  }
+  const currency = items.find(item => item.currency)?.currency || DEFAULT_CURRENCY;
+  return {
+    total: { cents: totalCents, currency },
+    savings: { cents: savingsCents, currency },
+    unpriced,
+  };
+}
+
+export function budgetStatus(total: Money, budget: Money): BudgetStatus {
+  if (total.cents > budget.cents) return "over";
+  return total.cents >= budget.cents * NEAR_BUDGET ? "near" : "under";
+}
@@ -0,0 +1,70 @@
+import { priceAmount, type PricedRow } from "./money";
+
+export type CatalogueWeek = "this" | "next" | "past";
+
+export const CATALOGUE_WEEKS: { value: CatalogueWeek; label: string }[] = [
+  { value: "this", label: "This week" },
+  { value: "next", label: "Next week" },
+  { value: "past", label: "Past" },
+];
+
+// How far back "Past" reaches; older catalogues are only used for price history
+export const PAST_CATALOGUE_DAYS = 28;
+
+export type CatalogueWindow = {
+  valid_from: string | null;
+  valid_to: string | null;
+};
+
+export type CataloguePrice = CatalogueWindow & PricedRow & {
+  id: number;
+  discount_percentage: string | number | null;
+  catalogue_date: string | null;
+};
+
+export type DealVerdict = {
+  kind: "lowest" | "good" | "usual" | "higher";
+  lowest: number;
+  median: number;
+  catalogues: number;
+};
+
+// Local calendar date, which is what catalogue windows are written in
+export function isoDate(date = new Date()): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+export function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split("-").map(Number);
+  return isoDate(new Date(year, month - 1, day + days));
+}
+
+export function isExpired(window: CatalogueWindow, today = isoDate()): boolean {
+  return !!window.valid_to && window.valid_to < today;
+}
+
+const formatDay = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString("en-AU", { day: "numeric", month: "short" });
+
+export function formatWindow(window: CatalogueWindow): string | null {
+  if (!window.valid_from) return null;
+  return window.valid_to ? `${formatDay(window.valid_from)} – ${formatDay(window.valid_to)}` : `From ${formatDay(window.valid_from)}`;
+}
+
+/**
+ * Compares today's price with what the same item cost in earlier catalogues, so a big "% off"
+ * on an inflated shelf price doesn't look like a bargain. Needs at least one earlier price.
+ */
+export function judgeDeal(currentPrice: PricedRow, history: CataloguePrice[]): DealVerdict | null {
+  const current = priceAmount(currentPrice);
+  const previous = history.map(priceAmount).filter((p): p is number => p !== null);
+  if (current === null || previous.length === 0) return null;
+  const sorted = [...previous].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  const median = sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+  const lowest = sorted[0];
+  const kind = current <= lowest ? "lowest" : current < median ? "good" : current <= median * 1.05 ? "usual" : "higher";
+  return { kind, lowest, median, catalogues: previous.length };
+}
@@ -0,0 +1,35 @@
+export type CategoryPreference = "preferred" | "muted";
+
+export type CategoryPreferences = Map<string, CategoryPreference>;
+
+/**
+ * Orders catalogue entries for the user: with a category picked, just that category (muted or not);
+ * otherwise everything but muted categories, preferred ones first and catalogue order kept within each.
+ */
+export function applyCategoryPreferences<T>(
+  items: T[],
+  categoryOf: (item: T) => string,
+  preferences: CategoryPreferences,
+  selectedCategory: string | null
+): T[] {
+  if (selectedCategory) return items.filter(item => categoryOf(item) === selectedCategory);
+  const preferred: T[] = [];
+  const rest: T[] = [];
+  for (const item of items) {
+    const preference = preferences.get(categoryOf(item));
+    if (preference === "muted") continue;
+    (preference === "preferred" ? preferred : rest).push(item);
+  }
+  return [...preferred, ...rest];
+}
+
+// Category tabs: preferred first, then the usual category order, muted last
+export function orderCategories(categories: string[], order: string[], preferences: CategoryPreferences): string[] {
+  const rank = (category: string) => {
+    const preference = preferences.get(category);
+    const group = preference === "preferred" ? 0 : preference === "muted" ? 2 : 1;
+    const index = order.indexOf(category);
+    return group * (order.length + 1) + (index === -1 ? order.length : index);
+  };
+  return [...categories].sort((a, b) => rank(a) - rank(b));
+}
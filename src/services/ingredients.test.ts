@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { formatAmount, isCountedUnit, parseIngredientLine, parseIngredientText, parseLeadingAmount, parseQuantityText } from "./ingredients";
+
+describe("parseQuantityText", () => {
+  it("reads whole numbers, decimals and fractions", () => {
+    expect(parseQuantityText("2")).toBe(2);
+    expect(parseQuantityText("1.5")).toBe(1.5);
+    expect(parseQuantityText("1/2")).toBe(0.5);
+    expect(parseQuantityText("1 1/2")).toBe(1.5);
+    expect(parseQuantityText("½")).toBe(0.5);
+    expect(parseQuantityText("1½")).toBe(1.5);
+    expect(parseQuantityText("a few")).toBeNull();
+    expect(parseQuantityText("1/0")).toBeNull();
+  });
+});
+
+describe("parseLeadingAmount", () => {
+  it("splits the amount and unit off the front", () => {
+    expect(parseLeadingAmount("1 1/2 cups flour")).toEqual({ quantity: 1.5, unit: "cup", rest: "flour" });
+    expect(parseLeadingAmount("200 grams of feta")).toEqual({ quantity: 200, unit: "g", rest: "feta" });
+    expect(parseLeadingAmount("3 eggs")).toEqual({ quantity: 3, unit: null, rest: "eggs" });
+  });
+
+  it("takes the larger end of a range", () => {
+    expect(parseLeadingAmount("2-3 carrots")).toEqual({ quantity: 3, unit: null, rest: "carrots" });
+  });
+
+  it("returns null without an amount or anything after it", () => {
+    expect(parseLeadingAmount("salt")).toBeNull();
+    expect(parseLeadingAmount("200g")).toBeNull();
+  });
+});
+
+describe("parseIngredientLine", () => {
+  it("keeps parentheses and text after a comma as notes", () => {
+    expect(parseIngredientLine("- 200g feta (Greek), crumbled")).toEqual({ name: "feta", quantity: 200, unit: "g", notes: "Greek, crumbled" });
+  });
+
+  it("reads lines without an amount", () => {
+    expect(parseIngredientLine("Salt, to taste")).toEqual({ name: "Salt", quantity: null, unit: null, notes: "to taste" });
+  });
+});
+
+describe("parseIngredientText", () => {
+  it("skips blank lines and headings", () => {
+    const parsed = parseIngredientText("For the sauce:\n2 tbsp olive oil\n\n1 can tomatoes\n");
+    expect(parsed.map(ingredient => [ingredient.name, ingredient.quantity, ingredient.unit])).toEqual([
+      ["olive oil", 2, "tbsp"],
+      ["tomatoes", 1, "can"],
+    ]);
+  });
+});
+
+describe("units", () => {
+  it("counts whole things and measures the rest", () => {
+    expect(isCountedUnit(null)).toBe(true);
+    expect(isCountedUnit("tins")).toBe(true);
+    expect(isCountedUnit("g")).toBe(false);
+  });
+
+  it("pluralises units it knows", () => {
+    expect(formatAmount(2, "cup")).toBe("2 cups");
+    expect(formatAmount(1, "cup")).toBe("1 cup");
+    expect(formatAmount(0.333, "g")).toBe("0.33 g");
+  });
+});
@@ -0,0 +1,155 @@
+// Ingredient lines as recipes write them: "1 1/2 cups flour", "200g feta, crumbled", "Salt, to taste".
+// Kept free of app imports so the edge functions in api/ can use it too.
+
+export type ParsedIngredient = {
+  name: string;
+  quantity: number | null;
+  unit: string | null;
+  notes: string | null;
+};
+
+const UNICODE_FRACTIONS: Record<string, number> = {
+  "½": 1 / 2, "⅓": 1 / 3, "⅔": 2 / 3, "¼": 1 / 4, "¾": 3 / 4,
+  "⅕": 1 / 5, "⅖": 2 / 5, "⅗": 3 / 5, "⅘": 4 / 5, "⅙": 1 / 6, "⅚": 5 / 6, "⅛": 1 / 8, "⅜": 3 / 8, "⅝": 5 / 8, "⅞": 7 / 8,
+};
+
+// Spellings seen in recipes, mapped to the unit we store
+const UNIT_ALIASES: Record<string, string[]> = {
+  g: ["g", "gm", "gms", "gram", "grams", "gramme", "grammes"],
+  kg: ["kg", "kgs", "kilo", "kilos", "kilogram", "kilograms"],
+  mL: ["ml", "mls", "millilitre", "millilitres", "milliliter", "milliliters"],
+  L: ["l", "litre", "litres", "liter", "liters"],
+  cup: ["cup", "cups"],
+  tbsp: ["tbsp", "tbsps", "tbs", "tablespoon", "tablespoons"],
+  tsp: ["tsp", "tsps", "teaspoon", "teaspoons"],
+  oz: ["oz", "ounce", "ounces"],
+  lb: ["lb", "lbs", "pound", "pounds"],
+  pinch: ["pinch", "pinches"],
+  clove: ["clove", "cloves"],
+  slice: ["slice", "slices"],
+  stick: ["stick", "sticks"],
+  sprig: ["sprig", "sprigs"],
+  handful: ["handful", "handfuls"],
+  can: ["can", "cans", "tin", "tins"],
+  pack: ["pack", "packs", "packet", "packets"],
+  bunch: ["bunch", "bunches"],
+  head: ["head", "heads"],
+  jar: ["jar", "jars"],
+  bottle: ["bottle", "bottles"],
+  loaf: ["loaf", "loaves"],
+  each: ["each", "ea", "piece", "pieces"],
+};
+
+const UNIT_PLURALS: Record<string, string> = {
+  cup: "cups", pinch: "pinches", clove: "cloves", slice: "slices", stick: "sticks", sprig: "sprigs", handful: "handfuls",
+  can: "cans", pack: "packs", bunch: "bunches", head: "heads", jar: "jars", bottle: "bottles", loaf: "loaves",
+};
+
+// Units you buy whole, so "2 cans" means two on the list. Anything else ("500 g", "2 tbsp")
+// is an amount of one thing.
+const COUNTED_UNITS = new Set(["can", "pack", "bunch", "head", "jar", "bottle", "loaf", "each"]);
+
+const UNIT_LOOKUP = new Map(
+  Object.entries(UNIT_ALIASES).flatMap(([unit, aliases]) => aliases.map(alias => [alias, unit] as const))
+);
+
+const FRACTION_CHARS = Object.keys(UNICODE_FRACTIONS).join("");
+const NUMBER = `(?:\\d+\\s+\\d+\\/\\d+|\\d+\\/\\d+|\\d+(?:\\.\\d+)?\\s*[${FRACTION_CHARS}]?|[${FRACTION_CHARS}])`;
+// Longest aliases first so "tbsp" isn't read as "t" + "bsp"
+const UNIT_PATTERN = Array.from(UNIT_LOOKUP.keys()).sort((a, b) => b.length - a.length).join("|");
+const AMOUNT_RE = new RegExp(`^(${NUMBER})(?:\\s*(?:-|–|to)\\s*(${NUMBER}))?(?:\\s*(${UNIT_PATTERN})\\b\\.?|(?=\\s))\\s*(?:of\\s+)?`, "i");
+
+/**
+ * Reads "2", "1.5", "1/2", "1 1/2", "½" or "1½". Returns null when it isn't a number.
+ */
+export function parseQuantityText(text: string): number | null {
+  const trimmed = text.trim();
+  const mixed = trimmed.match(/^(\d+)\s+(\d+)\/(\d+)$/);
+  if (mixed) return Number(mixed[3]) > 0 ? Number(mixed[1]) + Number(mixed[2]) / Number(mixed[3]) : null;
+  const fraction = trimmed.match(/^(\d+)\/(\d+)$/);
+  if (fraction) return Number(fraction[2]) > 0 ? Number(fraction[1]) / Number(fraction[2]) : null;
+  const unicode = trimmed.match(new RegExp(`^(\\d*)\\s*([${FRACTION_CHARS}])$`));
+  if (unicode) return (unicode[1] ? Number(unicode[1]) : 0) + UNICODE_FRACTIONS[unicode[2]];
+  const value = Number(trimmed);
+  return trimmed && Number.isFinite(value) ? value : null;
+}
+
+// The stored spelling of a unit, or null when we don't know it
+export function canonicalUnit(unit: string | null | undefined): string | null {
+  if (!unit) return null;
+  return UNIT_LOOKUP.get(unit.trim().toLowerCase().replace(/\.$/, "")) ?? null;
+}
+
+export function isCountedUnit(unit: string | null | undefined): boolean {
+  if (!unit || !unit.trim()) return true;
+  return COUNTED_UNITS.has(canonicalUnit(unit) ?? "");
+}
+
+export function formatAmount(quantity: number, unit: string | null): string {
+  const rounded = Math.round(quantity * 100) / 100;
+  if (!unit) return String(rounded);
+  const plural = rounded !== 1 ? UNIT_PLURALS[unit] : undefined;
+  return `${rounded} ${plural ?? unit}`;
+}
+
+/**
+ * Splits the amount off the front of a line: "1 1/2 cups flour" → 1.5, "cup", "flour".
+ * Ranges ("2-3 carrots") take the larger number, since that's what you'd buy for.
+ * Returns null when the line doesn't start with an amount.
+ */
+export function parseLeadingAmount(input: string): { quantity: number; unit: string | null; rest: string } | null {
+  const match = input.trim().match(AMOUNT_RE);
+  if (!match) return null;
+  const quantity = parseQuantityText(match[2] ?? match[1]);
+  const rest = input.trim().slice(match[0].length).trim();
+  if (quantity === null || !rest) return null;
+  return { quantity, unit: canonicalUnit(match[3]), rest };
+}
+
+/**
+ * Parses one ingredient line into its amount, name and notes. Parenthesised text and
+ * anything after the first comma are notes: "200g feta, crumbled" → 200 g of "feta", "crumbled".
+ */
+export function parseIngredientLine(line: string): ParsedIngredient | null {
+  const cleaned = line
+    .replace(/^\s*(?:[-*•▢☐]|\d+[.)](?=\s+\S))\s*/, "")
+    .replace(/\s+/g, " ")
+    .trim();
+  if (!cleaned) return null;
+
+  const amount = parseLeadingAmount(cleaned);
+  let rest = amount ? amount.rest : cleaned;
+  const notes: string[] = [];
+
+  rest = rest.replace(/\(([^)]*)\)/g, (_, note: string) => {
+    if (note.trim()) notes.push(note.trim());
+    return " ";
+  });
+  const comma = rest.indexOf(",");
+  if (comma >= 0) {
+    const trailing = rest.slice(comma + 1).trim();
+    if (trailing) notes.push(trailing);
+    rest = rest.slice(0, comma);
+  }
+
+  const name = rest.replace(/\s+/g, " ").replace(/[.;:]+$/, "").trim();
+  if (!name) return null;
+  return {
+    name,
+    quantity: amount?.quantity ?? null,
+    unit: amount?.unit ?? null,
+    notes: notes.length > 0 ? notes.join(", ") : null,
+  };
+}
+
+/**
+ * Parses a pasted ingredient list, one ingredient per line. Blank lines and headings
+ * ("For the sauce:") are skipped.
+ */
+export function parseIngredientText(text: string): ParsedIngredient[] {
+  return text
+    .split(/\r?\n/)
+    .filter(line => line.trim() && !/:\s*$/.test(line))
+    .map(parseIngredientLine)
+    .filter((ingredient): ingredient is ParsedIngredient => ingredient !== null);
+}
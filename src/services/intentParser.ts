@@ -0,0 +1,212 @@
+// Turns a voice transcript into a ParsedPlan. Shared by the api/voice-intent edge function and the
+// dev API server, so it uses relative imports and no browser or Node-only APIs.
+import { emptyPlan, parseVoiceToPlan, type ParsedPlan } from "./voiceIntent";
+
+export interface IntentParser {
+  name: string;
+  parse(transcript: string): Promise<ParsedPlan>;
+}
+
+export type LlmParserOptions = {
+  apiKey: string;
+  // Any OpenAI-compatible chat completions API that supports JSON mode
+  baseUrl?: string;
+  model?: string;
+  timeoutMs?: number;
+};
+
+const DEFAULT_BASE_URL = "https://api.openai.com/v1";
+const DEFAULT_MODEL = "gpt-5-nano";
+const DEFAULT_TIMEOUT_MS = 10000;
+
+const SYSTEM_PROMPT = `You are an assistant that converts grocery-related natural language into a machine-readable plan.
+Return strict JSON with this shape:
+{
+  "plan": {
+    "add": Array<{"name": string, "quantity"?: number, "note"?: string}>,
+    "remove": Array<{"name": string}>,
+    "adjust": Array<{"name": string, "delta": number}>,
+    "setQuantity": Array<{"name": string, "quantity": number}>,
+    "rename": Array<{"name": string, "to": string}>,
+    "setNote": Array<{"name": string, "note": string | null}>,
+    "moveToBuyLater": Array<{"name": string}>,
+    "moveToNow": Array<{"name": string}>,
+    "markPurchased": Array<{"name": string, "quantity"?: number}>,
+    "clearList": boolean,
+    "addFromSaved": Array<{"name": string, "quantity"?: number}>
+  }
+}
+Rules:
+- Split enumerations like "add two chickens three steaks and four pork chops" into separate items with correct quantities.
+- Numbers may be words (two, three, four) or digits (2, 3, 4).
+- Merge duplicates by case-insensitive name.
+- quantity is a whole number of items and defaults to 1 if omitted. Weights and volumes ("200 grams of feta") go in the note.
+- For adjustments, positive delta means increase, negative means decrease. "add one more milk" or "another milk" is an adjustment of +1.
+- setQuantity sets an item's quantity outright ("set milk to 3"); a null note in setNote clears it.
+- moveToBuyLater/moveToNow move items to and from the Buy Later section; markPurchased is for items already bought.
+- clearList is true only when the whole list should be emptied. addFromSaved adds items from the user's saved list.
+- Omit any operation that isn't needed.
+- If nothing actionable, return an empty plan.
+Return ONLY the JSON.`;
+
+export const ruleBasedParser: IntentParser = {
+  name: "rules",
+  async parse(transcript) {
+    return parseVoiceToPlan(transcript);
+  },
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => !!value && typeof value === "object" && !Array.isArray(value);
+
+function requireName(entry: unknown, path: string): string {
+  const name = isRecord(entry) && typeof entry.name === "string" ? entry.name.trim() : "";
+  if (!name) throw new Error(`${path}.name must be a non-empty string`);
+  return name;
+}
+
+function optionalQuantity(entry: unknown, path: string): number | undefined {
+  const { quantity } = entry as Record<string, unknown>;
+  if (quantity === undefined || quantity === null) return undefined;
+  if (typeof quantity !== "number" || !Number.isInteger(quantity) || quantity <= 0) {
+    throw new Error(`${path}.quantity must be a positive whole number`);
+  }
+  return quantity;
+}
+
+function listOf(plan: Record<string, unknown>, key: string): unknown[] {
+  const value = plan[key];
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) throw new Error(`${key} must be an array`);
+  return value;
+}
+
+/**
+ * Checks a plan from outside the app (an LLM response) against the ParsedPlan shape and returns a
+ * clean copy. Throws, naming the offending field, if anything doesn't fit; unknown fields are dropped.
+ */
+export function validatePlan(value: unknown, raw: string): ParsedPlan {
+  // Accept both { plan: {...} } and the plan itself
+  const plan = isRecord(value) && isRecord(value.plan) ? value.plan : value;
+  if (!isRecord(plan)) throw new Error("plan must be an object");
+
+  const add = listOf(plan, "add").map((entry, i) => {
+    const name = requireName(entry, `add[${i}]`);
+    const quantity = optionalQuantity(entry, `add[${i}]`);
+    const { note } = entry as Record<string, unknown>;
+    if (note !== undefined && note !== null && typeof note !== "string") throw new Error(`add[${i}].note must be a string`);
+    return {
+      name,
+      quantity,
+      note: typeof note === "string" && note.trim() ? note.trim() : undefined,
+    };
+  });
+  const remove = listOf(plan, "remove").map((entry, i) => ({ name: requireName(entry, `remove[${i}]`) }));
+  const adjust = listOf(plan, "adjust").map((entry, i) => {
+    const name = requireName(entry, `adjust[${i}]`);
+    const { delta } = entry as Record<string, unknown>;
+    if (typeof delta !== "number" || !Number.isInteger(delta) || delta === 0) throw new Error(`adjust[${i}].delta must be a non-zero whole number`);
+    return { name, delta };
+  });
+  const setQuantity = listOf(plan, "setQuantity").map((entry, i) => {
+    const name = requireName(entry, `setQuantity[${i}]`);
+    const { quantity } = entry as Record<string, unknown>;
+    if (typeof quantity !== "number" || !Number.isInteger(quantity) || quantity < 0) throw new Error(`setQuantity[${i}].quantity must be a whole number`);
+    return { name, quantity };
+  });
+  const rename = listOf(plan, "rename").map((entry, i) => {
+    const name = requireName(entry, `rename[${i}]`);
+    const { to } = entry as Record<string, unknown>;
+    if (typeof to !== "string" || !to.trim()) throw new Error(`rename[${i}].to must be a non-empty string`);
+    return { name, to: to.trim() };
+  });
+  const setNote = listOf(plan, "setNote").map((entry, i) => {
+    const name = requireName(entry, `setNote[${i}]`);
+    const { note } = entry as Record<string, unknown>;
+    if (note !== null && typeof note !== "string") throw new Error(`setNote[${i}].note must be a string or null`);
+    return { name, note: typeof note === "string" && note.trim() ? note.trim() : null };
+  });
+  const moveToBuyLater = listOf(plan, "moveToBuyLater").map((entry, i) => ({ name: requireName(entry, `moveToBuyLater[${i}]`) }));
+  const moveToNow = listOf(plan, "moveToNow").map((entry, i) => ({ name: requireName(entry, `moveToNow[${i}]`) }));
+  const markPurchased = listOf(plan, "markPurchased").map((entry, i) => ({
+    name: requireName(entry, `markPurchased[${i}]`),
+    quantity: optionalQuantity(entry, `markPurchased[${i}]`),
+  }));
+  const addFromSaved = listOf(plan, "addFromSaved").map((entry, i) => ({
+    name: requireName(entry, `addFromSaved[${i}]`),
+    quantity: optionalQuantity(entry, `addFromSaved[${i}]`),
+  }));
+  const { clearList = false } = plan;
+  if (typeof clearList !== "boolean") throw new Error("clearList must be a boolean");
+
+  return { ...emptyPlan(raw), add, remove, adjust, setQuantity, rename, setNote, moveToBuyLater, moveToNow, markPurchased, clearList, addFromSaved };
+}
+
+// An LLM in JSON mode. Errors, timeouts and replies that aren't a valid plan all throw.
+export function createLlmParser({ apiKey, baseUrl = DEFAULT_BASE_URL, model = DEFAULT_MODEL, timeoutMs = DEFAULT_TIMEOUT_MS }: LlmParserOptions): IntentParser {
+  return {
+    name: "llm",
+    async parse(transcript) {
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), timeoutMs);
+      try {
+        const response = await fetch(`${baseUrl.replace(/\/$/, "")}/chat/completions`, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${apiKey}`,
+          },
+          body: JSON.stringify({
+            model,
+            response_format: { type: "json_object" },
+            messages: [
+              { role: "system", content: SYSTEM_PROMPT },
+              { role: "user", content: transcript },
+            ],
+            temperature: 1,
+          }),
+          signal: controller.signal,
+        });
+        if (!response.ok) {
+          throw new Error(`LLM request failed (${response.status}): ${await response.text()}`);
+        }
+        const json = (await response.json()) as { choices?: Array<{ message?: { content?: string } }> };
+        const content = json.choices?.[0]?.message?.content;
+        if (!content) throw new Error("LLM response had no content");
+        return validatePlan(JSON.parse(content), transcript);
+      } finally {
+        clearTimeout(timer);
+      }
+    },
+  };
+}
+
+// Tries primary, and if it throws for any reason answers with fallback instead
+export function withFallback(primary: IntentParser, fallback: IntentParser): IntentParser {
+  return {
+    name: `${primary.name}+${fallback.name}`,
+    async parse(transcript) {
+      try {
+        return await primary.parse(transcript);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.warn(`[voice-intent] ${primary.name} parser failed, using ${fallback.name}: ${message}`);
+        return fallback.parse(transcript);
+      }
+    },
+  };
+}
+
+/**
+ * The parser for an environment: the LLM (falling back to the rules) when OPENAI_API_KEY is set,
+ * otherwise the rules alone. OPENAI_BASE_URL and VOICE_INTENT_MODEL point it at another
+ * OpenAI-compatible provider or model.
+ */
+export function createIntentParser(env: Record<string, string | undefined>): IntentParser {
+  if (!env.OPENAI_API_KEY) return ruleBasedParser;
+  const llm = createLlmParser({
+    apiKey: env.OPENAI_API_KEY,
+    baseUrl: env.OPENAI_BASE_URL || undefined,
+    model: env.VOICE_INTENT_MODEL || undefined,
+  });
+  return withFallback(llm, ruleBasedParser);
+}
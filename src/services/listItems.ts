@@ -0,0 +1,86 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { normalizePlural, getIconForItem, getCategoryForItem } from "@/lib/utils";
+
+type ListRow = Database["public"]["Tables"]["Grocery list"]["Row"];
+
+export type AddOrIncreaseResult =
+  | { kind: "increased"; id: number; Quantity: number; notes: string | null }
+  | { kind: "created"; row: ListRow };
+
+/**
+ * Adds an item to a list, or bumps the quantity of the item already there under the same
+ * normalized name (appending the note to its notes). Pass the list's rows when they're already
+ * loaded; otherwise they're fetched. recipeId tags a new item with the recipe it's for.
+ * With onlyIfMissing an item already on the list is left alone and null is returned.
+ */
+export async function addOrIncreaseItem(
+  listId: number,
+  rawName: string,
+  qty: number,
+  note?: string | null,
+  options: { recipeId?: number | null; onlyIfMissing?: boolean; listItems?: { id: number; Item: string; Quantity?: number; notes?: string | null }[] } = {}
+): Promise<AddOrIncreaseResult | null> {
+  const itemName = rawName.trim();
+  if (!itemName || qty <= 0) return null;
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('User not authenticated');
+
+  let listItems = options.listItems;
+  if (!listItems) {
+    const { data, error } = await supabase
+      .from('Grocery list')
+      .select('id, Item, Quantity, notes')
+      .eq('list_id', listId);
+    if (error) throw error;
+    listItems = data || [];
+  }
+
+  const normalizedNewItem = normalizePlural(itemName);
+  const existingItem = listItems.find(item => normalizePlural(item.Item) === normalizedNewItem);
+  const trimmedNote = note && note.trim() ? note.trim() : null;
+
+  if (existingItem && options.onlyIfMissing) return null;
+  if (existingItem) {
+    const newQuantity = (existingItem.Quantity || 0) + qty;
+    const appendedNote = trimmedNote ? (existingItem.notes ? `${existingItem.notes}, ${trimmedNote}` : trimmedNote) : (existingItem.notes ?? null);
+    const { error: updateError } = await supabase
+      .from('Grocery list')
+      .update({ Quantity: newQuantity, notes: appendedNote })
+      .eq('id', existingItem.id);
+    if (updateError) throw updateError;
+    return { kind: "increased", id: existingItem.id, Quantity: newQuantity, notes: appendedNote };
+  }
+
+  const { data: minOrderData, error: minOrderError } = await supabase
+    .from('Grocery list')
+    .select('order')
+    .eq('list_id', listId)
+    .order('order', { ascending: true })
+    .limit(1)
+    .single();
+  if (minOrderError && minOrderError.code !== 'PGRST116') {
+    throw minOrderError;
+  }
+  const newOrder = minOrderData ? minOrderData.order - 1 : 1;
+  const { data, error } = await supabase
+    .from('Grocery list')
+    .insert([
+      {
+        Item: itemName,
+        Quantity: qty,
+        notes: trimmedNote,
+        user_id: user.id,
+        list_id: listId,
+        order: newOrder,
+        // Auto-assign icon if no image is set
+        auto_icon: getIconForItem(itemName),
+        category: getCategoryForItem(itemName),
+        recipe_id: options.recipeId ?? null,
+      }
+    ])
+    .select()
+    .single();
+  if (error) throw error;
+  return { kind: "created", row: data };
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { buildPlannedItems, startOfWeek, type Recipe } from "./mealPlan";
+
+const recipe = (id: number, name: string, servings: number, ingredients: [string, number | null, string | null][]): Recipe => ({
+  id,
+  name,
+  servings,
+  notes: null,
+  recipe_ingredients: ingredients.map(([ingredient, quantity, unit]) => ({ name: ingredient, quantity, unit, notes: null })),
+});
+
+const pasta = recipe(1, "Pasta", 4, [["tomatoes", 2, "can"], ["spaghetti", 500, "g"], ["onion", 1, null]]);
+const soup = recipe(2, "Soup", 2, [["tomato", 1, "tins"], ["onions", 2, null], ["stock", 1, "L"]]);
+
+describe("buildPlannedItems", () => {
+  it("scales each recipe to the planned servings", () => {
+    const items = buildPlannedItems([{ id: 1, planned_on: "2026-10-19", recipe_id: 1, servings: 2 }], [pasta]);
+    expect(items).toEqual([
+      { name: "tomatoes", quantity: 1, note: "for Pasta", recipeId: 1 },
+      { name: "spaghetti", quantity: 1, note: "250 g for Pasta", recipeId: 1 },
+      { name: "onion", quantity: 1, note: "for Pasta", recipeId: 1 },
+    ]);
+  });
+
+  it("merges the same ingredient across recipes by its singular name", () => {
+    const items = buildPlannedItems(
+      [
+        { id: 1, planned_on: "2026-10-19", recipe_id: 1, servings: 4 },
+        { id: 2, planned_on: "2026-10-20", recipe_id: 2, servings: 3 },
+      ],
+      [pasta, soup]
+    );
+    expect(items.find(item => item.name === "tomatoes")).toMatchObject({ quantity: 4, note: "for Pasta, Soup" });
+    expect(items.find(item => item.name === "onion")).toMatchObject({ quantity: 4, note: "for Pasta, Soup" });
+    expect(items.find(item => item.name === "stock")).toMatchObject({ quantity: 1, note: "1.5 L for Soup", recipeId: 2 });
+  });
+
+  it("skips meals whose recipe has been deleted", () => {
+    expect(buildPlannedItems([{ id: 1, planned_on: "2026-10-19", recipe_id: 9, servings: 2 }], [pasta])).toEqual([]);
+  });
+});
+
+describe("startOfWeek", () => {
+  it("goes back to Monday", () => {
+    expect(startOfWeek(new Date(2026, 9, 25)).getDate()).toBe(19);
+    expect(startOfWeek(new Date(2026, 9, 19)).getDate()).toBe(19);
+  });
+});
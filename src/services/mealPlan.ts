@@ -0,0 +1,91 @@
+import { normalizePlural } from "@/lib/utils";
+import { canonicalUnit, formatAmount, isCountedUnit } from "@/services/ingredients";
+
+export type RecipeIngredient = {
+  id?: number;
+  name: string;
+  quantity: number | null;
+  unit: string | null;
+  notes: string | null;
+};
+
+export type Recipe = {
+  id: number;
+  name: string;
+  servings: number;
+  notes: string | null;
+  recipe_ingredients: RecipeIngredient[];
+};
+
+export type MealPlanEntry = {
+  id: number;
+  planned_on: string;
+  recipe_id: number;
+  servings: number;
+};
+
+// One line of the generated shopping list, ready for addOrIncreaseByName
+export type PlannedItem = {
+  name: string;
+  quantity: number;
+  note: string | null;
+  recipeId: number;
+};
+
+// Monday, like the weeks in Insights
+export function startOfWeek(date: Date): Date {
+  const start = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+  return start;
+}
+
+export function weekDays(start: Date): Date[] {
+  return Array.from({ length: 7 }, (_, i) => new Date(start.getFullYear(), start.getMonth(), start.getDate() + i));
+}
+
+/**
+ * Turns a week's planned meals into list items: each recipe's ingredients scaled from its
+ * servings to the planned servings, then duplicates merged by their normalized name. Counted
+ * ingredients add up and round up to whole items; measured ones become one item whose note
+ * gives the total amount per unit and the recipes it's for.
+ */
+export function buildPlannedItems(entries: MealPlanEntry[], recipes: Recipe[]): PlannedItem[] {
+  const byId = new Map(recipes.map(recipe => [recipe.id, recipe]));
+  const merged = new Map<string, { name: string; count: number; amounts: Map<string, number>; recipeIds: number[]; recipeNames: string[] }>();
+
+  for (const entry of entries) {
+    const recipe = byId.get(entry.recipe_id);
+    if (!recipe) continue;
+    const factor = entry.servings / recipe.servings;
+    for (const ingredient of recipe.recipe_ingredients) {
+      const name = ingredient.name.trim();
+      if (!name) continue;
+      const key = normalizePlural(name);
+      const line = merged.get(key) ?? { name, count: 0, amounts: new Map(), recipeIds: [], recipeNames: [] };
+      const scaled = (ingredient.quantity ?? 1) * factor;
+      // Counted units ("2 cans") add up to items; measured amounts go in the note
+      if (isCountedUnit(ingredient.unit)) {
+        line.count += scaled;
+      } else {
+        const unit = canonicalUnit(ingredient.unit) ?? ingredient.unit!.trim();
+        line.amounts.set(unit, (line.amounts.get(unit) ?? 0) + scaled);
+      }
+      if (!line.recipeIds.includes(recipe.id)) {
+        line.recipeIds.push(recipe.id);
+        line.recipeNames.push(recipe.name);
+      }
+      merged.set(key, line);
+    }
+  }
+
+  return Array.from(merged.values()).map(line => {
+    const amounts = Array.from(line.amounts.entries()).map(([unit, quantity]) => formatAmount(quantity, unit));
+    const note = [amounts.join(" + "), `for ${line.recipeNames.join(", ")}`].filter(Boolean).join(" ");
+    return {
+      name: line.name,
+      quantity: Math.max(1, Math.ceil(line.count - 1e-9)),
+      note,
+      recipeId: line.recipeIds[0],
+    };
+  });
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import { parseMoney, parseUnitSize, structuredPriceFromText, unitPriceLabel } from "./money";
+
+const cents = (text: string) => parseMoney(text)?.cents;
+
+describe("parseMoney", () => {
+  it("reads dollar amounts, with or without the sign", () => {
+    expect(cents("$3.50")).toBe(350);
+    expect(cents("3.5")).toBe(350);
+    expect(cents("Save $1.20")).toBe(120);
+  });
+
+  it("reads cents written as cents", () => {
+    expect(cents("80c")).toBe(80);
+    expect(cents("80 cents")).toBe(80);
+  });
+
+  it("prices one item of a multibuy", () => {
+    expect(cents("2 for $5")).toBe(250);
+    expect(cents("3 for $10")).toBe(333);
+  });
+
+  it("ignores thousands separators", () => {
+    expect(cents("$1,299.00")).toBe(129900);
+  });
+
+  it("returns null without an amount", () => {
+    expect(parseMoney("ask in store")).toBeNull();
+    expect(parseMoney(null)).toBeNull();
+  });
+});
+
+describe("parseUnitSize", () => {
+  it("reads weights and volumes from the name", () => {
+    expect(parseUnitSize("Mince 500g")).toEqual({ size: 500, unit: "g" });
+    expect(parseUnitSize("Milk 2L")).toEqual({ size: 2, unit: "L" });
+    expect(parseUnitSize("Cream 300ml")).toEqual({ size: 300, unit: "mL" });
+  });
+
+  it("counts packs", () => {
+    expect(parseUnitSize("Eggs 12 Pack")).toEqual({ size: 12, unit: "each" });
+    expect(parseUnitSize("Toilet paper 24 rolls")).toEqual({ size: 24, unit: "each" });
+  });
+
+  it("falls back to a per-kg or each price", () => {
+    expect(parseUnitSize("Bananas", "$3.90/kg")).toEqual({ size: 1, unit: "kg" });
+    expect(parseUnitSize("Avocado", "$1.20 ea")).toEqual({ size: 1, unit: "each" });
+    expect(parseUnitSize("Bread", "$4.00")).toBeNull();
+  });
+});
+
+describe("structuredPriceFromText", () => {
+  it("fills every structured column from the text", () => {
+    expect(structuredPriceFromText("Bananas", { price: "$3.90/kg", discount: "Save 50c", discount_percentage: "11%" })).toEqual({
+      price_cents: 390,
+      discount_cents: 50,
+      discount_percent: 11,
+      currency: "AUD",
+      unit_size: 1,
+      unit: "kg",
+    });
+  });
+});
+
+describe("unitPriceLabel", () => {
+  it("works out the shelf-label unit price", () => {
+    expect(unitPriceLabel({ price: "$3.90" }, "Mince 500g")).toBe("$0.78 / 100g");
+    expect(unitPriceLabel({ price: "$6.00" }, "Eggs 12 pack")).toBe("$0.50 / each");
+    expect(unitPriceLabel({ price: "$2.00" }, "Bread")).toBeNull();
+  });
+});
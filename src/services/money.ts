@@ -0,0 +1,127 @@
+import type { MeasureUnit, Money, StructuredPrice } from "@/integrations/supabase/types";
+
+export const DEFAULT_CURRENCY = "AUD";
+
+export type UnitSize = { size: number; unit: MeasureUnit };
+
+// Any row that has a display price and (once migrated) its structured form
+export type PricedRow = {
+  price?: string | null;
+} & Partial<StructuredPrice>;
+
+/**
+ * The amount in free-text price: "80c" is cents, "2 for $5" is the price of one, anything
+ * else is the first dollar amount.
+ */
+export function parseMoney(text: string | null | undefined, currency = DEFAULT_CURRENCY): Money | null {
+  if (!text) return null;
+  const cleaned = text.replace(/,/g, "");
+  const multibuy = cleaned.toLowerCase().match(/(\d+)\s*for\s*\$?(\d+(?:\.\d+)?)/);
+  if (multibuy && Number(multibuy[1]) > 0) {
+    return { cents: Math.round((parseFloat(multibuy[2]) * 100) / Number(multibuy[1])), currency };
+  }
+  const amount = cleaned.match(/\d+(\.\d+)?/);
+  if (!amount) return null;
+  const value = parseFloat(amount[0]);
+  const inCents = !cleaned.includes("$") && /\d\s*c(ents?)?\b/i.test(cleaned);
+  return { cents: Math.round(inCents ? value : value * 100), currency };
+}
+
+export function parsePercent(text: string | number | null | undefined): number | null {
+  if (typeof text === "number") return text;
+  const match = text?.match(/\d+(\.\d+)?/);
+  const value = match ? parseFloat(match[0]) : null;
+  return value !== null && value <= 100 ? value : null;
+}
+
+/** Pack size from an item name ("Milk 2L", "Eggs 12 Pack") or a "/kg" or "each" price */
+export function parseUnitSize(label: string | null | undefined, price?: string | null): UnitSize | null {
+  const name = (label ?? "").toLowerCase();
+  const measure = name.match(/(\d+(?:\.\d+)?)\s*(kg|g|ml|l|litres?|liters?)\b/);
+  if (measure && parseFloat(measure[1]) > 0) {
+    const raw = measure[2];
+    const unit: MeasureUnit = raw === "ml" ? "mL" : raw === "g" || raw === "kg" ? raw : "L";
+    return { size: parseFloat(measure[1]), unit };
+  }
+  const pack = name.match(/(\d+)\s*(pk|pack|pieces?|rolls?)\b/);
+  if (pack && Number(pack[1]) > 0) return { size: Number(pack[1]), unit: "each" };
+  const priceText = (price ?? "").toLowerCase();
+  if (/(\/|per\s+)kg/.test(priceText)) return { size: 1, unit: "kg" };
+  if (/\b(each|ea)\b/.test(priceText)) return { size: 1, unit: "each" };
+  return null;
+}
+
+export function formatMoney(money: Money): string {
+  return new Intl.NumberFormat("en-AU", { style: "currency", currency: money.currency }).format(money.cents / 100);
+}
+
+// The row's price in dollars, preferring the stored cents over parsing its text
+export function priceAmount(row: PricedRow): number | null {
+  if (row.price_cents !== null && row.price_cents !== undefined) return row.price_cents / 100;
+  const parsed = parseMoney(row.price);
+  return parsed ? parsed.cents / 100 : null;
+}
+
+/**
+ * Price per 100g for weights and per litre for volumes, which is how shelf labels compare
+ * packs. Single items and unknown sizes have no unit price worth showing.
+ */
+export function unitPrice(price: Money, size: UnitSize): { money: Money; per: string } | null {
+  if (size.size <= 0) return null;
+  const grams = size.unit === "kg" ? size.size * 1000 : size.unit === "g" ? size.size : null;
+  if (grams !== null) return { money: { ...price, cents: Math.round((price.cents * 100) / grams) }, per: "100g" };
+  const litres = size.unit === "mL" ? size.size / 1000 : size.unit === "L" ? size.size : null;
+  if (litres !== null) return { money: { ...price, cents: Math.round(price.cents / litres) }, per: "L" };
+  if (size.size > 1) return { money: { ...price, cents: Math.round(price.cents / size.size) }, per: "each" };
+  return null;
+}
+
+// "$0.39 / 100g", using the stored structured price and falling back to the text and item name
+export function unitPriceLabel(row: PricedRow, label: string): string | null {
+  const currency = row.currency || DEFAULT_CURRENCY;
+  const money = row.price_cents !== null && row.price_cents !== undefined
+    ? { cents: row.price_cents, currency }
+    : parseMoney(row.price, currency);
+  const size = row.unit && row.unit_size ? { size: row.unit_size, unit: row.unit } : parseUnitSize(label, row.price);
+  if (!money || !size) return null;
+  const result = unitPrice(money, size);
+  return result ? `${formatMoney(result.money)} / ${result.per}` : null;
+}
+
+/**
+ * The structured columns for a price as typed or printed, written with the text whenever it
+ * changes. `label` is the item name, which is where the pack size usually is.
+ */
+export function structuredPriceFromText(
+  label: string | null | undefined,
+  text: { price?: string | null; discount?: string | null; discount_percentage?: string | null },
+  currency = DEFAULT_CURRENCY
+): StructuredPrice {
+  const size = parseUnitSize(label, text.price);
+  return {
+    price_cents: parseMoney(text.price, currency)?.cents ?? null,
+    discount_cents: parseMoney(text.discount, currency)?.cents ?? null,
+    discount_percent: parsePercent(text.discount_percentage),
+    currency,
+    unit_size: size?.size ?? null,
+    unit: size?.unit ?? null,
+  };
+}
+
+// The pack size columns to write when an item is renamed; a new name without a size keeps the old one
+export function unitSizeForRename(label: string, price?: string | null): Partial<StructuredPrice> {
+  const size = parseUnitSize(label, price);
+  return size ? { unit_size: size.size, unit: size.unit } : {};
+}
+
+// The structured columns to copy when a special or saved item becomes a list row
+export function structuredPriceOf(row: Partial<StructuredPrice>): Partial<StructuredPrice> {
+  return {
+    price_cents: row.price_cents ?? null,
+    discount_cents: row.discount_cents ?? null,
+    discount_percent: row.discount_percent ?? null,
+    currency: row.currency || DEFAULT_CURRENCY,
+    unit_size: row.unit_size ?? null,
+    unit: row.unit ?? null,
+  };
+}
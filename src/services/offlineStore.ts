@@ -0,0 +1,79 @@
+import type { QueuedMutation } from "./syncQueue";
+
+const DB_NAME = "grocery-offline";
+const DB_VERSION = 1;
+const ITEMS_STORE = "items";
+const MUTATIONS_STORE = "mutations";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === "undefined") {
+      reject(new Error("IndexedDB is not available"));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(ITEMS_STORE)) {
+        db.createObjectStore(ITEMS_STORE);
+      }
+      if (!db.objectStoreNames.contains(MUTATIONS_STORE)) {
+        db.createObjectStore(MUTATIONS_STORE, { keyPath: "seq", autoIncrement: true });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+}
+
+function runRequest<T>(storeName: string, mode: IDBTransactionMode, build: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  return openDb().then(
+    (db) =>
+      new Promise<T>((resolve, reject) => {
+        const tx = db.transaction(storeName, mode);
+        const request = build(tx.objectStore(storeName));
+        tx.oncomplete = () => resolve(request.result);
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+      })
+  );
+}
+
+// Cached copy of a list's rows, keyed by list id, so the list renders without network
+export async function saveCachedItems<T>(listId: number, items: T[]): Promise<void> {
+  await runRequest(ITEMS_STORE, "readwrite", (store) => store.put(items, listId));
+}
+
+export async function loadCachedItems<T>(listId: number): Promise<T[] | null> {
+  const result = await runRequest<T[] | undefined>(ITEMS_STORE, "readonly", (store) => store.get(listId));
+  return result ?? null;
+}
+
+export async function enqueueMutation(mutation: QueuedMutation): Promise<void> {
+  // seq is assigned by the store so replay happens in the order changes were made
+  const { seq: _seq, ...record } = mutation;
+  await runRequest(MUTATIONS_STORE, "readwrite", (store) => store.add(record));
+}
+
+export async function getQueuedMutations(): Promise<QueuedMutation[]> {
+  return runRequest<QueuedMutation[]>(MUTATIONS_STORE, "readonly", (store) => store.getAll());
+}
+
+export async function replaceQueuedMutation(mutation: QueuedMutation): Promise<void> {
+  await runRequest(MUTATIONS_STORE, "readwrite", (store) => store.put(mutation));
+}
+
+export async function removeQueuedMutation(seq: number): Promise<void> {
+  await runRequest(MUTATIONS_STORE, "readwrite", (store) => store.delete(seq));
+}
+
+export async function countQueuedMutations(): Promise<number> {
+  return runRequest<number>(MUTATIONS_STORE, "readonly", (store) => store.count());
+}
@@ -0,0 +1,41 @@
+import type { Database } from "@/integrations/supabase/types";
+
+export type PantryItem = Database["public"]["Tables"]["pantry_items"]["Row"];
+
+export type ExpiryStatus = "expired" | "soon" | null;
+
+// How close to its date an item has to be before it's flagged "use soon"
+export const USE_SOON_DAYS = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Whole days from today to the expiry date, negative once it's passed; null when there's no date
+export function daysUntilExpiry(item: Pick<PantryItem, "expires_on">, today = new Date()): number | null {
+  if (!item.expires_on) return null;
+  const [year, month, day] = item.expires_on.split("-").map(Number);
+  const start = new Date(today.getFullYear(), today.getMonth(), today.getDate());
+  return Math.round((new Date(year, month - 1, day).getTime() - start.getTime()) / DAY_MS);
+}
+
+// Only stock that's actually there can go off
+export function expiryStatus(item: Pick<PantryItem, "expires_on" | "quantity">, today = new Date()): ExpiryStatus {
+  const days = daysUntilExpiry(item, today);
+  if (days === null || item.quantity <= 0) return null;
+  if (days < 0) return "expired";
+  return days <= USE_SOON_DAYS ? "soon" : null;
+}
+
+// Expired and use-soon items first, soonest first, then everything else by name
+export function sortPantry(items: PantryItem[], today = new Date()): PantryItem[] {
+  const urgency = (item: PantryItem) => (expiryStatus(item, today) ? daysUntilExpiry(item, today)! : Infinity);
+  return [...items].sort((a, b) => urgency(a) - urgency(b) || a.item.localeCompare(b.item));
+}
+
+export function needsRestock(item: Pick<PantryItem, "quantity" | "restock_below">): boolean {
+  return item.restock_below !== null && item.quantity < item.restock_below;
+}
+
+// Enough to get back up to the threshold
+export function restockQuantity(item: Pick<PantryItem, "quantity" | "restock_below">): number {
+  return Math.max(1, (item.restock_below ?? 0) - item.quantity);
+}
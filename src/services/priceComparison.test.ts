@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { compareItem, matchScore, type StorePrice } from "./priceComparison";
+
+const price = (id: number, store: string, product_name: string, amount: number): StorePrice => ({
+  id,
+  store,
+  product_name,
+  price: amount,
+  unit_price: null,
+  unit: null,
+  captured_at: "2026-10-01T00:00:00Z",
+});
+
+describe("matchScore", () => {
+  it("prefers the product the item names over one it only describes", () => {
+    expect(matchScore("Milk", "Full Cream Milk 2L")).toBeGreaterThan(matchScore("Milk", "Milk Chocolate Block"));
+  });
+
+  it("still matches when the item names the product noun", () => {
+    expect(matchScore("Peanut Butter", "Smooth Peanut Butter 375g")).toBeGreaterThanOrEqual(0.6);
+    expect(matchScore("Cheese", "Tasty Cheese Block 500g")).toBeGreaterThanOrEqual(0.6);
+  });
+});
+
+describe("compareItem", () => {
+  it("recommends milk rather than milk chocolate for Milk", () => {
+    const comparison = compareItem("Milk", 1, [
+      price(1, "coles", "Milk Chocolate Block", 4),
+      price(2, "coles", "Full Cream Milk 2L", 3.1),
+    ]);
+    expect(comparison.matches.coles?.product_name).toBe("Full Cream Milk 2L");
+  });
+});
@@ -0,0 +1,162 @@
+import { normalizePlural } from "@/lib/utils";
+
+export type StoreId = "coles" | "woolworths" | "aldi";
+
+export const STORES: { id: StoreId; label: string }[] = [
+  { id: "coles", label: "Coles" },
+  { id: "woolworths", label: "Woolworths" },
+  { id: "aldi", label: "Aldi" },
+];
+
+export type StorePrice = {
+  id: number;
+  store: string;
+  product_name: string;
+  price: number;
+  unit_price: number | null;
+  unit: string | null;
+  captured_at: string;
+  link?: string | null;
+};
+
+export type StoreMatch = StorePrice & { score: number };
+
+export type ItemComparison = {
+  itemName: string;
+  quantity: number;
+  matches: Partial<Record<StoreId, StoreMatch>>;
+  cheapestStore: StoreId | null;
+};
+
+export type BasketComparison = {
+  items: ItemComparison[];
+  totals: Record<StoreId, { total: number; missing: number }>;
+  cheapestStore: StoreId | null;
+};
+
+// Matches below this share of the item's words are treated as "not stocked"
+const MIN_MATCH_SCORE = 0.6;
+
+// Pack sizes and counts ("2L", "500g", "12") describe the product, not what it is
+const SIZE_TOKEN = /^\d+(\.\d+)?(g|kg|ml|l|pk|pack)?$/;
+const IGNORED_TOKENS = new Set(["pack", "bag", "each", "loaf", "block", "in", "of", "the", "and"]);
+
+// Words that turn whatever comes before them into a different product ("milk chocolate",
+// "peanut butter", "tomato sauce"), unless the item itself names them
+const PRODUCT_NOUNS = new Set([
+  "chocolate", "butter", "sauce", "juice", "soup", "paste", "spread", "powder", "oil",
+  "biscuit", "cake", "chip", "cracker", "bar", "drink", "flavoured", "yoghurt", "cordial",
+]);
+const DIFFERENT_PRODUCT_PENALTY = 0.5;
+
+// Known plurals first ("tomatoes" → "tomato"), otherwise drop a trailing "s" but not "ss"
+function singularize(token: string): string {
+  const mapped = normalizePlural(token);
+  return mapped !== token ? mapped : token.replace(/([^s])s$/, "$1");
+}
+
+function tokenize(name: string): string[] {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9.\s]/g, " ")
+    .split(/\s+/)
+    .filter(token => token && !SIZE_TOKEN.test(token) && !IGNORED_TOKENS.has(token))
+    .map(singularize);
+}
+
+/**
+ * Scores how well a store product name matches a list item name, from 0 to 1.
+ * Every word of the item counts; extra words on the product (brand, variety) cost a little,
+ * and a product noun after the item's words means the item only describes something else,
+ * so "Milk" prefers "Full Cream Milk 2L" over "Milk Chocolate Block".
+ */
+export function matchScore(itemName: string, productName: string): number {
+  const itemTokens = new Set(tokenize(itemName));
+  const productTokens = [...new Set(tokenize(productName))];
+  if (itemTokens.size === 0 || productTokens.length === 0) return 0;
+  const sharedAt = productTokens.flatMap((token, index) => (itemTokens.has(token) ? [index] : []));
+  const coverage = sharedAt.length / itemTokens.size;
+  if (coverage === 0) return 0;
+  const extraWords = productTokens.length - sharedAt.length;
+  const lastShared = sharedAt[sharedAt.length - 1];
+  const describesOtherProduct = productTokens.slice(lastShared + 1).some(token => PRODUCT_NOUNS.has(token));
+  return coverage - Math.min(0.3, extraWords * 0.05) - (describesOtherProduct ? DIFFERENT_PRODUCT_PENALTY : 0);
+}
+
+// Only the most recent capture of each product counts
+function latestPrices(prices: StorePrice[]): StorePrice[] {
+  const latest = new Map<string, StorePrice>();
+  for (const price of prices) {
+    const key = `${price.store}:${price.product_name.toLowerCase()}`;
+    const existing = latest.get(key);
+    if (!existing || price.captured_at > existing.captured_at) latest.set(key, price);
+  }
+  return Array.from(latest.values());
+}
+
+function findMatches(itemName: string, prices: StorePrice[]): Partial<Record<StoreId, StoreMatch>> {
+  const matches: Partial<Record<StoreId, StoreMatch>> = {};
+  for (const price of prices) {
+    const store = price.store as StoreId;
+    const score = matchScore(itemName, price.product_name);
+    if (score < MIN_MATCH_SCORE) continue;
+    const current = matches[store];
+    // Best name match wins; equal matches go to the cheaper product
+    if (!current || score > current.score || (score === current.score && price.price < current.price)) {
+      matches[store] = { ...price, score };
+    }
+  }
+  return matches;
+}
+
+function cheapestOf(matches: Partial<Record<StoreId, StoreMatch>>): StoreId | null {
+  let cheapest: StoreId | null = null;
+  for (const { id } of STORES) {
+    const match = matches[id];
+    if (match && (cheapest === null || match.price < matches[cheapest]!.price)) cheapest = id;
+  }
+  return cheapest;
+}
+
+export function compareItem(itemName: string, quantity: number, prices: StorePrice[]): ItemComparison {
+  const matches = findMatches(itemName, latestPrices(prices));
+  return { itemName, quantity, matches, cheapestStore: cheapestOf(matches) };
+}
+
+/**
+ * Compares a whole list across stores. A store's total only covers the items it stocks,
+ * so the cheapest basket is chosen among the stores missing the fewest items.
+ */
+export function compareBasket(items: { Item: string; Quantity?: number }[], prices: StorePrice[]): BasketComparison {
+  const current = latestPrices(prices);
+  const comparisons = items.map(item => {
+    const quantity = item.Quantity || 1;
+    const matches = findMatches(item.Item, current);
+    return { itemName: item.Item, quantity, matches, cheapestStore: cheapestOf(matches) };
+  });
+
+  const totals = Object.fromEntries(STORES.map(({ id }) => [id, { total: 0, missing: 0 }])) as BasketComparison["totals"];
+  for (const comparison of comparisons) {
+    for (const { id } of STORES) {
+      const match = comparison.matches[id];
+      if (match) totals[id].total += match.price * comparison.quantity;
+      else totals[id].missing++;
+    }
+  }
+
+  let cheapestStore: StoreId | null = null;
+  if (comparisons.some(c => c.cheapestStore)) {
+    for (const { id } of STORES) {
+      const best = cheapestStore ? totals[cheapestStore] : null;
+      if (!best || totals[id].missing < best.missing || (totals[id].missing === best.missing && totals[id].total < best.total)) {
+        cheapestStore = id;
+      }
+    }
+  }
+
+  return { items: comparisons, totals, cheapestStore };
+}
+
+export function formatPrice(amount: number): string {
+  return `$${amount.toFixed(2)}`;
+}
@@ -0,0 +1,51 @@
+export type VariantRow = {
+  id: number;
+  item: string;
+  product_id?: number | null;
+  variant?: string | null;
+  products?: { name: string } | null;
+};
+
+export type ProductGroup<T extends VariantRow> = {
+  key: string;
+  name: string;
+  variants: T[];
+};
+
+/**
+ * Collapses catalogue rows into one entry per product, keeping the catalogue order of the
+ * first variant seen. Rows without a product stand alone as a group of one.
+ */
+export function groupVariants<T extends VariantRow>(rows: T[]): ProductGroup<T>[] {
+  const groups = new Map<string, ProductGroup<T>>();
+  for (const row of rows) {
+    const key = row.product_id ? `product:${row.product_id}` : `special:${row.id}`;
+    const group = groups.get(key);
+    if (group) group.variants.push(row);
+    else groups.set(key, { key, name: productName(row), variants: [row] });
+  }
+  return Array.from(groups.values());
+}
+
+// Name the list uses for a catalogue row: the parent product when it's a variant, otherwise its own name
+export function productName(row: VariantRow): string {
+  return row.product_id && row.variant && row.products?.name ? row.products.name : row.item;
+}
+
+export function variantOf(row: VariantRow): string | null {
+  return row.product_id && row.variant && row.products?.name ? row.variant : null;
+}
+
+// A list row holds one variant of a product, so two variants of the same product are separate rows
+export function isSameListItem(
+  listRow: { Item: string; variant?: string | null },
+  name: string,
+  variant: string | null
+): boolean {
+  const normalize = (value: string) => value.toLowerCase().trim();
+  return normalize(listRow.Item) === normalize(name) && normalize(listRow.variant ?? '') === normalize(variant ?? '');
+}
+
+export function formatWithVariant(name: string, variant?: string | null): string {
+  return variant ? `${name} (${variant})` : name;
+}
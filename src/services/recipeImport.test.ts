@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { extractJsonLdRecipe, importRecipe } from "./recipeImport";
+
+const page = (jsonLd: unknown) =>
+  `<!doctype html><html><head>
+    <script type="application/ld+json">{ not json</script>
+    <script type="application/ld+json">${JSON.stringify(jsonLd)}</script>
+  </head><body></body></html>`;
+
+describe("extractJsonLdRecipe", () => {
+  it("finds a Recipe inside @graph and decodes its text", () => {
+    const recipe = extractJsonLdRecipe(page({
+      "@graph": [
+        { "@type": "WebPage", name: "Ignored" },
+        {
+          "@type": ["Recipe"],
+          name: "Mac &amp; Cheese",
+          recipeYield: ["4", "4 servings"],
+          recipeIngredient: ["250 g macaroni", "2 cups <b>grated</b> cheddar"],
+        },
+      ],
+    }));
+    expect(recipe).toEqual({
+      name: "Mac & Cheese",
+      servings: 4,
+      ingredients: [
+        { name: "macaroni", quantity: 250, unit: "g", notes: null },
+        { name: "grated cheddar", quantity: 2, unit: "cup", notes: null },
+      ],
+      source: "json-ld",
+    });
+  });
+
+  it("returns null when no block is a Recipe", () => {
+    expect(extractJsonLdRecipe(page({ "@type": "Article" }))).toBeNull();
+  });
+});
+
+describe("importRecipe", () => {
+  it("reads a pasted title, serves line and ingredients", () => {
+    const recipe = importRecipe("Pancakes\n\nServes 2\n1 cup flour\n1 egg\n");
+    expect(recipe).toMatchObject({ name: "Pancakes", servings: 2, source: "text" });
+    expect(recipe.ingredients.map(ingredient => ingredient.name)).toEqual(["flour", "egg"]);
+  });
+
+  it("throws a SyntaxError when there's nothing to import", () => {
+    expect(() => importRecipe("<html><body>No recipe</body></html>", "page.html")).toThrow(SyntaxError);
+    expect(() => importRecipe("\n\n")).toThrow(SyntaxError);
+  });
+});
@@ -0,0 +1,118 @@
+// Recipe importer behind /api/recipe-import. Reads a saved recipe page's schema.org Recipe
+// JSON-LD, or a pasted ingredient list, into a recipe ready for review.
+// Relative imports only: the edge function bundles this without the @ alias.
+import { parseIngredientLine, parseIngredientText, type ParsedIngredient } from "./ingredients";
+
+export type ImportedRecipe = {
+  name: string;
+  servings: number | null;
+  ingredients: ParsedIngredient[];
+  source: "json-ld" | "text";
+};
+
+const JSON_LD_RE = /<script[^>]*type\s*=\s*["']?application\/ld\+json["']?[^>]*>([\s\S]*?)<\/script>/gi;
+const SERVES_RE = /^\s*(?:serves|servings|makes|yield|yields)\s*:?\s*(\d+)/i;
+
+const ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'", nbsp: " ", frac12: "½", frac14: "¼", frac34: "¾" };
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z0-9]+);/gi, (entity, code: string) => {
+    if (code[0] === "#") {
+      const point = code[1].toLowerCase() === "x" ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(point) ? String.fromCodePoint(point) : entity;
+    }
+    return ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+const plainText = (value: string) => decodeEntities(value.replace(/<[^>]*>/g, " ")).replace(/\s+/g, " ").trim();
+
+// Recipe nodes hide in arrays, @graph and mainEntity depending on the site's SEO plugin
+function findRecipeNode(node: unknown): Record<string, unknown> | null {
+  if (Array.isArray(node)) {
+    for (const child of node) {
+      const found = findRecipeNode(child);
+      if (found) return found;
+    }
+    return null;
+  }
+  if (!node || typeof node !== "object") return null;
+  const record = node as Record<string, unknown>;
+  const type = record["@type"];
+  if (type === "Recipe" || (Array.isArray(type) && type.includes("Recipe"))) return record;
+  return findRecipeNode(record["@graph"]) ?? findRecipeNode(record.mainEntity);
+}
+
+// recipeYield is "4", "4 servings", ["4", "4 servings"] or 4
+function parseYield(value: unknown): number | null {
+  const first = Array.isArray(value) ? value[0] : value;
+  const match = String(first ?? "").match(/\d+/);
+  const servings = match ? parseInt(match[0], 10) : NaN;
+  return servings > 0 ? servings : null;
+}
+
+function fromRecipeNode(recipe: Record<string, unknown>): ImportedRecipe {
+  const lines = Array.isArray(recipe.recipeIngredient) ? recipe.recipeIngredient : Array.isArray(recipe.ingredients) ? recipe.ingredients : [];
+  return {
+    name: typeof recipe.name === "string" ? plainText(recipe.name) : "",
+    servings: parseYield(recipe.recipeYield),
+    ingredients: lines
+      .filter((line): line is string => typeof line === "string")
+      .map(line => parseIngredientLine(plainText(line)))
+      .filter((ingredient): ingredient is ParsedIngredient => ingredient !== null),
+    source: "json-ld",
+  };
+}
+
+/**
+ * Finds the schema.org Recipe in a page's JSON-LD blocks. Returns null when there isn't one;
+ * blocks that aren't valid JSON are skipped, since pages often carry several.
+ */
+export function extractJsonLdRecipe(html: string): ImportedRecipe | null {
+  for (const [, block] of html.matchAll(JSON_LD_RE)) {
+    let data: unknown;
+    try {
+      data = JSON.parse(block.trim());
+    } catch {
+      continue;
+    }
+    const recipe = findRecipeNode(data);
+    if (recipe) return fromRecipeNode(recipe);
+  }
+  return null;
+}
+
+// Pasted text: an optional title line followed by a blank line, an optional "Serves 4", then ingredients
+function parseRecipeText(text: string): ImportedRecipe {
+  const lines = text.split(/\r?\n/);
+  let servings: number | null = null;
+  const remaining = lines.filter(line => {
+    const serves = line.match(SERVES_RE);
+    if (serves && servings === null) servings = parseInt(serves[1], 10);
+    return !serves;
+  });
+  const firstIndex = remaining.findIndex(line => line.trim());
+  const hasTitle = firstIndex >= 0 && !remaining[firstIndex + 1]?.trim() && firstIndex + 1 < remaining.length;
+  return {
+    name: hasTitle ? remaining[firstIndex].trim() : "",
+    servings,
+    ingredients: parseIngredientText(remaining.slice(hasTitle ? firstIndex + 1 : 0).join("\n")),
+    source: "text",
+  };
+}
+
+/**
+ * Reads an uploaded HTML page or pasted text into a recipe. Throws a SyntaxError when a page
+ * has no Recipe JSON-LD or nothing in the text reads as an ingredient.
+ */
+export function importRecipe(content: string, filename?: string): ImportedRecipe {
+  const isHtml = /\.html?$/i.test(filename ?? "") || /<(?:!doctype|html|head|script)\b/i.test(content);
+  if (isHtml) {
+    const recipe = extractJsonLdRecipe(content);
+    if (!recipe) throw new SyntaxError("no schema.org Recipe found in this page");
+    return recipe;
+  }
+  const recipe = parseRecipeText(content);
+  if (recipe.ingredients.length === 0) throw new SyntaxError("no ingredients found in the text");
+  return recipe;
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { predictReplenishment, type ReplenishmentEvent } from "./replenishment";
+
+const bought = (name: string, date: string, quantity = 1): ReplenishmentEvent => ({
+  item: name,
+  normalized_name: name.toLowerCase(),
+  quantity,
+  purchased_at: `${date}T02:00:00Z`,
+});
+const at = (date: string) => new Date(`${date}T02:00:00Z`).getTime();
+
+describe("predictReplenishment", () => {
+  const weeklyMilk = [bought("Milk", "2026-10-01", 2), bought("Milk", "2026-10-08", 2), bought("Milk", "2026-10-15", 3)];
+
+  it("suggests an item a little before its usual interval is up", () => {
+    const [suggestion] = predictReplenishment(weeklyMilk, at("2026-10-21"));
+    expect(suggestion).toMatchObject({ key: "milk", name: "Milk", quantity: 2, intervalDays: 7, dueAt: "2026-10-22T02:00:00.000Z" });
+    expect(suggestion.progress).toBeCloseTo(6 / 7);
+  });
+
+  it("waits until the item is nearly due", () => {
+    expect(predictReplenishment(weeklyMilk, at("2026-10-19"))).toEqual([]);
+  });
+
+  it("stops suggesting once the habit looks stopped", () => {
+    expect(predictReplenishment(weeklyMilk, at("2026-11-30"))).toEqual([]);
+  });
+
+  it("needs three shopping days, counting one day once", () => {
+    const events = [bought("Bread", "2026-10-01"), bought("Bread", "2026-10-01"), bought("Bread", "2026-10-04")];
+    expect(predictReplenishment(events, at("2026-10-07"))).toEqual([]);
+  });
+
+  it("uses the median gap so one late shop doesn't stretch the interval", () => {
+    const events = ["2026-09-01", "2026-09-04", "2026-09-07", "2026-09-20", "2026-09-23"].map(date => bought("Eggs", date));
+    expect(predictReplenishment(events, at("2026-09-26"))[0].intervalDays).toBe(3);
+  });
+
+  it("puts the most overdue item first", () => {
+    const bread = ["2026-10-12", "2026-10-14", "2026-10-16"].map(date => bought("Bread", date));
+    const suggestions = predictReplenishment([...weeklyMilk, ...bread], at("2026-10-21"));
+    expect(suggestions.map(s => s.key)).toEqual(["bread", "milk"]);
+  });
+});
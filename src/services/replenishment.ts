@@ -0,0 +1,104 @@
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Two gaps between purchases is the least that says "this is a habit"
+const MIN_PURCHASES = 3;
+// Suggest a little before the predicted day so the item is on the list for the shop that needs it
+const DUE_THRESHOLD = 0.85;
+// Past this many intervals overdue the habit has probably stopped
+const STALE_AFTER_INTERVALS = 3;
+
+const SNOOZE_STORAGE_KEY = 'replenishment-snoozed';
+const DISMISS_STORAGE_KEY = 'replenishment-dismissed';
+
+export const SNOOZE_DAYS = 2;
+
+export type ReplenishmentEvent = {
+  item: string;
+  normalized_name: string;
+  quantity: number;
+  purchased_at: string;
+};
+
+export type ReplenishmentSuggestion = {
+  key: string;
+  name: string;
+  quantity: number;
+  intervalDays: number;
+  lastPurchasedAt: string;
+  dueAt: string;
+  // How far through its usual interval the item is; 1 means due today
+  progress: number;
+};
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * Estimates how often each item is bought and predicts when it's next due.
+ * Purchases on the same day count once, and the median gap is used so one missed or doubled-up
+ * shop doesn't skew the interval. Items are returned once they're close to due, most overdue first.
+ */
+export function predictReplenishment(events: ReplenishmentEvent[], now = Date.now()): ReplenishmentSuggestion[] {
+  const byItem = new Map<string, ReplenishmentEvent[]>();
+  for (const event of events) {
+    const list = byItem.get(event.normalized_name) ?? [];
+    list.push(event);
+    byItem.set(event.normalized_name, list);
+  }
+
+  const suggestions: ReplenishmentSuggestion[] = [];
+  byItem.forEach((purchases, key) => {
+    const days = Array.from(new Set(purchases.map(p => Math.floor(new Date(p.purchased_at).getTime() / DAY_MS)))).sort((a, b) => a - b);
+    if (days.length < MIN_PURCHASES) return;
+    const gaps = days.slice(1).map((day, i) => day - days[i]);
+    const intervalDays = median(gaps);
+    if (intervalDays <= 0) return;
+
+    const latest = purchases.reduce((a, b) => (a.purchased_at > b.purchased_at ? a : b));
+    const lastTime = new Date(latest.purchased_at).getTime();
+    const progress = (now - lastTime) / (intervalDays * DAY_MS);
+    if (progress < DUE_THRESHOLD || progress > STALE_AFTER_INTERVALS) return;
+
+    suggestions.push({
+      key,
+      name: latest.item,
+      quantity: Math.max(1, Math.round(median(purchases.map(p => p.quantity)))),
+      intervalDays,
+      lastPurchasedAt: latest.purchased_at,
+      dueAt: new Date(lastTime + intervalDays * DAY_MS).toISOString(),
+      progress,
+    });
+  });
+
+  return suggestions.sort((a, b) => b.progress - a.progress);
+}
+
+function readMap(key: string): Record<string, string | number> {
+  try {
+    return JSON.parse(localStorage.getItem(key) || '{}');
+  } catch {
+    return {};
+  }
+}
+
+export function snoozeSuggestion(key: string, days = SNOOZE_DAYS, now = Date.now()) {
+  const snoozed = readMap(SNOOZE_STORAGE_KEY);
+  snoozed[key] = now + days * DAY_MS;
+  localStorage.setItem(SNOOZE_STORAGE_KEY, JSON.stringify(snoozed));
+}
+
+// A dismissal lasts until the item is bought again, then it's back in the rotation
+export function dismissSuggestion(suggestion: ReplenishmentSuggestion) {
+  const dismissed = readMap(DISMISS_STORAGE_KEY);
+  dismissed[suggestion.key] = suggestion.lastPurchasedAt;
+  localStorage.setItem(DISMISS_STORAGE_KEY, JSON.stringify(dismissed));
+}
+
+export function isHidden(suggestion: ReplenishmentSuggestion, now = Date.now()): boolean {
+  const snoozedUntil = readMap(SNOOZE_STORAGE_KEY)[suggestion.key];
+  if (typeof snoozedUntil === 'number' && snoozedUntil > now) return true;
+  return readMap(DISMISS_STORAGE_KEY)[suggestion.key] === suggestion.lastPurchasedAt;
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { learnRoute, orderByRoute, type RouteEvent } from "./shoppingRoute";
+
+const trip = (tripId: string, date: string, names: string[]): RouteEvent[] =>
+  names.map((normalized_name, index) => ({
+    normalized_name,
+    trip_id: tripId,
+    sequence: index + 1,
+    purchased_at: `${date}T0${index}:00:00Z`,
+  }));
+
+describe("learnRoute", () => {
+  it("places each item between 0 (first pick) and 1 (last pick)", () => {
+    const route = learnRoute(trip("a", "2026-10-01", ["banana", "bread", "milk"]));
+    expect(Object.fromEntries(route)).toEqual({ banana: 0, bread: 0.5, milk: 1 });
+  });
+
+  it("weights the latest trip more heavily", () => {
+    const route = learnRoute([
+      ...trip("old", "2026-10-01", ["milk", "bread"]),
+      ...trip("new", "2026-10-08", ["bread", "milk"]),
+    ]);
+    expect(route.get("bread")!).toBeLessThan(route.get("milk")!);
+  });
+
+  it("ignores trips with a single pick", () => {
+    expect(learnRoute(trip("a", "2026-10-01", ["milk"])).size).toBe(0);
+  });
+});
+
+describe("orderByRoute", () => {
+  it("orders known items along the route and keeps the rest after them in list order", () => {
+    const route = new Map([["banana", 0], ["milk", 1]]);
+    const items = [{ Item: "Milk" }, { Item: "Soap" }, { Item: "Bananas" }, { Item: "Foil" }];
+    expect(orderByRoute(items, route).map(item => item.Item)).toEqual(["Bananas", "Milk", "Soap", "Foil"]);
+  });
+});
@@ -0,0 +1,107 @@
+import { normalizePlural } from "@/lib/utils";
+
+const TRIP_STORAGE_KEY = 'shopping-trip';
+const STORE_STORAGE_KEY = 'shopping-store';
+
+// Ticks more than this far apart are treated as separate trips
+const TRIP_GAP_MS = 2 * 60 * 60 * 1000;
+// Each older trip counts this much less than the one after it, so a changed store layout wins out
+const TRIP_DECAY = 0.8;
+
+type TripState = {
+  tripId: string;
+  sequence: number;
+  lastPurchaseAt: number;
+};
+
+export type TripPosition = {
+  tripId: string;
+  sequence: number;
+  store: string | null;
+};
+
+export type RouteEvent = {
+  normalized_name: string;
+  trip_id: string;
+  sequence: number;
+  purchased_at: string;
+};
+
+export function getCurrentStore(): string | null {
+  return localStorage.getItem(STORE_STORAGE_KEY);
+}
+
+export function setCurrentStore(store: string | null) {
+  if (store) localStorage.setItem(STORE_STORAGE_KEY, store);
+  else localStorage.removeItem(STORE_STORAGE_KEY);
+}
+
+/**
+ * Claims the next pick position in the current trip, starting a new trip when the
+ * last purchase was long enough ago.
+ */
+export function nextTripPosition(now = Date.now()): TripPosition {
+  let trip: TripState | null = null;
+  try {
+    trip = JSON.parse(localStorage.getItem(TRIP_STORAGE_KEY) || 'null');
+  } catch {
+    trip = null;
+  }
+  if (!trip || now - trip.lastPurchaseAt > TRIP_GAP_MS) {
+    trip = { tripId: crypto.randomUUID(), sequence: 0, lastPurchaseAt: now };
+  }
+  trip = { ...trip, sequence: trip.sequence + 1, lastPurchaseAt: now };
+  localStorage.setItem(TRIP_STORAGE_KEY, JSON.stringify(trip));
+  return { tripId: trip.tripId, sequence: trip.sequence, store: getCurrentStore() };
+}
+
+/**
+ * Learns where along the walk-through each item is usually picked up.
+ * Every trip is scaled to 0 (first pick) .. 1 (last pick) so short and long trips
+ * compare, then positions are averaged across trips with recent trips weighted higher.
+ */
+export function learnRoute(events: RouteEvent[]): Map<string, number> {
+  const trips = new Map<string, RouteEvent[]>();
+  for (const event of events) {
+    const trip = trips.get(event.trip_id) ?? [];
+    trip.push(event);
+    trips.set(event.trip_id, trip);
+  }
+
+  // Newest trip first so its weight is 1
+  const orderedTrips = Array.from(trips.values())
+    .filter(trip => trip.length > 1)
+    .sort((a, b) => latest(b) - latest(a));
+
+  const sums = new Map<string, { weighted: number; weight: number }>();
+  orderedTrips.forEach((trip, age) => {
+    const weight = Math.pow(TRIP_DECAY, age);
+    const picks = [...trip].sort((a, b) => a.sequence - b.sequence);
+    picks.forEach((event, index) => {
+      const position = index / (picks.length - 1);
+      const entry = sums.get(event.normalized_name) ?? { weighted: 0, weight: 0 };
+      entry.weighted += position * weight;
+      entry.weight += weight;
+      sums.set(event.normalized_name, entry);
+    });
+  });
+
+  const route = new Map<string, number>();
+  sums.forEach(({ weighted, weight }, name) => route.set(name, weighted / weight));
+  return route;
+}
+
+function latest(trip: RouteEvent[]): number {
+  return Math.max(...trip.map(e => new Date(e.purchased_at).getTime()));
+}
+
+/**
+ * Orders items along the learned route. Items never bought on a recorded trip keep
+ * their current relative order and go after the ones we know where to find.
+ */
+export function orderByRoute<T extends { Item: string }>(items: T[], route: Map<string, number>): T[] {
+  const known = items.filter(item => route.has(normalizePlural(item.Item)));
+  const unknown = items.filter(item => !route.has(normalizePlural(item.Item)));
+  known.sort((a, b) => route.get(normalizePlural(a.Item))! - route.get(normalizePlural(b.Item))!);
+  return [...known, ...unknown];
+}
@@ -0,0 +1,129 @@
+import { supabase } from "@/integrations/supabase/client";
+import { normalizePlural } from "@/lib/utils";
+
+// One trip per list, so shopping two lists at once doesn't overwrite either basket
+const sessionStorageKey = (listId: number) => `shopping-trip-session:${listId}`;
+// Where the single trip was kept before trips were stored per list
+const LEGACY_SESSION_STORAGE_KEY = 'shopping-trip-session';
+
+// An item ticked off during a trip. Nothing is written until the trip is finished.
+export type BasketEntry = {
+  itemId: number;
+  Item: string;
+  img: string | null;
+  variant: string | null;
+  category: string | null;
+  quantity: number;
+  // Per unit, starting from the list's price and corrected to what the shelf actually said
+  pricePaid: number | null;
+  savings: number | null;
+  sequence: number;
+  pickedAt: string;
+};
+
+export type TripSession = {
+  tripId: string;
+  listId: number;
+  store: string | null;
+  startedAt: string;
+  basket: BasketEntry[];
+};
+
+export type TripSummary = {
+  store: string | null;
+  minutes: number;
+  items: number;
+  quantity: number;
+  spent: number;
+  savings: number;
+  unpriced: number;
+  basket: BasketEntry[];
+};
+
+// The trip survives a reload, so closing the tab mid-shop doesn't lose the basket
+export function loadTripSession(listId: number): TripSession | null {
+  try {
+    const session: TripSession | null = JSON.parse(localStorage.getItem(sessionStorageKey(listId)) || 'null');
+    if (session) return session.listId === listId ? session : null;
+    const legacy: TripSession | null = JSON.parse(localStorage.getItem(LEGACY_SESSION_STORAGE_KEY) || 'null');
+    if (!legacy || legacy.listId !== listId) return null;
+    saveTripSession(listId, legacy);
+    localStorage.removeItem(LEGACY_SESSION_STORAGE_KEY);
+    return legacy;
+  } catch {
+    return null;
+  }
+}
+
+export function saveTripSession(listId: number, session: TripSession | null) {
+  if (session) localStorage.setItem(sessionStorageKey(listId), JSON.stringify(session));
+  else localStorage.removeItem(sessionStorageKey(listId));
+}
+
+export function startTripSession(listId: number, store: string | null, now = new Date()): TripSession {
+  return { tripId: crypto.randomUUID(), listId, store, startedAt: now.toISOString(), basket: [] };
+}
+
+// Pick order is what the shopping route is learned from, so each pick takes the next sequence number
+export function pickItem(session: TripSession, entry: Omit<BasketEntry, 'sequence' | 'pickedAt'>, now = new Date()): TripSession {
+  const sequence = session.basket.reduce((max, e) => Math.max(max, e.sequence), 0) + 1;
+  return { ...session, basket: [...session.basket, { ...entry, sequence, pickedAt: now.toISOString() }] };
+}
+
+export function unpickItem(session: TripSession, itemId: number): TripSession {
+  return { ...session, basket: session.basket.filter(e => e.itemId !== itemId) };
+}
+
+export function setPricePaid(session: TripSession, itemId: number, pricePaid: number | null): TripSession {
+  return { ...session, basket: session.basket.map(e => (e.itemId === itemId ? { ...e, pricePaid } : e)) };
+}
+
+// Picks of items created offline hold temporary ids until the item reaches the server
+export function replaceTripItemIds(session: TripSession, ids: Record<number, number>): TripSession {
+  if (!session.basket.some(e => e.itemId in ids)) return session;
+  return { ...session, basket: session.basket.map(e => (e.itemId in ids ? { ...e, itemId: ids[e.itemId] } : e)) };
+}
+
+export function summarizeTrip(session: TripSession, finishedAt = new Date()): TripSummary {
+  const basket = [...session.basket].sort((a, b) => a.sequence - b.sequence);
+  const cents = (amount: number | null, quantity: number) => Math.round((amount ?? 0) * 100) * quantity;
+  return {
+    store: session.store,
+    minutes: Math.max(0, Math.round((finishedAt.getTime() - new Date(session.startedAt).getTime()) / 60000)),
+    items: basket.length,
+    quantity: basket.reduce((sum, e) => sum + e.quantity, 0),
+    spent: basket.reduce((sum, e) => sum + cents(e.pricePaid, e.quantity), 0) / 100,
+    savings: basket.reduce((sum, e) => sum + cents(e.savings, e.quantity), 0) / 100,
+    unpriced: basket.filter(e => e.pricePaid === null).length,
+    basket,
+  };
+}
+
+/**
+ * Writes the whole trip to purchase history and takes the picked items off the list, in one
+ * transaction. Safe to retry: a trip that already made it is skipped by the server.
+ */
+export async function commitTrip(session: TripSession): Promise<void> {
+  const { error } = await supabase.rpc('finish_shopping_trip', {
+    trip: {
+      id: session.tripId,
+      list_id: session.listId,
+      store: session.store,
+      started_at: session.startedAt,
+      picks: session.basket.map(e => ({
+        item_id: e.itemId,
+        item: e.Item,
+        normalized_name: normalizePlural(e.Item),
+        quantity: e.quantity,
+        price_paid: e.pricePaid,
+        savings: e.savings,
+        img: e.img,
+        variant: e.variant,
+        category: e.category,
+        sequence: e.sequence,
+        picked_at: e.pickedAt,
+      })),
+    },
+  });
+  if (error) throw error;
+}
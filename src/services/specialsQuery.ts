@@ -0,0 +1,101 @@
+import { parsePercent, priceAmount, type PricedRow } from "./money";
+import type { ProductGroup, VariantRow } from "./productVariants";
+
+export type SpecialsSort = "relevance" | "discount" | "price-asc" | "price-desc" | "name";
+
+export type SpecialsQuery = {
+  search: string;
+  category: string | null;
+  minDiscount: number | null;
+  minPrice: number | null;
+  maxPrice: number | null;
+  sort: SpecialsSort;
+};
+
+type SpecialsRow = VariantRow & PricedRow & {
+  discount_percentage: string | number | null;
+};
+
+export const DEFAULT_SPECIALS_QUERY: SpecialsQuery = {
+  search: "",
+  category: null,
+  minDiscount: null,
+  minPrice: null,
+  maxPrice: null,
+  sort: "relevance",
+};
+
+const QUERY_KEY = "specials-last-query";
+
+export function loadSpecialsQuery(): SpecialsQuery {
+  try {
+    const saved = localStorage.getItem(QUERY_KEY);
+    return saved ? { ...DEFAULT_SPECIALS_QUERY, ...JSON.parse(saved) } : DEFAULT_SPECIALS_QUERY;
+  } catch {
+    return DEFAULT_SPECIALS_QUERY;
+  }
+}
+
+export function saveSpecialsQuery(query: SpecialsQuery) {
+  localStorage.setItem(QUERY_KEY, JSON.stringify(query));
+}
+
+// How many of the search box's filters are narrowing the catalogue (category tabs are counted separately)
+export function activeFilterCount(query: SpecialsQuery): number {
+  return [query.minDiscount, query.minPrice, query.maxPrice].filter(value => value !== null).length;
+}
+
+// A product's cheapest variant and its biggest discount, which is what its card advertises
+const lowestPrice = (group: ProductGroup<SpecialsRow>) => {
+  const prices = group.variants.map(priceAmount).filter((p): p is number => p !== null);
+  return prices.length > 0 ? Math.min(...prices) : null;
+};
+
+const biggestDiscount = (group: ProductGroup<SpecialsRow>) => {
+  const discounts = group.variants
+    .map(v => v.discount_percent ?? parsePercent(v.discount_percentage))
+    .filter((d): d is number => d !== null);
+  return discounts.length > 0 ? Math.max(...discounts) : null;
+};
+
+/**
+ * Narrows products to those matching the search words (in any order, against the product
+ * and its variants' names) and the discount and price filters. Category is handled by
+ * the caller along with the user's category preferences.
+ */
+export function filterSpecials<T extends SpecialsRow>(groups: ProductGroup<T>[], query: SpecialsQuery): ProductGroup<T>[] {
+  const words = query.search.toLowerCase().split(/\s+/).filter(Boolean);
+  return groups.filter(group => {
+    if (words.length > 0) {
+      const text = [group.name, ...group.variants.map(v => `${v.item} ${v.variant ?? ""}`)].join(" ").toLowerCase();
+      if (!words.every(word => text.includes(word))) return false;
+    }
+    if (query.minDiscount !== null && (biggestDiscount(group) ?? 0) < query.minDiscount) return false;
+    if (query.minPrice !== null || query.maxPrice !== null) {
+      const price = lowestPrice(group);
+      if (price === null) return false;
+      if (query.minPrice !== null && price < query.minPrice) return false;
+      if (query.maxPrice !== null && price > query.maxPrice) return false;
+    }
+    return true;
+  });
+}
+
+// "relevance" keeps the order it's given (preferred categories first, then catalogue order)
+export function sortSpecials<T extends SpecialsRow>(groups: ProductGroup<T>[], sort: SpecialsSort): ProductGroup<T>[] {
+  if (sort === "relevance") return groups;
+  const sorted = [...groups];
+  // Products without a price or discount sink to the bottom whichever way the list is sorted
+  const byValue = (value: (g: ProductGroup<T>) => number | null, direction: 1 | -1) =>
+    (a: ProductGroup<T>, b: ProductGroup<T>) => {
+      const va = value(a);
+      const vb = value(b);
+      if (va === null || vb === null) return (va === null ? 1 : 0) - (vb === null ? 1 : 0);
+      return (va - vb) * direction;
+    };
+  if (sort === "discount") sorted.sort(byValue(biggestDiscount, -1));
+  else if (sort === "price-asc") sorted.sort(byValue(lowestPrice, 1));
+  else if (sort === "price-desc") sorted.sort(byValue(lowestPrice, -1));
+  else sorted.sort((a, b) => a.name.localeCompare(b.name));
+  return sorted;
+}
@@ -0,0 +1,117 @@
+import { getCategoryForItem, UNCATEGORISED } from "@/lib/utils";
+import { parseMoney, parsePercent, priceAmount } from "./money";
+
+export type SpendPeriod = "week" | "month";
+
+export type PurchaseRecord = {
+  item: string;
+  normalized_name: string;
+  quantity: number;
+  price_paid: number | null;
+  savings: number | null;
+  purchased_at: string;
+  category: string | null;
+};
+
+export type PeriodSpend = { key: string; label: string; total: number; savings: number };
+export type CategorySpend = { category: string; total: number };
+export type ItemFrequency = { key: string; name: string; times: number; quantity: number; spent: number };
+export type PricePoint = { date: string; price: number };
+
+/**
+ * Works out how much a special saved per unit. A "Save $2" style description is used as is;
+ * otherwise the saving is recovered from the sale price and the percentage off.
+ */
+export function specialSavings(
+  price: string | null | undefined,
+  discount: string | null | undefined,
+  discountPercentage: string | number | null | undefined
+): number | null {
+  if (discount && /save/i.test(discount)) {
+    const saved = parseMoney(discount);
+    if (saved !== null) return saved.cents / 100;
+  }
+  // Multi-buy prices ("2 for $5") are per item, like the discount
+  const salePrice = priceAmount({ price });
+  const percent = parsePercent(discountPercentage);
+  if (salePrice === null || percent === null || percent <= 0 || percent >= 100) return null;
+  return Math.round((salePrice * percent / (100 - percent)) * 100) / 100;
+}
+
+function lineTotal(record: PurchaseRecord): number {
+  return (record.price_paid ?? 0) * record.quantity;
+}
+
+function periodStart(date: Date, period: SpendPeriod): Date {
+  if (period === "month") return new Date(date.getFullYear(), date.getMonth(), 1);
+  // Weeks start on Monday
+  const start = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+  return start;
+}
+
+function periodLabel(start: Date, period: SpendPeriod): string {
+  return period === "month"
+    ? start.toLocaleDateString("en-US", { month: "short", year: "2-digit" })
+    : start.toLocaleDateString("en-US", { day: "numeric", month: "short" });
+}
+
+/**
+ * Totals spend and savings for the last `count` weeks or months, oldest first.
+ * Periods with no purchases are included as zero so the chart keeps an even time axis.
+ */
+export function spendByPeriod(records: PurchaseRecord[], period: SpendPeriod, count: number, now = new Date()): PeriodSpend[] {
+  const periods: PeriodSpend[] = [];
+  let cursor = periodStart(now, period);
+  for (let i = 0; i < count; i++) {
+    periods.unshift({ key: cursor.toISOString(), label: periodLabel(cursor, period), total: 0, savings: 0 });
+    cursor = period === "month"
+      ? new Date(cursor.getFullYear(), cursor.getMonth() - 1, 1)
+      : new Date(cursor.getFullYear(), cursor.getMonth(), cursor.getDate() - 7);
+  }
+  const byKey = new Map(periods.map(p => [p.key, p]));
+  for (const record of records) {
+    const bucket = byKey.get(periodStart(new Date(record.purchased_at), period).toISOString());
+    if (!bucket) continue;
+    bucket.total += lineTotal(record);
+    bucket.savings += (record.savings ?? 0) * record.quantity;
+  }
+  return periods;
+}
+
+// Purchases recorded before categories existed are put in the category their name suggests
+export function spendByCategory(records: PurchaseRecord[]): CategorySpend[] {
+  const totals = new Map<string, number>();
+  for (const record of records) {
+    if (record.price_paid === null) continue;
+    const category = record.category || getCategoryForItem(record.item) || UNCATEGORISED;
+    totals.set(category, (totals.get(category) ?? 0) + lineTotal(record));
+  }
+  return Array.from(totals, ([category, total]) => ({ category, total })).sort((a, b) => b.total - a.total);
+}
+
+export function totalSavings(records: PurchaseRecord[]): number {
+  return records.reduce((sum, record) => sum + (record.savings ?? 0) * record.quantity, 0);
+}
+
+export function mostBought(records: PurchaseRecord[], limit: number): ItemFrequency[] {
+  const items = new Map<string, ItemFrequency>();
+  for (const record of records) {
+    const entry = items.get(record.normalized_name) ?? { key: record.normalized_name, name: record.item, times: 0, quantity: 0, spent: 0 };
+    entry.times++;
+    entry.quantity += record.quantity;
+    entry.spent += lineTotal(record);
+    items.set(record.normalized_name, entry);
+  }
+  return Array.from(items.values())
+    .sort((a, b) => b.times - a.times || b.quantity - a.quantity)
+    .slice(0, limit);
+}
+
+// Unit price paid each time the item was bought with a known price, oldest first
+export function priceHistory(records: PurchaseRecord[], normalizedName: string): PricePoint[] {
+  return records
+    .filter(record => record.normalized_name === normalizedName && record.price_paid !== null)
+    .sort((a, b) => a.purchased_at.localeCompare(b.purchased_at))
+    .map(record => ({ date: record.purchased_at, price: record.price_paid! }));
+}
@@ -0,0 +1,104 @@
+import { getCategoryForItem, normalizePlural } from "@/lib/utils";
+import type { StoreId } from "./priceComparison";
+
+export const ANY_STORE = "any";
+export const OTHER_SECTION = "Other";
+
+export const STORE_SECTIONS = [
+  "Fruit & Veg",
+  "Bakery",
+  "Deli",
+  "Meat & Seafood",
+  "Dairy & Eggs",
+  "Pantry",
+  "Snacks & Sweets",
+  "Drinks",
+  "Frozen",
+  "Household",
+  "Health & Beauty",
+];
+
+// Walk-through order of each chain's typical floor plan, entrance first
+export const STORE_LAYOUTS: Record<StoreId | typeof ANY_STORE, string[]> = {
+  any: STORE_SECTIONS,
+  coles: ["Fruit & Veg", "Bakery", "Deli", "Meat & Seafood", "Pantry", "Snacks & Sweets", "Drinks", "Health & Beauty", "Household", "Frozen", "Dairy & Eggs"],
+  woolworths: ["Fruit & Veg", "Deli", "Meat & Seafood", "Bakery", "Pantry", "Snacks & Sweets", "Drinks", "Health & Beauty", "Household", "Dairy & Eggs", "Frozen"],
+  aldi: ["Bakery", "Fruit & Veg", "Pantry", "Snacks & Sweets", "Drinks", "Household", "Health & Beauty", "Meat & Seafood", "Deli", "Dairy & Eggs", "Frozen"],
+};
+
+// Section an item of each category is shelved in when the user hasn't placed it
+const CATEGORY_SECTIONS: Record<string, string> = {
+  'Produce': 'Fruit & Veg',
+  'Bakery': 'Bakery',
+  'Deli': 'Deli',
+  'Meat & Seafood': 'Meat & Seafood',
+  'Dairy & Eggs': 'Dairy & Eggs',
+  'Pantry': 'Pantry',
+  'Snacks': 'Snacks & Sweets',
+  'Drinks': 'Drinks',
+  'Frozen': 'Frozen',
+  'Household': 'Household',
+  'Personal Care': 'Health & Beauty',
+};
+
+export type ItemLocation = {
+  store: string;
+  normalized_name: string;
+  section: string;
+  aisle: string | null;
+};
+
+export type SectionGroup<T> = {
+  section: string;
+  aisles: string[];
+  items: T[];
+};
+
+/**
+ * Where to find an item in a store: the user's location for that store, then their
+ * any-store location, then the section for the item's category (given, or inferred from its name).
+ */
+export function resolveLocation(
+  itemName: string,
+  store: string | null,
+  locations: ItemLocation[],
+  category?: string | null
+): { section: string; aisle: string | null } {
+  const name = normalizePlural(itemName);
+  const saved =
+    (store && locations.find(l => l.store === store && l.normalized_name === name)) ||
+    locations.find(l => l.store === ANY_STORE && l.normalized_name === name);
+  if (saved) return { section: saved.section, aisle: saved.aisle };
+  const effectiveCategory = category || getCategoryForItem(itemName);
+  return { section: (effectiveCategory && CATEGORY_SECTIONS[effectiveCategory]) || OTHER_SECTION, aisle: null };
+}
+
+/**
+ * Splits items into store sections in walk-through order. Sections the layout doesn't know
+ * (custom ones the user typed) come after the known ones, with "Other" always last.
+ */
+export function groupBySection<T extends { Item: string; category?: string | null }>(items: T[], store: string | null, locations: ItemLocation[]): SectionGroup<T>[] {
+  const layout = STORE_LAYOUTS[(store ?? ANY_STORE) as keyof typeof STORE_LAYOUTS] ?? STORE_SECTIONS;
+  const groups = new Map<string, SectionGroup<T> & { ranked: { item: T; aisle: number }[] }>();
+  for (const item of items) {
+    const { section, aisle } = resolveLocation(item.Item, store, locations, item.category);
+    const group = groups.get(section) ?? { section, aisles: [], items: [], ranked: [] };
+    const aisleNumber = aisle ? parseInt(aisle.replace(/\D/g, ''), 10) : NaN;
+    group.ranked.push({ item, aisle: Number.isNaN(aisleNumber) ? Number.MAX_SAFE_INTEGER : aisleNumber });
+    if (aisle && !group.aisles.includes(aisle)) group.aisles.push(aisle);
+    groups.set(section, group);
+  }
+  const rank = (section: string) => {
+    if (section === OTHER_SECTION) return Number.MAX_SAFE_INTEGER;
+    const index = layout.indexOf(section);
+    return index === -1 ? layout.length : index;
+  };
+  return Array.from(groups.values())
+    .map(({ section, aisles, ranked }) => ({
+      section,
+      aisles: aisles.sort((a, b) => a.localeCompare(b, undefined, { numeric: true })),
+      // Lower aisle numbers first; items without an aisle keep their list order at the end
+      items: ranked.sort((a, b) => a.aisle - b.aisle).map(r => r.item),
+    }))
+    .sort((a, b) => rank(a.section) - rank(b.section) || a.section.localeCompare(b.section));
+}
@@ -0,0 +1,202 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { replayMutations, type QueuedMutation } from "./syncQueue";
+import type { TripSession } from "./shoppingTrip";
+
+type Row = { id: number; list_id: number; Item: string; Quantity: number; order: number; notes: string | null; buy_later: boolean };
+
+// In-memory stand-ins for the "Grocery list" table and the IndexedDB queue
+const db = vi.hoisted(() => ({
+  rows: [] as Row[],
+  queue: [] as QueuedMutation[],
+  nextId: 100,
+  // Results of the next updates, in order: an error, or null to succeed
+  updateErrors: [] as ({ message: string } | null)[],
+  committedTrips: [] as TripSession[],
+}));
+
+vi.mock("@/integrations/supabase/client", () => {
+  const query = (table: string) => {
+    let action: "select" | "update" | "insert" | "delete" = "select";
+    let values: Partial<Row> | Partial<Row>[] = {};
+    const filters: [keyof Row, unknown][] = [];
+    const matching = () => db.rows.filter(row => filters.every(([key, value]) => row[key] === value));
+    const run = (): { data: unknown; error: { message: string } | null } => {
+      if (table !== "Grocery list") return { data: null, error: { message: `unexpected table ${table}` } };
+      if (action === "select") return { data: matching(), error: null };
+      if (action === "update") {
+        const error = db.updateErrors.shift();
+        if (error) return { data: null, error };
+        const rows = matching();
+        rows.forEach(row => Object.assign(row, values));
+        return { data: rows, error: null };
+      }
+      if (action === "insert") {
+        const inserted = (values as Partial<Row>[]).map(row => ({ id: db.nextId++, notes: null, buy_later: false, ...row }) as Row);
+        db.rows.push(...inserted);
+        return { data: inserted, error: null };
+      }
+      const removed = matching();
+      db.rows = db.rows.filter(row => !removed.includes(row));
+      return { data: removed, error: null };
+    };
+    const builder = {
+      select: () => builder,
+      update: (changes: Partial<Row>) => { action = "update"; values = changes; return builder; },
+      insert: (rows: Partial<Row>[]) => { action = "insert"; values = rows; return builder; },
+      delete: () => { action = "delete"; return builder; },
+      eq: (key: keyof Row, value: unknown) => { filters.push([key, value]); return builder; },
+      single: async () => {
+        const { data, error } = run();
+        return { data: (data as Row[] | null)?.[0] ?? null, error };
+      },
+      maybeSingle: async () => {
+        const { data, error } = run();
+        return { data: (data as Row[] | null)?.[0] ?? null, error };
+      },
+      then: (resolve: (result: ReturnType<typeof run>) => void, reject: (error: unknown) => void) => {
+        try {
+          resolve(run());
+        } catch (error) {
+          reject(error);
+        }
+      },
+    };
+    return builder;
+  };
+  return { supabase: { from: query, rpc: async () => ({ data: 1, error: null }) } };
+});
+
+vi.mock("./offlineStore", () => ({
+  getQueuedMutations: async () => db.queue.map(mutation => ({ ...mutation })),
+  removeQueuedMutation: async (seq: number) => {
+    db.queue = db.queue.filter(mutation => mutation.seq !== seq);
+  },
+  replaceQueuedMutation: async (mutation: QueuedMutation) => {
+    db.queue = db.queue.map(queued => (queued.seq === mutation.seq ? mutation : queued));
+  },
+}));
+
+vi.mock("./shoppingTrip", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./shoppingTrip")>()),
+  commitTrip: async (session: TripSession) => {
+    db.committedTrips.push(session);
+  },
+}));
+
+const LIST_ID = 1;
+const queued = (seq: number, change: Record<string, unknown>) =>
+  ({ seq, listId: LIST_ID, queuedAt: "2026-10-19T09:00:00Z", ...change }) as QueuedMutation;
+const row = (id: number, Item: string, Quantity = 1, extra: Partial<Row> = {}): Row =>
+  ({ id, list_id: LIST_ID, Item, Quantity, order: id, notes: null, buy_later: false, ...extra });
+
+beforeEach(() => {
+  db.rows = [];
+  db.queue = [];
+  db.nextId = 100;
+  db.updateErrors = [];
+  db.committedTrips = [];
+});
+
+describe("replayMutations", () => {
+  it("re-points changes and trip picks made to an item created offline", async () => {
+    const session: TripSession = {
+      tripId: "trip-1",
+      listId: LIST_ID,
+      store: null,
+      startedAt: "2026-10-19T09:00:00Z",
+      basket: [{ itemId: -5, Item: "Milk", img: null, variant: null, category: null, quantity: 1, pricePaid: null, savings: null, sequence: 1, pickedAt: "2026-10-19T09:05:00Z" }],
+    };
+    db.queue = [
+      queued(1, { kind: "insert", tempId: -5, row: { Item: "Milk", Quantity: 1, notes: null, user_id: "u1", auto_icon: null, category: null } }),
+      queued(2, { kind: "update", itemId: -5, changes: { notes: "lactose free" }, previous: { notes: null } }),
+      queued(3, { kind: "trip", session }),
+    ];
+
+    const result = await replayMutations();
+
+    expect(result.replacedIds).toEqual({ [-5]: 100 });
+    expect(db.rows).toEqual([expect.objectContaining({ id: 100, Item: "Milk", notes: "lactose free" })]);
+    expect(db.committedTrips[0].basket[0].itemId).toBe(100);
+    expect(result).toMatchObject({ synced: 3, remaining: 0 });
+    expect(db.queue).toEqual([]);
+  });
+
+  it("takes a rejected change off the queue, reports it and carries on", async () => {
+    db.rows = [row(1, "Milk"), row(2, "Bread")];
+    db.updateErrors = [{ message: "permission denied for table Grocery list" }];
+    db.queue = [
+      queued(1, { kind: "update", itemId: 1, changes: { buy_later: true } }),
+      queued(2, { kind: "delete", itemId: 2 }),
+    ];
+
+    const result = await replayMutations();
+
+    expect(result.rejected).toEqual([
+      { mutation: expect.objectContaining({ seq: 1 }), message: "permission denied for table Grocery list" },
+    ]);
+    expect(db.rows.map(r => r.id)).toEqual([1]);
+    expect(db.queue).toEqual([]);
+  });
+
+  it("replays in queue order and leaves the rest queued after a network failure", async () => {
+    db.rows = [row(1, "Milk", 1)];
+    db.updateErrors = [null, { message: "TypeError: Failed to fetch" }];
+    db.queue = [
+      queued(1, { kind: "update", itemId: 1, changes: { Quantity: 3 } }),
+      queued(2, { kind: "update", itemId: 1, changes: { Quantity: 5 } }),
+      queued(3, { kind: "delete", itemId: 1 }),
+    ];
+
+    const result = await replayMutations();
+
+    expect(result).toMatchObject({ synced: 1, remaining: 2 });
+    expect(db.rows[0].Quantity).toBe(3);
+    expect(db.queue.map(m => m.seq)).toEqual([2, 3]);
+  });
+
+  it("adds a quantity change to what another member set meanwhile", async () => {
+    // This device saw 2 and made it 3; someone else had already made it 4
+    db.rows = [row(1, "Eggs", 4)];
+    db.queue = [queued(1, { kind: "update", itemId: 1, changes: { Quantity: 3 }, previous: { Quantity: 2 } })];
+
+    const result = await replayMutations();
+
+    expect(db.rows[0].Quantity).toBe(5);
+    expect(result.conflicts).toEqual([]);
+  });
+
+  it("keeps another member's note and reports the conflict", async () => {
+    db.rows = [row(1, "Eggs", 1, { notes: "free range" })];
+    db.queue = [queued(1, { kind: "update", itemId: 1, changes: { notes: "dozen", buy_later: true }, previous: { notes: null, buy_later: false } })];
+
+    const result = await replayMutations();
+
+    expect(db.rows[0]).toMatchObject({ notes: "free range", buy_later: true });
+    expect(result.conflicts).toHaveLength(1);
+    expect(result.conflicts[0].message).toMatch(/^Eggs: the note changed/);
+  });
+
+  it("renames an item unless another member renamed it first", async () => {
+    db.rows = [row(1, "Milk"), row(2, "Bread")];
+    db.queue = [
+      queued(1, { kind: "update", itemId: 1, changes: { Item: "Oat milk 2L", unit_size: 2, unit: "L" }, previous: { Item: "Milk" } }),
+      queued(2, { kind: "update", itemId: 2, changes: { Item: "Sourdough" }, previous: { Item: "Loaf" } }),
+    ];
+
+    const result = await replayMutations();
+
+    expect(db.rows[0]).toMatchObject({ Item: "Oat milk 2L", unit_size: 2, unit: "L" });
+    expect(db.rows[1].Item).toBe("Bread");
+    expect(result.conflicts.map(conflict => conflict.message)).toEqual([
+      "Bread: the name changed by someone else while you were offline, so their change was kept",
+    ]);
+  });
+
+    it("drops an update to an item deleted on another device", async () => {
+    db.queue = [queued(1, { kind: "update", itemId: 9, changes: { Quantity: 2 }, previous: { Quantity: 1 } })];
+
+    const result = await replayMutations();
+
+    expect(result).toMatchObject({ synced: 0, dropped: 1, remaining: 0 });
+  });
+});
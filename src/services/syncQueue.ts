@@ -0,0 +1,292 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { MeasureUnit } from "@/integrations/supabase/types";
+import { normalizePlural } from "@/lib/utils";
+import type { TripPosition } from "./shoppingRoute";
+import { commitTrip, replaceTripItemIds, type TripSession } from "./shoppingTrip";
+import {
+  getQueuedMutations,
+  removeQueuedMutation,
+  replaceQueuedMutation,
+} from "./offlineStore";
+
+type ItemChanges = {
+  Item?: string;
+  // Sent with a rename when the new name gives a pack size
+  unit_size?: number | null;
+  unit?: MeasureUnit | null;
+  Quantity?: number;
+  buy_later?: boolean;
+  notes?: string | null;
+};
+
+// Fields other than the quantity, as named when a replay reports a conflict on them
+const FIELD_LABELS = {
+  Item: "the name",
+  buy_later: "Buy Later",
+  notes: "the note",
+};
+
+// A change made while offline. Items created offline carry a negative temporary id
+// until the insert reaches the server, at which point queued changes are re-pointed.
+export type QueuedChange =
+  | {
+      kind: "insert";
+      tempId: number;
+      row: { Item: string; Quantity: number; notes: string | null; user_id: string; auto_icon: string | null; category: string | null };
+    }
+  | {
+      kind: "update";
+      itemId: number;
+      changes: ItemChanges;
+      // The values this device saw before the change, to tell its edit from another member's.
+      // Missing on changes queued before conflicts were checked; those are written as they are.
+      previous?: ItemChanges;
+    }
+  | { kind: "delete"; itemId: number }
+  | {
+      kind: "purchase";
+      // Made up front so a purchase retried after a lost response is only recorded once
+      eventId: string;
+      itemId: number;
+      quantity: number;
+      userId: string;
+      item: { Item: string; img?: string | null; variant?: string | null; category?: string | null };
+      pricePaid: number | null;
+      savings: number | null;
+      trip: TripPosition;
+    }
+  | { kind: "trip"; session: TripSession };
+
+export type QueuedMutation = { seq?: number; listId: number; queuedAt: string } & QueuedChange;
+
+export type PurchaseChange = Extract<QueuedChange, { kind: "purchase" }>;
+
+// A queued change the server refused, with its reason
+export type RejectedChange = {
+  mutation: QueuedMutation;
+  message: string;
+};
+
+export type ReplayResult = {
+  synced: number;
+  dropped: number;
+  rejected: RejectedChange[];
+  // Updates that were partly skipped because another member changed the same field meanwhile
+  conflicts: RejectedChange[];
+  // Temporary ids of items created offline, mapped to the ids the server gave them
+  replacedIds: Record<number, number>;
+  remaining: number;
+};
+
+export function isNetworkError(error: unknown): boolean {
+  if (typeof navigator !== "undefined" && !navigator.onLine) return true;
+  const message = error instanceof Error ? error.message : (error as { message?: string })?.message ?? "";
+  return /failed to fetch|networkerror|load failed|network request failed/i.test(message);
+}
+
+export function createTempId(): number {
+  return -Date.now() - Math.floor(Math.random() * 1000);
+}
+
+async function replayInsert(mutation: Extract<QueuedMutation, { kind: "insert" }>): Promise<number> {
+  const { data: rows, error: rowsError } = await supabase
+    .from("Grocery list")
+    .select("id, Item, Quantity, order")
+    .eq("list_id", mutation.listId);
+  if (rowsError) throw rowsError;
+  // Someone else may have added the same item while we were offline; merge into it
+  const existing = (rows || []).find(r => normalizePlural(r.Item) === normalizePlural(mutation.row.Item));
+  if (existing) {
+    const { error } = await supabase
+      .from("Grocery list")
+      .update({ Quantity: (existing.Quantity || 0) + mutation.row.Quantity })
+      .eq("id", existing.id);
+    if (error) throw error;
+    return existing.id;
+  }
+  // Order is taken from the server at replay time so it cannot clash with rows added meanwhile
+  const minOrder = (rows || []).reduce((min, r) => Math.min(min, r.order), Infinity);
+  const { data, error } = await supabase
+    .from("Grocery list")
+    .insert([{ ...mutation.row, list_id: mutation.listId, order: Number.isFinite(minOrder) ? minOrder - 1 : 1 }])
+    .select("id")
+    .single();
+  if (error) throw error;
+  return data.id;
+}
+
+type UpdateOutcome = { found: boolean; conflict?: string };
+
+/**
+ * Replays an update against the server row as it is now. A quantity change is applied as the
+ * difference this device made, so another member's change to the same item adds up instead of
+ * being overwritten. Any other field another member changed meanwhile keeps their value, and the
+ * field is reported as a conflict.
+ */
+async function replayUpdate(mutation: Extract<QueuedMutation, { kind: "update" }>): Promise<UpdateOutcome> {
+  const { previous } = mutation;
+  if (!previous) {
+    const { data, error } = await supabase
+      .from("Grocery list")
+      .update(mutation.changes)
+      .eq("id", mutation.itemId)
+      .select("id");
+    if (error) throw error;
+    return { found: (data || []).length > 0 };
+  }
+
+  const { data: row, error: rowError } = await supabase
+    .from("Grocery list")
+    .select("id, Item, Quantity, notes, buy_later")
+    .eq("id", mutation.itemId)
+    .maybeSingle();
+  if (rowError) throw rowError;
+  // No row means it was deleted on another device; the change has nothing to apply to
+  if (!row) return { found: false };
+
+  const { changes } = mutation;
+  const write: ItemChanges = {};
+  const conflicting: (keyof typeof FIELD_LABELS)[] = [];
+  // Another member set this field to something else since this device last saw it
+  const changedElsewhere = (key: keyof typeof FIELD_LABELS) =>
+    key in previous && (row[key] ?? null) !== (previous[key] ?? null) && (row[key] ?? null) !== (changes[key] ?? null);
+
+  if (changes.Quantity !== undefined) {
+    write.Quantity = previous.Quantity === undefined
+      ? changes.Quantity
+      : Math.max(1, row.Quantity + changes.Quantity - previous.Quantity);
+  }
+  if (changes.Item !== undefined) {
+    if (changedElsewhere("Item")) conflicting.push("Item");
+    else {
+      write.Item = changes.Item;
+      if (changes.unit !== undefined) {
+        write.unit_size = changes.unit_size;
+        write.unit = changes.unit;
+      }
+    }
+  }
+  if (changes.notes !== undefined) {
+    if (changedElsewhere("notes")) conflicting.push("notes");
+    else write.notes = changes.notes;
+  }
+  if (changes.buy_later !== undefined) {
+    if (changedElsewhere("buy_later")) conflicting.push("buy_later");
+    else write.buy_later = changes.buy_later;
+  }
+
+  if (Object.keys(write).length > 0) {
+    const { error } = await supabase
+      .from("Grocery list")
+      .update(write)
+      .eq("id", mutation.itemId);
+    if (error) throw error;
+  }
+  if (conflicting.length === 0) return { found: true };
+  return {
+    found: true,
+    conflict: `${row.Item}: ${conflicting.map(field => FIELD_LABELS[field]).join(" and ")} changed by someone else while you were offline, so their change was kept`,
+  };
+}
+
+async function replayDelete(mutation: Extract<QueuedMutation, { kind: "delete" }>): Promise<void> {
+  const { error } = await supabase
+    .from("Grocery list")
+    .delete()
+    .eq("id", mutation.itemId);
+  if (error) throw error;
+}
+
+/**
+ * Records a purchase and takes it off the list in one transaction, returning the purchase event id.
+ * Used both when ticking online and when replaying, and safe to retry with the same eventId.
+ */
+export async function recordPurchase(listId: number, purchase: PurchaseChange, purchasedAt?: string): Promise<number> {
+  const { data, error } = await supabase.rpc("record_purchase", {
+    purchase: {
+      event_id: purchase.eventId,
+      item_id: purchase.itemId,
+      list_id: listId,
+      item: purchase.item.Item,
+      normalized_name: normalizePlural(purchase.item.Item),
+      quantity: purchase.quantity,
+      price_paid: purchase.pricePaid,
+      savings: purchase.savings,
+      img: purchase.item.img ?? null,
+      variant: purchase.item.variant ?? null,
+      category: purchase.item.category ?? null,
+      store: purchase.trip.store,
+      trip_id: purchase.trip.tripId,
+      sequence: purchase.trip.sequence,
+      purchased_at: purchasedAt ?? null,
+    },
+  });
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Sends queued offline changes to Supabase in the order they were made.
+ * Stops at the first network failure and leaves the rest queued for the next attempt;
+ * changes the server rejects for any other reason are taken off the queue so they cannot block
+ * it, and returned as rejected for the caller to report.
+ */
+export async function replayMutations(): Promise<ReplayResult> {
+  let queue = await getQueuedMutations();
+  let synced = 0;
+  let dropped = 0;
+  const rejected: RejectedChange[] = [];
+  const conflicts: RejectedChange[] = [];
+  const replacedIds: Record<number, number> = {};
+
+  while (queue.length > 0) {
+    const [mutation, ...rest] = queue;
+    let applied = true;
+    try {
+      switch (mutation.kind) {
+        case "insert": {
+          const realId = await replayInsert(mutation);
+          replacedIds[mutation.tempId] = realId;
+          // Re-point later changes, including picks in a queued trip, at the row the server created
+          for (const later of rest) {
+            if ("itemId" in later && later.itemId === mutation.tempId) {
+              later.itemId = realId;
+              await replaceQueuedMutation(later);
+            } else if (later.kind === "trip" && later.session.basket.some(e => e.itemId === mutation.tempId)) {
+              later.session = replaceTripItemIds(later.session, { [mutation.tempId]: realId });
+              await replaceQueuedMutation(later);
+            }
+          }
+          break;
+        }
+        case "update": {
+          const outcome = await replayUpdate(mutation);
+          applied = outcome.found;
+          if (outcome.conflict) conflicts.push({ mutation, message: outcome.conflict });
+          break;
+        }
+        case "delete":
+          await replayDelete(mutation);
+          break;
+        case "purchase":
+          await recordPurchase(mutation.listId, mutation, mutation.queuedAt);
+          break;
+        case "trip":
+          await commitTrip(mutation.session);
+          break;
+      }
+      if (applied) synced++;
+      else dropped++;
+    } catch (error) {
+      if (isNetworkError(error)) {
+        return { synced, dropped, rejected, conflicts, replacedIds, remaining: queue.length };
+      }
+      const message = error instanceof Error ? error.message : (error as { message?: string })?.message ?? "An unknown error occurred.";
+      rejected.push({ mutation, message });
+    }
+    await removeQueuedMutation(mutation.seq!);
+    queue = rest;
+  }
+
+  return { synced, dropped, rejected, conflicts, replacedIds, remaining: 0 };
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { parseVoiceToPlan } from "./voiceIntent";
+
+describe("parseVoiceToPlan amounts", () => {
+  it("keeps a preparation after an amount as the note", () => {
+    expect(parseVoiceToPlan("200g feta, crumbled").add).toEqual([{ name: "feta", quantity: undefined, note: "200 g, crumbled" }]);
+    expect(parseVoiceToPlan("add 200g feta, crumbled").add).toEqual([{ name: "feta", quantity: undefined, note: "200 g, crumbled" }]);
+  });
+
+  it("adds measured amounts rather than adjusting", () => {
+    const plan = parseVoiceToPlan("add 200 grams of feta");
+    expect(plan.adjust).toEqual([]);
+    expect(plan.add).toEqual([{ name: "feta", quantity: undefined, note: "200 g" }]);
+  });
+
+  it("reads mixed fractions with a unit", () => {
+    const plan = parseVoiceToPlan("add 1 1/2 kg chicken");
+    expect(plan.adjust).toEqual([]);
+    expect(plan.add).toEqual([{ name: "chicken", quantity: undefined, note: "1.5 kg" }]);
+  });
+
+  it("still splits items after a comma that isn't a preparation", () => {
+    expect(parseVoiceToPlan("add 200g feta, milk").add.map(item => item.name)).toEqual(["feta", "milk"]);
+    expect(parseVoiceToPlan("add 1kg rice, seaweed").add.map(item => item.name)).toEqual(["rice", "seaweed"]);
+  });
+
+  it("keeps a preparation with an adverb", () => {
+    expect(parseVoiceToPlan("add 2 tbsp parsley, finely chopped").add).toEqual([{ name: "parsley", quantity: undefined, note: "2 tbsp, finely chopped" }]);
+  });
+
+  it("adds counted items with their quantity", () => {
+    expect(parseVoiceToPlan("add two chickens three steaks and four pork chops").add).toEqual([
+      { name: "chickens", quantity: 2, note: undefined },
+      { name: "steaks", quantity: 3, note: undefined },
+      { name: "pork chops", quantity: 4, note: undefined },
+    ]);
+  });
+});
+
+describe("parseVoiceToPlan top-ups", () => {
+  it("reads one more as an increment rather than a new item", () => {
+    const plan = parseVoiceToPlan("add one more milk");
+    expect(plan.add).toEqual([]);
+    expect(plan.adjust).toEqual([{ name: "milk", delta: 1 }]);
+  });
+
+  it("reads counted and another top-ups", () => {
+    expect(parseVoiceToPlan("two more loaves of bread and another milk").adjust).toEqual([
+      { name: "bread", delta: 2 },
+      { name: "milk", delta: 1 },
+    ]);
+  });
+
+  it("still adds items that only mention more", () => {
+    expect(parseVoiceToPlan("add milk and more bread").add.map(item => item.name)).toEqual(["milk", "more bread"]);
+  });
+});
@@ -1,10 +1,43 @@
+import { canonicalUnit, formatAmount, isCountedUnit, parseLeadingAmount, parseQuantityText } from "./ingredients";
+
 export type ParsedPlan = {
   add: Array<{ name: string; quantity?: number; note?: string }>;
   remove: Array<{ name: string }>;
   adjust: Array<{ name: string; delta: number }>;
+  setQuantity: Array<{ name: string; quantity: number }>;
+  rename: Array<{ name: string; to: string }>;
+  // A null note clears it
+  setNote: Array<{ name: string; note: string | null }>;
+  moveToBuyLater: Array<{ name: string }>;
+  moveToNow: Array<{ name: string }>;
+  markPurchased: Array<{ name: string; quantity?: number }>;
+  clearList: boolean;
+  addFromSaved: Array<{ name: string; quantity?: number }>;
   raw: string;
 };
 
+export function emptyPlan(raw: string): ParsedPlan {
+  return {
+    add: [],
+    remove: [],
+    adjust: [],
+    setQuantity: [],
+    rename: [],
+    setNote: [],
+    moveToBuyLater: [],
+    moveToNow: [],
+    markPurchased: [],
+    clearList: false,
+    addFromSaved: [],
+    raw,
+  };
+}
+
+// True when a plan has nothing to do
+export function isEmptyPlan(plan: ParsedPlan): boolean {
+  return !plan.clearList && Object.values(plan).every(value => !Array.isArray(value) || value.length === 0);
+}
+
 const UNITS = [
   "can",
   "cans",
@@ -49,8 +82,9 @@ const FILLER_TOKENS = new Set([
 
 function parseQuantity(token?: string): number | undefined {
   if (!token) return undefined;
-  const numeric = Number(token);
-  if (!Number.isNaN(numeric)) return numeric;
+  // Digits, decimals and fractions ("1/2", "½")
+  const numeric = parseQuantityText(token);
+  if (numeric !== null) return numeric;
   return NUMBER_WORDS[token as keyof typeof NUMBER_WORDS];
 }
 
@@ -62,6 +96,49 @@ function cleanName(value: string): string {
   return value.replace(/[.,;:!?]+$/g, "").replace(/\s+/g, " ").trim();
 }
 
+// "the milk", "my eggs" → "milk", "eggs"
+function targetName(value: string): string {
+  return cleanName(value.replace(/^(the|my|some|a|an)\s+/i, "")).toLowerCase();
+}
+
+// "2 milks" → { name: "milks", quantity: 2 }, "2 loaves of bread" → { name: "bread", quantity: 2 }
+function countedTarget(value: string): { name: string; quantity?: number } {
+  const [first, ...rest] = value.trim().split(/\s+/);
+  const quantity = parseQuantity(normalizeToken(first ?? "").toLowerCase());
+  if (quantity !== undefined && rest.length > 0 && Number.isInteger(quantity) && quantity > 0) {
+    const unit = normalizeToken(rest[0]).toLowerCase();
+    const isPack = rest.length > 1 && (UNITS.includes(unit) || (canonicalUnit(unit) !== null && isCountedUnit(unit)));
+    return { name: targetName((isPack ? rest.slice(1) : rest).join(" ").replace(/^of\s+/i, "")), quantity };
+  }
+  return { name: targetName(value) };
+}
+
+// How an ingredient is prepared: "crumbled", "finely chopped", "to taste". Listed rather than
+// matched on "-ed" so items like "seaweed" or "mixed nuts" aren't taken for one.
+const PREPARATION_WORDS = [
+  "beaten", "chopped", "crumbled", "crushed", "cubed", "diced", "drained", "grated", "halved", "julienned",
+  "mashed", "melted", "minced", "peeled", "pitted", "quartered", "rinsed", "shredded", "sifted", "sliced",
+  "softened", "toasted", "trimmed", "zested",
+];
+const PREPARATION = new RegExp(
+  `^(?:(?:finely|roughly|thinly|freshly|lightly|coarsely)\\s+)?(?:${PREPARATION_WORDS.join("|")})$|^(?:to taste|at room temperature)$`,
+  "i"
+);
+
+// Like an ingredient line, a comma after an amount starts a note: "200g feta, crumbled" → "200g feta (crumbled)"
+function attachPreparation(phrases: string[]): string[] {
+  const merged: string[] = [];
+  for (const phrase of phrases) {
+    const previous = merged[merged.length - 1];
+    if (previous && PREPARATION.test(phrase) && parseLeadingAmount(previous)) {
+      merged[merged.length - 1] = `${previous} (${phrase})`;
+    } else {
+      merged.push(phrase);
+    }
+  }
+  return merged;
+}
+
 function splitItems(phrase: string): string[] {
   return phrase
     .replace(/,\s*and\s+/gi, ", ")
@@ -74,11 +151,99 @@ function splitItems(phrase: string): string[] {
 export function parseVoiceToPlan(textRaw: string): ParsedPlan {
   const trimmed = textRaw?.trim();
   if (!trimmed) {
-    return { add: [], remove: [], adjust: [], raw: textRaw };
+    return emptyPlan(textRaw);
   }
 
   const lower = trimmed.toLowerCase();
-  const plan: ParsedPlan = { add: [], remove: [], adjust: [], raw: textRaw };
+  const plan = emptyPlan(textRaw);
+  // Commands below match the original text so renames and notes keep their capitals
+  const command = trimmed.replace(/[.!?]+$/, "");
+
+  // "clear the list", "empty my shopping list", "delete everything"
+  if (/^(clear|empty|wipe)\s+(out\s+)?(the\s+|my\s+)?(whole\s+|entire\s+)?(grocery\s+|shopping\s+)?list$/i.test(command)
+    || /^(remove|delete)\s+(everything|all items|all the items)(\s+from\s+(the|my)\s+list)?$/i.test(command)) {
+    plan.clearList = true;
+    return plan;
+  }
+
+  // "add a note to milk: lactose free", "note on bread saying wholemeal"
+  const note = command.match(/^(?:add\s+(?:a\s+)?note|note)\s+(?:to|on|for)\s+(.+?)\s*(?::|,|\bsaying\b|\bthat says\b)\s*(.+)$/i);
+  if (note) {
+    const name = targetName(note[1]);
+    const text = cleanName(note[2].replace(/^["']|["']$/g, ""));
+    if (name && text) plan.setNote.push({ name, note: text });
+    return plan;
+  }
+  // "clear the note on milk"
+  const clearNote = command.match(/^(?:clear|remove|delete)\s+(?:the\s+)?note\s+(?:on|from|for)\s+(.+)$/i);
+  if (clearNote) {
+    const name = targetName(clearNote[1]);
+    if (name) plan.setNote.push({ name, note: null });
+    return plan;
+  }
+
+  // "set milk to 3", "change the eggs to two", "set the quantity of apples to 6"
+  const setQuantity = command.match(/^(?:set|change|make)\s+(?:the\s+)?(?:quantity|amount|number)\s+of\s+(.+?)\s+to\s+(\S+)$/i)
+    ?? command.match(/^(?:set|change|make)\s+(.+?)\s+to\s+(\S+)$/i);
+  const setTo = setQuantity ? parseQuantity(normalizeToken(setQuantity[2]).toLowerCase()) : undefined;
+  if (setQuantity && setTo !== undefined && Number.isInteger(setTo) && setTo >= 0) {
+    const name = targetName(setQuantity[1]);
+    if (name) plan.setQuantity.push({ name, quantity: setTo });
+    return plan;
+  }
+
+  // "rename milk to almond milk", "change bread to sourdough"
+  const rename = command.match(/^(?:rename|change)\s+(.+?)\s+(?:to|into)\s+(.+)$/i);
+  if (rename) {
+    const name = targetName(rename[1]);
+    const to = cleanName(rename[2]);
+    if (name && to) plan.rename.push({ name, to });
+    return plan;
+  }
+
+  // "move milk to buy later", "buy eggs later"
+  const buyLater = command.match(/^(?:move|put)\s+(.+?)\s+(?:to|on|in|into)\s+(?:the\s+)?buy\s+later(?:\s+list)?$/i)
+    ?? command.match(/^buy\s+(.+?)\s+later$/i);
+  if (buyLater) {
+    for (const name of splitItems(buyLater[1])) {
+      const cleaned = targetName(name);
+      if (cleaned) plan.moveToBuyLater.push({ name: cleaned });
+    }
+    return plan;
+  }
+
+  // "move milk back", "bring eggs back to the list", "buy bread now"
+  const buyNow = command.match(/^(?:move|bring|put)\s+(.+?)\s+back(?:\s+(?:to|on|onto)\s+(?:the\s+|my\s+)?(?:main\s+|shopping\s+|grocery\s+)?list)?$/i)
+    ?? command.match(/^move\s+(.+?)\s+to\s+(?:the\s+|my\s+)?(?:main|shopping|grocery)\s+list$/i)
+    ?? command.match(/^buy\s+(.+?)\s+now$/i);
+  if (buyNow) {
+    for (const name of splitItems(buyNow[1])) {
+      const cleaned = targetName(name);
+      if (cleaned) plan.moveToNow.push({ name: cleaned });
+    }
+    return plan;
+  }
+
+  // "I bought milk and 2 loaves of bread", "tick off eggs", "mark apples as bought"
+  const purchased = command.match(/^(?:i\s+)?(?:bought|got|picked up|purchased)\s+(.+)$/i)
+    ?? command.match(/^(?:(?:mark|tick)\s+(?:off\s+)?|check\s+off\s+)(.+?)(?:\s+off)?(?:\s+as\s+(?:bought|purchased|done))?$/i);
+  if (purchased) {
+    for (const part of splitItems(purchased[1])) {
+      const target = countedTarget(part);
+      if (target.name) plan.markPurchased.push(target);
+    }
+    return plan;
+  }
+
+  // "add bread from my saved list", "add 2 coffee from favourites"
+  const fromSaved = command.match(/^(?:add\s+)?(.+?)\s+from\s+(?:my\s+|the\s+)?(?:saved|favourites|favorites|usuals?)(?:\s+list|\s+items)?$/i);
+  if (fromSaved) {
+    for (const part of splitItems(fromSaved[1])) {
+      const target = countedTarget(part);
+      if (target.name) plan.addFromSaved.push(target);
+    }
+    return plan;
+  }
 
   if (/^(remove|delete|drop|take off)\b/.test(lower)) {
     const itemsText = lower.replace(/^(remove|delete|drop|take off)\s+/, "");
@@ -89,7 +254,8 @@ export function parseVoiceToPlan(textRaw: string): ParsedPlan {
     return plan;
   }
 
-  const inc = lower.match(/^(increase|add|plus)\s+(\d+|one|two|three|four|five|six|seven|eight|nine|ten)\s+(.*)$/);
+  // "add" always adds (or tops up) so amounts like "add 200g feta" reach the ingredient parsing below
+  const inc = lower.match(/^(increase|plus)\s+(\d+|one|two|three|four|five|six|seven|eight|nine|ten)\s+(.*)$/);
   const dec = lower.match(/^(decrease|subtract|minus)\s+(\d+|one|two|three|four|five|six|seven|eight|nine|ten)\s+(.*)$/);
   if (inc || dec) {
     const [, , qtyToken, rest] = (inc || dec)!;
@@ -103,19 +269,38 @@ export function parseVoiceToPlan(textRaw: string): ParsedPlan {
   }
 
   const itemsText = lower.replace(/^(add|put|insert|i need|i want|get|please add|can you add)\s+/, "");
-  const phrases = splitItems(itemsText);
+
+  // "add one more milk", "two more loaves of bread", "another bread" top up what's on the list
+  const topUps = splitItems(itemsText).map((part) => part.match(/^(?:(\S+)\s+more|another)\s+(.+)$/));
+  if (topUps.length > 0 && topUps.every((match) => match && (!match[1] || parseQuantity(match[1]) !== undefined))) {
+    for (const [, qtyToken, rest] of topUps) {
+      const target = countedTarget(`${qtyToken ? parseQuantity(qtyToken) : 1} ${rest}`);
+      if (target.name && target.quantity) plan.adjust.push({ name: target.name, delta: target.quantity });
+    }
+    return plan;
+  }
+
+  const phrases = attachPreparation(splitItems(itemsText));
 
   for (const phrase of phrases) {
-    const tokens = phrase.split(/\s+/).filter(Boolean);
     let index = 0;
     let currentQty: number | undefined;
+    // A measured amount such as "200 g", which goes in the note rather than the quantity
+    let currentAmount: string | undefined;
     let buffer: string[] = [];
+    // "200 grams of feta", "1 1/2 kg chicken", "½ cup rice"
+    const leading = parseLeadingAmount(phrase);
+    const measured = leading?.unit && !isCountedUnit(leading.unit) ? leading : null;
+    if (measured) currentAmount = formatAmount(measured.quantity, measured.unit);
+    const tokens = (measured ? measured.rest : phrase).split(/\s+/).filter(Boolean);
 
     const pushItem = () => {
       const rawName = buffer.join(" ").replace(/\b(of|some)\b\s*/g, "").trim();
       buffer = [];
       const quantityValue = typeof currentQty === "number" && Number.isFinite(currentQty) ? currentQty : undefined;
       currentQty = undefined;
+      const amountNote = currentAmount;
+      currentAmount = undefined;
       if (!rawName) return;
 
       const noteMatch = rawName.match(/^(.*)\((.*)\)\s*$/);
@@ -129,6 +314,9 @@ export function parseVoiceToPlan(textRaw: string): ParsedPlan {
         note = cleanName(note);
         if (!note) note = undefined;
       }
+      if (amountNote) {
+        note = note ? `${amountNote}, ${note}` : amountNote;
+      }
 
       const existing = plan.add.find((item) => item.name === name);
       if (existing) {
@@ -151,18 +339,28 @@ export function parseVoiceToPlan(textRaw: string): ParsedPlan {
         continue;
       }
 
-      const quantityValue = parseQuantity(normalized);
+      // "200g" arrives as one token
+      const attached = normalized.match(/^(\d+(?:\.\d+)?)([a-z]+)$/);
+      const attachedUnit = attached && canonicalUnit(attached[2]) ? attached[2] : undefined;
+      const quantityValue = attachedUnit ? Number(attached![1]) : parseQuantity(normalized);
       if (quantityValue !== undefined) {
         if (buffer.length) pushItem();
-        currentQty = quantityValue;
-        if (tokens[index + 1]) {
-          const maybeUnit = normalizeToken(tokens[index + 1]);
-          if (maybeUnit && UNITS.includes(maybeUnit)) {
-            index += 2;
-            continue;
-          }
-        }
+        let amount = quantityValue;
         index += 1;
+        // "1 1/2"
+        const fraction = !attachedUnit && tokens[index] ? normalizeToken(tokens[index]) : "";
+        if (/^\d+\/\d+$/.test(fraction)) {
+          amount += parseQuantityText(fraction) ?? 0;
+          index += 1;
+        }
+        const maybeUnit = attachedUnit ?? (tokens[index] ? normalizeToken(tokens[index]) : "");
+        const unit = canonicalUnit(maybeUnit);
+        if (!attachedUnit && maybeUnit && (UNITS.includes(maybeUnit) || unit)) index += 1;
+        if (unit && !isCountedUnit(unit) && !UNITS.includes(maybeUnit)) {
+          currentAmount = formatAmount(amount, unit);
+        } else {
+          currentQty = Math.ceil(amount);
+        }
         continue;
       }
 
@@ -180,3 +378,65 @@ export function parseVoiceToPlan(textRaw: string): ParsedPlan {
 
   return plan;
 }
+
+// What the assistant says back about a plan, one change per line
+export function buildSummary(plan: ParsedPlan): string {
+  const lines: string[] = [];
+
+  for (const item of plan.add) {
+    const quantity = item.quantity && item.quantity > 0 ? ` x${item.quantity}` : "";
+    const note = item.note ? ` (${item.note})` : "";
+    lines.push(`<br>- ${item.name}${quantity}${note}`);
+  }
+
+  for (const item of plan.remove) {
+    lines.push(`<br>- ${item.name} (remove)`);
+  }
+
+  for (const item of plan.adjust) {
+    const delta = item.delta;
+    if (!delta) continue;
+    const sign = delta > 0 ? "+" : "-";
+    lines.push(`<br>- ${item.name} (${sign}${Math.abs(delta)})`);
+  }
+
+  for (const item of plan.setQuantity) {
+    lines.push(`<br>- ${item.name} (set to ${item.quantity})`);
+  }
+
+  for (const item of plan.rename) {
+    lines.push(`<br>- ${item.name} → ${item.to} (rename)`);
+  }
+
+  for (const item of plan.setNote) {
+    lines.push(item.note ? `<br>- ${item.name} (note: "${item.note}")` : `<br>- ${item.name} (clear note)`);
+  }
+
+  for (const item of plan.moveToBuyLater) {
+    lines.push(`<br>- ${item.name} (move to Buy Later)`);
+  }
+
+  for (const item of plan.moveToNow) {
+    lines.push(`<br>- ${item.name} (move back to list)`);
+  }
+
+  for (const item of plan.markPurchased) {
+    const quantity = item.quantity ? ` x${item.quantity}` : "";
+    lines.push(`<br>- ${item.name}${quantity} (bought)`);
+  }
+
+  for (const item of plan.addFromSaved) {
+    const quantity = item.quantity ? ` x${item.quantity}` : "";
+    lines.push(`<br>- ${item.name}${quantity} (from saved)`);
+  }
+
+  if (plan.clearList) {
+    lines.push("<br>- Clear the whole list");
+  }
+
+  if (!lines.length) {
+    return "No grocery list changes requested.";
+  }
+
+  return `Here's what I can do:${lines.join("")}`;
+}
@@ -1,5 +1,8 @@
 /// <reference types="vite/client" />
 
+// Unique per build; set in vite.config.ts
+declare const __BUILD_ID__: string;
+
 // Web Speech API declarations
 interface SpeechRecognition extends EventTarget {
   continuous: boolean;
@@ -0,0 +1,38 @@
+-- Named lists so a user can keep several grocery lists side by side
+CREATE TABLE IF NOT EXISTS lists (
+  id BIGINT GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  user_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users (id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  "order" INTEGER NOT NULL DEFAULT 0
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_lists_user_name ON lists (user_id, lower(name));
+
+ALTER TABLE lists ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own lists" ON lists
+  FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Give every existing user a default list holding their current items
+INSERT INTO lists (user_id, name, "order")
+SELECT DISTINCT user_id, 'Grocery list', 1
+FROM "Grocery list"
+WHERE user_id IS NOT NULL
+ON CONFLICT DO NOTHING;
+
+ALTER TABLE "Grocery list"
+ADD COLUMN IF NOT EXISTS list_id BIGINT REFERENCES lists (id) ON DELETE CASCADE;
+
+UPDATE "Grocery list" g
+SET list_id = l.id
+FROM lists l
+WHERE l.user_id = g.user_id
+  AND g.list_id IS NULL;
+
+-- Order is now unique per list instead of per user
+DROP INDEX IF EXISTS idx_grocery_list_user_order;
+CREATE UNIQUE INDEX idx_grocery_list_list_order ON "Grocery list" (list_id, "order");
+CREATE INDEX IF NOT EXISTS idx_grocery_list_list_id ON "Grocery list" (list_id);
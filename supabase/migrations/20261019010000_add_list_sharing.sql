@@ -0,0 +1,162 @@
+-- Shared household lists: members with roles, invites and row-level security
+
+CREATE TABLE IF NOT EXISTS list_members (
+  list_id BIGINT NOT NULL REFERENCES lists (id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users (id) ON DELETE CASCADE,
+  role TEXT NOT NULL DEFAULT 'editor' CHECK (role IN ('owner', 'editor', 'viewer')),
+  -- Copied from auth.users so members can see who else is on the list
+  email TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (list_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_list_members_user_id ON list_members (user_id);
+
+CREATE TABLE IF NOT EXISTS list_invites (
+  id BIGINT GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  list_id BIGINT NOT NULL REFERENCES lists (id) ON DELETE CASCADE,
+  email TEXT,
+  code TEXT NOT NULL UNIQUE,
+  role TEXT NOT NULL DEFAULT 'editor' CHECK (role IN ('editor', 'viewer')),
+  invited_by UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users (id) ON DELETE CASCADE,
+  expires_at TIMESTAMPTZ NOT NULL DEFAULT now() + INTERVAL '7 days',
+  accepted_at TIMESTAMPTZ
+);
+
+-- Existing list owners become members of their own lists
+INSERT INTO list_members (list_id, user_id, role, email)
+SELECT l.id, l.user_id, 'owner', u.email
+FROM lists l
+JOIN auth.users u ON u.id = l.user_id
+ON CONFLICT DO NOTHING;
+
+-- New lists automatically get their creator as owner
+CREATE OR REPLACE FUNCTION public.add_list_owner()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO list_members (list_id, user_id, role, email)
+  SELECT NEW.id, NEW.user_id, 'owner', email FROM auth.users WHERE id = NEW.user_id
+  ON CONFLICT DO NOTHING;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_list_created
+  AFTER INSERT ON lists
+  FOR EACH ROW EXECUTE FUNCTION public.add_list_owner();
+
+-- Role of the signed-in user on a list, or NULL when not a member.
+-- SECURITY DEFINER so policies on list_members can call it without recursing.
+CREATE OR REPLACE FUNCTION public.list_role(target_list_id BIGINT)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT role FROM list_members
+  WHERE list_id = target_list_id AND user_id = auth.uid()
+$$;
+
+-- Join a list using a code shared by its owner
+CREATE OR REPLACE FUNCTION public.join_list_by_code(invite_code TEXT)
+RETURNS BIGINT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  invite list_invites%ROWTYPE;
+BEGIN
+  SELECT * INTO invite FROM list_invites
+  WHERE upper(code) = upper(trim(invite_code))
+    AND expires_at > now();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invite code is invalid or has expired';
+  END IF;
+
+  INSERT INTO list_members (list_id, user_id, role, email)
+  VALUES (invite.list_id, auth.uid(), invite.role, auth.email())
+  ON CONFLICT DO NOTHING;
+
+  RETURN invite.list_id;
+END;
+$$;
+
+-- Accept every pending invite addressed to the signed-in user's email
+CREATE OR REPLACE FUNCTION public.accept_list_invites()
+RETURNS SETOF BIGINT
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH pending AS (
+    UPDATE list_invites
+    SET accepted_at = now()
+    WHERE lower(email) = lower(auth.email())
+      AND accepted_at IS NULL
+      AND expires_at > now()
+    RETURNING list_id, role
+  )
+  INSERT INTO list_members (list_id, user_id, role, email)
+  SELECT list_id, auth.uid(), role, auth.email() FROM pending
+  ON CONFLICT DO NOTHING
+  RETURNING list_id
+$$;
+
+-- lists: visible to members, managed by the owner
+DROP POLICY IF EXISTS "Users can manage their own lists" ON lists;
+
+CREATE POLICY "Members can view lists" ON lists
+  FOR SELECT USING (public.list_role(id) IS NOT NULL);
+CREATE POLICY "Users can create lists" ON lists
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Owners can update lists" ON lists
+  FOR UPDATE USING (public.list_role(id) = 'owner');
+CREATE POLICY "Owners can delete lists" ON lists
+  FOR DELETE USING (public.list_role(id) = 'owner');
+
+-- list_members: members see each other, owners manage membership, anyone can leave
+ALTER TABLE list_members ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view members" ON list_members
+  FOR SELECT USING (public.list_role(list_id) IS NOT NULL);
+CREATE POLICY "Owners can add members" ON list_members
+  FOR INSERT WITH CHECK (public.list_role(list_id) = 'owner');
+CREATE POLICY "Owners can change roles" ON list_members
+  FOR UPDATE USING (public.list_role(list_id) = 'owner');
+CREATE POLICY "Owners can remove members or members can leave" ON list_members
+  FOR DELETE USING (public.list_role(list_id) = 'owner' OR user_id = auth.uid());
+
+-- list_invites: owners manage invites, invitees can see theirs
+ALTER TABLE list_invites ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners can view invites" ON list_invites
+  FOR SELECT USING (public.list_role(list_id) = 'owner' OR lower(email) = lower(auth.email()));
+CREATE POLICY "Owners can create invites" ON list_invites
+  FOR INSERT WITH CHECK (public.list_role(list_id) = 'owner');
+CREATE POLICY "Owners can delete invites" ON list_invites
+  FOR DELETE USING (public.list_role(list_id) = 'owner');
+
+-- Grocery list: every member can read, owners and editors can change items
+ALTER TABLE "Grocery list" ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view list items" ON "Grocery list"
+  FOR SELECT USING (public.list_role(list_id) IS NOT NULL);
+CREATE POLICY "Editors can add list items" ON "Grocery list"
+  FOR INSERT WITH CHECK (public.list_role(list_id) IN ('owner', 'editor'));
+CREATE POLICY "Editors can update list items" ON "Grocery list"
+  FOR UPDATE USING (public.list_role(list_id) IN ('owner', 'editor'));
+CREATE POLICY "Editors can delete list items" ON "Grocery list"
+  FOR DELETE USING (public.list_role(list_id) IN ('owner', 'editor'));
+
+-- Broadcast list changes to other members; full replica identity so DELETE
+-- events carry list_id and can be filtered per list
+ALTER TABLE "Grocery list" REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE "Grocery list";
@@ -0,0 +1,25 @@
+-- Shelf prices per retailer, used to compare list items across Coles, Woolworths and Aldi.
+-- Rows are imported (or seeded) rather than fetched live; each capture is kept so the
+-- latest price per store/product can be picked and older ones remain as history.
+CREATE TABLE IF NOT EXISTS store_prices (
+  id BIGINT GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  store TEXT NOT NULL CHECK (store IN ('coles', 'woolworths', 'aldi')),
+  product_name TEXT NOT NULL,
+  price NUMERIC(10, 2) NOT NULL CHECK (price >= 0),
+  unit_price NUMERIC(10, 2),
+  unit TEXT,
+  captured_at DATE NOT NULL DEFAULT current_date,
+  link TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_store_prices_store_product
+  ON store_prices (store, lower(product_name), captured_at DESC);
+
+ALTER TABLE store_prices ENABLE ROW LEVEL SECURITY;
+
+-- Reference data: any signed-in user can read it, only the service role writes it
+CREATE POLICY "Authenticated users can read store prices" ON store_prices
+  FOR SELECT
+  TO authenticated
+  USING (true);
@@ -0,0 +1,68 @@
+-- Sample shelf prices so comparison works without live retailer data
+INSERT INTO store_prices (store, product_name, price, unit_price, unit, captured_at) VALUES
+  ('coles', 'Full Cream Milk 2L', 3.10, 1.55, 'L', '2026-10-19'),
+  ('woolworths', 'Full Cream Milk 2L', 3.10, 1.55, 'L', '2026-10-19'),
+  ('aldi', 'Full Cream Milk 2L', 2.99, 1.50, 'L', '2026-10-19'),
+  ('coles', 'Free Range Eggs 12 Pack', 6.50, 0.54, 'each', '2026-10-19'),
+  ('woolworths', 'Free Range Eggs 12 Pack', 6.60, 0.55, 'each', '2026-10-19'),
+  ('aldi', 'Free Range Eggs 12 Pack', 5.79, 0.48, 'each', '2026-10-19'),
+  ('coles', 'White Bread Loaf 700g', 2.70, 0.39, '100g', '2026-10-19'),
+  ('woolworths', 'White Bread Loaf 700g', 2.70, 0.39, '100g', '2026-10-19'),
+  ('aldi', 'White Bread Loaf 700g', 2.29, 0.33, '100g', '2026-10-19'),
+  ('coles', 'Bananas', 3.90, 3.90, 'kg', '2026-10-19'),
+  ('woolworths', 'Bananas', 3.50, 3.50, 'kg', '2026-10-19'),
+  ('aldi', 'Bananas', 3.49, 3.49, 'kg', '2026-10-19'),
+  ('coles', 'Pink Lady Apples', 5.90, 5.90, 'kg', '2026-10-19'),
+  ('woolworths', 'Pink Lady Apples', 6.00, 6.00, 'kg', '2026-10-19'),
+  ('aldi', 'Pink Lady Apples', 4.99, 4.99, 'kg', '2026-10-19'),
+  ('coles', 'Carrots 1kg Bag', 2.00, 2.00, 'kg', '2026-10-19'),
+  ('woolworths', 'Carrots 1kg Bag', 1.90, 1.90, 'kg', '2026-10-19'),
+  ('aldi', 'Carrots 1kg Bag', 1.69, 1.69, 'kg', '2026-10-19'),
+  ('coles', 'Brushed Potatoes 2kg Bag', 5.00, 2.50, 'kg', '2026-10-19'),
+  ('woolworths', 'Brushed Potatoes 2kg Bag', 4.80, 2.40, 'kg', '2026-10-19'),
+  ('aldi', 'Brushed Potatoes 2kg Bag', 4.49, 2.25, 'kg', '2026-10-19'),
+  ('coles', 'Brown Onions 1kg Bag', 3.50, 3.50, 'kg', '2026-10-19'),
+  ('woolworths', 'Brown Onions 1kg Bag', 3.30, 3.30, 'kg', '2026-10-19'),
+  ('aldi', 'Brown Onions 1kg Bag', 2.99, 2.99, 'kg', '2026-10-19'),
+  ('coles', 'Truss Tomatoes', 7.90, 7.90, 'kg', '2026-10-19'),
+  ('woolworths', 'Truss Tomatoes', 7.50, 7.50, 'kg', '2026-10-19'),
+  ('aldi', 'Truss Tomatoes', 6.99, 6.99, 'kg', '2026-10-19'),
+  ('coles', 'Avocado Each', 2.00, 2.00, 'each', '2026-10-19'),
+  ('woolworths', 'Avocado Each', 1.80, 1.80, 'each', '2026-10-19'),
+  ('aldi', 'Avocado Each', 1.49, 1.49, 'each', '2026-10-19'),
+  ('coles', 'Chicken Breast Fillets', 13.00, 13.00, 'kg', '2026-10-19'),
+  ('woolworths', 'Chicken Breast Fillets', 12.50, 12.50, 'kg', '2026-10-19'),
+  ('aldi', 'Chicken Breast Fillets', 11.49, 11.49, 'kg', '2026-10-19'),
+  ('coles', 'Beef Mince 500g', 7.00, 14.00, 'kg', '2026-10-19'),
+  ('woolworths', 'Beef Mince 500g', 7.20, 14.40, 'kg', '2026-10-19'),
+  ('aldi', 'Beef Mince 500g', 6.49, 12.98, 'kg', '2026-10-19'),
+  ('coles', 'Tasty Cheese Block 500g', 8.00, 16.00, 'kg', '2026-10-19'),
+  ('woolworths', 'Tasty Cheese Block 500g', 8.00, 16.00, 'kg', '2026-10-19'),
+  ('aldi', 'Tasty Cheese Block 500g', 6.99, 13.98, 'kg', '2026-10-19'),
+  ('coles', 'Greek Yoghurt 1kg', 6.00, 6.00, 'kg', '2026-10-19'),
+  ('woolworths', 'Greek Yoghurt 1kg', 5.80, 5.80, 'kg', '2026-10-19'),
+  ('aldi', 'Greek Yoghurt 1kg', 4.49, 4.49, 'kg', '2026-10-19'),
+  ('coles', 'Salted Butter 250g', 4.20, 1.68, '100g', '2026-10-19'),
+  ('woolworths', 'Salted Butter 250g', 4.30, 1.72, '100g', '2026-10-19'),
+  ('aldi', 'Salted Butter 250g', 3.89, 1.56, '100g', '2026-10-19'),
+  ('coles', 'Basmati Rice 1kg', 3.50, 3.50, 'kg', '2026-10-19'),
+  ('woolworths', 'Basmati Rice 1kg', 3.60, 3.60, 'kg', '2026-10-19'),
+  ('aldi', 'Basmati Rice 1kg', 2.79, 2.79, 'kg', '2026-10-19'),
+  ('coles', 'Spaghetti Pasta 500g', 1.50, 3.00, 'kg', '2026-10-19'),
+  ('woolworths', 'Spaghetti Pasta 500g', 1.50, 3.00, 'kg', '2026-10-19'),
+  ('aldi', 'Spaghetti Pasta 500g', 0.99, 1.98, 'kg', '2026-10-19'),
+  ('coles', 'Tuna in Spring Water 95g', 1.60, 1.68, '100g', '2026-10-19'),
+  ('woolworths', 'Tuna in Spring Water 95g', 1.50, 1.58, '100g', '2026-10-19'),
+  ('aldi', 'Tuna in Spring Water 95g', 0.99, 1.04, '100g', '2026-10-19'),
+  ('coles', 'Coffee Beans 1kg', 22.00, 22.00, 'kg', '2026-10-19'),
+  ('woolworths', 'Coffee Beans 1kg', 21.00, 21.00, 'kg', '2026-10-19'),
+  ('aldi', 'Coffee Beans 1kg', 17.99, 17.99, 'kg', '2026-10-19'),
+  ('coles', 'Extra Virgin Olive Oil 1L', 14.00, 14.00, 'L', '2026-10-19'),
+  ('woolworths', 'Extra Virgin Olive Oil 1L', 13.50, 13.50, 'L', '2026-10-19'),
+  ('aldi', 'Extra Virgin Olive Oil 1L', 10.99, 10.99, 'L', '2026-10-19'),
+  ('coles', 'Toilet Paper 12 Pack', 8.50, 0.71, 'each', '2026-10-19'),
+  ('woolworths', 'Toilet Paper 12 Pack', 8.00, 0.67, 'each', '2026-10-19'),
+  ('aldi', 'Toilet Paper 12 Pack', 6.49, 0.54, 'each', '2026-10-19'),
+  ('coles', 'Dishwashing Liquid 500ml', 3.20, 6.40, 'L', '2026-10-19'),
+  ('woolworths', 'Dishwashing Liquid 500ml', 3.00, 6.00, 'L', '2026-10-19'),
+  ('aldi', 'Dishwashing Liquid 500ml', 1.99, 3.98, 'L', '2026-10-19');
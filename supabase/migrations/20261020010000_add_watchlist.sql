@@ -0,0 +1,106 @@
+-- Watchlist: items a user wants to hear about when they go on special.
+-- normalized_name is written by the app (lower-cased, singular via normalizePlural).
+CREATE TABLE IF NOT EXISTS tracked_items (
+  id BIGINT GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  user_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users (id) ON DELETE CASCADE,
+  item_name TEXT NOT NULL,
+  normalized_name TEXT NOT NULL,
+  category TEXT,
+  source TEXT NOT NULL CHECK (source IN ('Grocery list', 'SavedlistItems', 'Purchase history'))
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tracked_items_user_name ON tracked_items (user_id, normalized_name);
+
+ALTER TABLE tracked_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own tracked items" ON tracked_items
+  FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- One row per tracked item that is (or was) on special; seen_at is set once the user has looked
+CREATE TABLE IF NOT EXISTS special_matches (
+  id BIGINT GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  user_id UUID NOT NULL REFERENCES auth.users (id) ON DELETE CASCADE,
+  tracked_item_id BIGINT NOT NULL REFERENCES tracked_items (id) ON DELETE CASCADE,
+  special_id BIGINT NOT NULL REFERENCES specials (id) ON DELETE CASCADE,
+  seen_at TIMESTAMPTZ,
+  UNIQUE (tracked_item_id, special_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_special_matches_user ON special_matches (user_id, seen_at);
+
+ALTER TABLE special_matches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read their own special matches" ON special_matches
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can mark their own special matches seen" ON special_matches
+  FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can dismiss their own special matches" ON special_matches
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- A special matches a tracked item when the tracked name appears as a whole word
+-- (optionally pluralised) in the special's name, or when the tracked category matches.
+CREATE OR REPLACE FUNCTION public.special_matches_tracked_item(special_item TEXT, special_category TEXT, tracked_name TEXT, tracked_category TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT lower(special_item) ~ ('\m' || regexp_replace(tracked_name, '([.*+?^${}()|\[\]\\])', '\\\1', 'g') || '(s|es)?\M')
+    OR (tracked_category IS NOT NULL AND lower(tracked_category) = lower(special_category));
+$$;
+
+-- Runs whenever a catalogue is imported or a special is switched back on
+CREATE OR REPLACE FUNCTION public.match_special_to_watchlists()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.on_special THEN
+    INSERT INTO special_matches (user_id, tracked_item_id, special_id)
+    SELECT t.user_id, t.id, NEW.id
+    FROM tracked_items t
+    WHERE special_matches_tracked_item(NEW.item, NEW.category, t.normalized_name, t.category)
+    ON CONFLICT (tracked_item_id, special_id) DO NOTHING;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_special_upserted
+  AFTER INSERT OR UPDATE OF item, category, on_special ON specials
+  FOR EACH ROW EXECUTE FUNCTION public.match_special_to_watchlists();
+
+-- Newly tracked items are checked against what is already on special
+CREATE OR REPLACE FUNCTION public.match_tracked_item_to_specials()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO special_matches (user_id, tracked_item_id, special_id)
+  SELECT NEW.user_id, NEW.id, s.id
+  FROM specials s
+  WHERE s.on_special
+    AND special_matches_tracked_item(s.item, s.category, NEW.normalized_name, NEW.category)
+  ON CONFLICT (tracked_item_id, special_id) DO NOTHING;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_tracked_item_created
+  AFTER INSERT ON tracked_items
+  FOR EACH ROW EXECUTE FUNCTION public.match_tracked_item_to_specials();
+
+ALTER PUBLICATION supabase_realtime ADD TABLE special_matches;
@@ -0,0 +1,25 @@
+-- Each item ticked off, with its position within the shopping trip, so the app can learn
+-- the order a user walks through each store. Trips are grouped client-side by trip_id.
+CREATE TABLE IF NOT EXISTS purchase_events (
+  id BIGINT GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  user_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users (id) ON DELETE CASCADE,
+  list_id BIGINT REFERENCES lists (id) ON DELETE SET NULL,
+  item TEXT NOT NULL,
+  normalized_name TEXT NOT NULL,
+  quantity INTEGER NOT NULL DEFAULT 1,
+  store TEXT,
+  trip_id UUID NOT NULL,
+  sequence INTEGER NOT NULL,
+  purchased_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_purchase_events_user_store ON purchase_events (user_id, store, purchased_at DESC);
+CREATE INDEX IF NOT EXISTS idx_purchase_events_trip ON purchase_events (trip_id, sequence);
+
+ALTER TABLE purchase_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own purchase events" ON purchase_events
+  FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
@@ -0,0 +1,46 @@
+-- purchase_events becomes the full purchase log: one row per purchase, never edited.
+-- "Purchase history" kept only the latest purchase per row and is no longer written by the app.
+ALTER TABLE purchase_events
+ADD COLUMN IF NOT EXISTS price_paid NUMERIC(10, 2),
+ADD COLUMN IF NOT EXISTS img TEXT;
+
+DROP POLICY IF EXISTS "Users can manage their own purchase events" ON purchase_events;
+
+CREATE POLICY "Users can read their own purchase events" ON purchase_events
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can record their own purchases" ON purchase_events
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+-- No UPDATE policy: events are append-only. Deleting is allowed so a mistaken
+-- purchase can be undone or removed from history.
+CREATE POLICY "Users can delete their own purchase events" ON purchase_events
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Bring over existing history. Purchases made on the same day become one trip, in the order
+-- they were bought. Rows already logged as events (bought since purchase_events was added)
+-- are skipped.
+INSERT INTO purchase_events (user_id, item, normalized_name, quantity, trip_id, sequence, purchased_at)
+SELECT
+  h.user_id,
+  h."Item",
+  lower(trim(h."Item")),
+  h."Quantity",
+  md5(h.user_id::text || (h.last_bought AT TIME ZONE 'UTC')::date::text)::uuid,
+  row_number() OVER (
+    PARTITION BY h.user_id, (h.last_bought AT TIME ZONE 'UTC')::date
+    ORDER BY h.last_bought
+  ),
+  h.last_bought
+FROM "Purchase history" h
+WHERE h.user_id IS NOT NULL
+  AND NOT EXISTS (
+    SELECT 1
+    FROM purchase_events e
+    WHERE e.user_id = h.user_id
+      AND lower(e.item) = lower(h."Item")
+      AND abs(extract(epoch FROM e.purchased_at - h.last_bought)) < 60
+  );
@@ -0,0 +1,4 @@
+-- What a purchase saved compared with the regular shelf price, when it was bought on special.
+-- Stored per event because the list row (and its special details) is gone once it's ticked off.
+ALTER TABLE purchase_events
+ADD COLUMN IF NOT EXISTS savings NUMERIC(10, 2);
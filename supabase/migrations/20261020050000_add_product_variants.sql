@@ -0,0 +1,59 @@
+-- Products group specials that are the same thing in different flavours or sizes
+-- (e.g. "Sirena Tuna" in olive oil, spring water, chilli). Each specials row stays one
+-- buyable variant; product_id points it at its parent and variant names what sets it apart.
+CREATE TABLE IF NOT EXISTS products (
+  id BIGINT GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  name TEXT NOT NULL,
+  normalized_name TEXT NOT NULL UNIQUE,
+  category TEXT
+);
+
+ALTER TABLE products ENABLE ROW LEVEL SECURITY;
+
+-- Reference data like specials: any signed-in user can read it, only the service role writes it
+CREATE POLICY "Authenticated users can read products" ON products
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+ALTER TABLE specials
+ADD COLUMN IF NOT EXISTS product_id BIGINT REFERENCES products (id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS variant TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_specials_product_id ON specials (product_id);
+
+-- The variant picked when the item was added, so the list and history show which one
+ALTER TABLE "Grocery list"
+ADD COLUMN IF NOT EXISTS variant TEXT;
+
+ALTER TABLE purchase_events
+ADD COLUMN IF NOT EXISTS variant TEXT;
+
+-- Group existing catalogue rows named "<product> - <variant>" when a product has more than one
+WITH split AS (
+  SELECT
+    id,
+    trim(split_part(item, ' - ', 1)) AS product_name,
+    trim(substr(item, strpos(item, ' - ') + 3)) AS variant_name,
+    category
+  FROM specials
+  WHERE strpos(item, ' - ') > 0
+),
+grouped AS (
+  SELECT lower(product_name) AS normalized_name, min(product_name) AS name, min(category) AS category
+  FROM split
+  GROUP BY lower(product_name)
+  HAVING count(*) > 1
+)
+INSERT INTO products (name, normalized_name, category)
+SELECT name, normalized_name, category FROM grouped
+ON CONFLICT (normalized_name) DO NOTHING;
+
+UPDATE specials s
+SET product_id = p.id,
+    variant = trim(substr(s.item, strpos(s.item, ' - ') + 3))
+FROM products p
+WHERE strpos(s.item, ' - ') > 0
+  AND lower(trim(split_part(s.item, ' - ', 1))) = p.normalized_name
+  AND s.product_id IS NULL;
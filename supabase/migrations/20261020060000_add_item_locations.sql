@@ -0,0 +1,22 @@
+-- Where an item sits in a store: a section (Dairy, Bakery...) and optionally the aisle number.
+-- store is a store id from the app ('coles', 'woolworths', 'aldi') or 'any' for the fallback
+-- used when the user hasn't said where they shop. Items without a row get a section inferred
+-- from their name in the app.
+CREATE TABLE IF NOT EXISTS item_locations (
+  id BIGINT GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  user_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users (id) ON DELETE CASCADE,
+  store TEXT NOT NULL DEFAULT 'any',
+  normalized_name TEXT NOT NULL,
+  section TEXT NOT NULL,
+  aisle TEXT,
+  UNIQUE (user_id, store, normalized_name)
+);
+
+ALTER TABLE item_locations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own item locations" ON item_locations
+  FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
@@ -0,0 +1,15 @@
+-- Category of each item (Produce, Dairy & Eggs, Household...). Set by the app's categoriser
+-- when an item is added and editable per row; rows left NULL get a category inferred from
+-- their name when shown, so existing items don't need backfilling.
+ALTER TABLE "Grocery list"
+ADD COLUMN IF NOT EXISTS category TEXT;
+
+ALTER TABLE "SavedlistItems"
+ADD COLUMN IF NOT EXISTS category TEXT;
+
+ALTER TABLE "Purchase history"
+ADD COLUMN IF NOT EXISTS category TEXT;
+
+-- The category at the time of purchase, so spending by category doesn't move when a row is re-categorised
+ALTER TABLE purchase_events
+ADD COLUMN IF NOT EXISTS category TEXT;
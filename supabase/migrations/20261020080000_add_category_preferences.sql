@@ -0,0 +1,17 @@
+-- Categories a user wants to see first (preferred) or not at all (muted) in the specials catalogue.
+-- category is one of the app's categories (Produce, Dairy & Eggs...), which catalogue categories are mapped onto.
+CREATE TABLE IF NOT EXISTS category_preferences (
+  id BIGINT GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  user_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users (id) ON DELETE CASCADE,
+  category TEXT NOT NULL,
+  preference TEXT NOT NULL CHECK (preference IN ('preferred', 'muted')),
+  UNIQUE (user_id, category)
+);
+
+ALTER TABLE category_preferences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own category preferences" ON category_preferences
+  FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
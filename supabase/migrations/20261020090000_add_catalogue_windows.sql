@@ -0,0 +1,24 @@
+-- Each catalogue runs for a window (usually Wednesday to Tuesday). Rows from past catalogues are
+-- kept so an item's price can be compared across weeks; the app shows a row only while today is
+-- inside its window, whatever on_special says.
+ALTER TABLE specials
+ADD COLUMN IF NOT EXISTS valid_from DATE,
+ADD COLUMN IF NOT EXISTS valid_to DATE;
+
+-- Same normalization as the catalogue importer uses to match rows, so one item's rows from
+-- different catalogues can be found together
+ALTER TABLE specials
+ADD COLUMN IF NOT EXISTS normalized_item TEXT GENERATED ALWAYS AS (lower(regexp_replace(trim(item), '\s+', ' ', 'g'))) STORED;
+
+-- Existing rows with an ISO catalogue_date get a one-week window from it
+UPDATE specials
+SET valid_from = catalogue_date::date,
+    valid_to = catalogue_date::date + 6
+WHERE valid_from IS NULL
+  AND catalogue_date ~ '^\d{4}-\d{2}-\d{2}$';
+
+ALTER TABLE specials
+ADD CONSTRAINT specials_valid_window CHECK (valid_to IS NULL OR valid_from IS NULL OR valid_to >= valid_from);
+
+CREATE INDEX IF NOT EXISTS idx_specials_valid_window ON specials (valid_from, valid_to);
+CREATE INDEX IF NOT EXISTS idx_specials_normalized_item ON specials (normalized_item, valid_from);
@@ -0,0 +1,134 @@
+-- Prices were free text ("$3.50", "2 for $5", "25%") and the migrations disagreed on the column
+-- types. The text columns stay as what the user typed or the catalogue printed; alongside them
+-- each row now carries the amount in integer cents, its currency, and the pack size, which is
+-- what totals and unit prices are worked out from.
+
+-- price was created as NUMERIC but the app has always written display strings into it
+ALTER TABLE "Grocery list" ALTER COLUMN price TYPE TEXT USING price::text;
+ALTER TABLE "SavedlistItems" ALTER COLUMN price TYPE TEXT USING price::text;
+
+DO $$
+BEGIN
+  CREATE TYPE public.measure_unit AS ENUM ('g', 'kg', 'mL', 'L', 'each');
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END;
+$$;
+
+ALTER TABLE specials
+ADD COLUMN IF NOT EXISTS price_cents INTEGER CHECK (price_cents >= 0),
+ADD COLUMN IF NOT EXISTS discount_cents INTEGER CHECK (discount_cents >= 0),
+ADD COLUMN IF NOT EXISTS discount_percent NUMERIC(5, 2) CHECK (discount_percent BETWEEN 0 AND 100),
+ADD COLUMN IF NOT EXISTS currency TEXT NOT NULL DEFAULT 'AUD' CHECK (currency ~ '^[A-Z]{3}$'),
+ADD COLUMN IF NOT EXISTS unit_size NUMERIC(10, 3) CHECK (unit_size > 0),
+ADD COLUMN IF NOT EXISTS unit public.measure_unit;
+
+ALTER TABLE "Grocery list"
+ADD COLUMN IF NOT EXISTS price_cents INTEGER CHECK (price_cents >= 0),
+ADD COLUMN IF NOT EXISTS discount_cents INTEGER CHECK (discount_cents >= 0),
+ADD COLUMN IF NOT EXISTS discount_percent NUMERIC(5, 2) CHECK (discount_percent BETWEEN 0 AND 100),
+ADD COLUMN IF NOT EXISTS currency TEXT NOT NULL DEFAULT 'AUD' CHECK (currency ~ '^[A-Z]{3}$'),
+ADD COLUMN IF NOT EXISTS unit_size NUMERIC(10, 3) CHECK (unit_size > 0),
+ADD COLUMN IF NOT EXISTS unit public.measure_unit;
+
+ALTER TABLE "SavedlistItems"
+ADD COLUMN IF NOT EXISTS price_cents INTEGER CHECK (price_cents >= 0),
+ADD COLUMN IF NOT EXISTS discount_cents INTEGER CHECK (discount_cents >= 0),
+ADD COLUMN IF NOT EXISTS discount_percent NUMERIC(5, 2) CHECK (discount_percent BETWEEN 0 AND 100),
+ADD COLUMN IF NOT EXISTS currency TEXT NOT NULL DEFAULT 'AUD' CHECK (currency ~ '^[A-Z]{3}$'),
+ADD COLUMN IF NOT EXISTS unit_size NUMERIC(10, 3) CHECK (unit_size > 0),
+ADD COLUMN IF NOT EXISTS unit public.measure_unit;
+
+-- The parsers below only backfill existing rows and are dropped once that's done. From here on
+-- the app writes the structured columns with the text (structuredPriceFromText() in
+-- src/services/money.ts), so the parsing rules live in one place.
+
+-- The amount in the text, in cents: "80c" is cents, "2 for $5" is the price of one, and
+-- anything else is the first dollar amount, as parseMoney() reads it.
+CREATE OR REPLACE FUNCTION public.parse_cents(value TEXT)
+RETURNS INTEGER
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN multibuy IS NOT NULL AND multibuy[1]::numeric > 0 THEN round(multibuy[2]::numeric * 100 / multibuy[1]::numeric)::integer
+    WHEN amount IS NULL THEN NULL
+    WHEN cleaned !~ '\$' AND cleaned ~* '\d\s*c(ents?)?\M' THEN round(amount)::integer
+    ELSE round(amount * 100)::integer
+  END
+  FROM (SELECT replace(value, ',', '') AS cleaned) c,
+    LATERAL (SELECT substring(cleaned FROM '\d+(?:\.\d+)?')::numeric AS amount,
+                    regexp_match(lower(cleaned), '(\d+)\s*for\s*\$?(\d+(?:\.\d+)?)') AS multibuy) parsed;
+$$;
+
+CREATE OR REPLACE FUNCTION public.parse_percent(value TEXT)
+RETURNS NUMERIC
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE WHEN amount BETWEEN 0 AND 100 THEN amount END
+  FROM (SELECT substring(value FROM '\d+(?:\.\d+)?')::numeric AS amount) parsed;
+$$;
+
+-- Pack size from the item name ("Milk 2L", "Mince 500g", "Eggs 12 Pack"), or a per-kg / each
+-- price ("$3.90/kg", "$1.20 ea"), as parseUnitSize() reads it.
+CREATE OR REPLACE FUNCTION public.parse_unit_size(label TEXT, price TEXT, OUT unit_size NUMERIC, OUT unit public.measure_unit)
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  found TEXT[];
+BEGIN
+  found := regexp_match(lower(coalesce(label, '')), '(\d+(?:\.\d+)?)\s*(kg|g|ml|l|litres?|liters?)\M');
+  IF found IS NOT NULL AND found[1]::numeric > 0 THEN
+    unit_size := found[1]::numeric;
+    unit := CASE
+      WHEN found[2] = 'ml' THEN 'mL'
+      WHEN found[2] IN ('g', 'kg') THEN found[2]
+      ELSE 'L'
+    END::public.measure_unit;
+    RETURN;
+  END IF;
+
+  found := regexp_match(lower(coalesce(label, '')), '(\d+)\s*(pk|pack|pieces?|rolls?)\M');
+  IF found IS NOT NULL AND found[1]::numeric > 0 THEN
+    unit_size := found[1]::numeric;
+    unit := 'each';
+    RETURN;
+  END IF;
+
+  IF lower(coalesce(price, '')) ~ '(/|per\s+)kg' THEN
+    unit_size := 1;
+    unit := 'kg';
+  ELSIF lower(coalesce(price, '')) ~ '\m(each|ea)\M' THEN
+    unit_size := 1;
+    unit := 'each';
+  END IF;
+END;
+$$;
+
+-- Existing rows
+UPDATE specials
+SET price_cents = parse_cents(price),
+    discount_cents = parse_cents(discount),
+    discount_percent = parse_percent(discount_percentage::text),
+    unit_size = (parse_unit_size(item, price)).unit_size,
+    unit = (parse_unit_size(item, price)).unit;
+
+UPDATE "Grocery list"
+SET price_cents = parse_cents(price),
+    discount_cents = parse_cents(discount),
+    discount_percent = parse_percent(discount_percentage),
+    unit_size = (parse_unit_size("Item", price)).unit_size,
+    unit = (parse_unit_size("Item", price)).unit;
+
+UPDATE "SavedlistItems"
+SET price_cents = parse_cents(price),
+    discount_cents = parse_cents(discount),
+    discount_percent = parse_percent(discount_percentage),
+    unit_size = (parse_unit_size("Item", price)).unit_size,
+    unit = (parse_unit_size("Item", price)).unit;
+
+DROP FUNCTION public.parse_cents(TEXT);
+DROP FUNCTION public.parse_percent(TEXT);
+DROP FUNCTION public.parse_unit_size(TEXT, TEXT);
@@ -0,0 +1,18 @@
+-- What a user means to spend on one shop of a list. Each member of a shared list keeps their own,
+-- since whoever does the shop is the one watching the total.
+CREATE TABLE IF NOT EXISTS list_budgets (
+  id BIGINT GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  user_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users (id) ON DELETE CASCADE,
+  list_id BIGINT NOT NULL REFERENCES lists (id) ON DELETE CASCADE,
+  amount_cents INTEGER NOT NULL CHECK (amount_cents > 0),
+  currency TEXT NOT NULL DEFAULT 'AUD' CHECK (currency ~ '^[A-Z]{3}$'),
+  UNIQUE (user_id, list_id)
+);
+
+ALTER TABLE list_budgets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can manage their own budgets" ON list_budgets
+  FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id AND public.list_role(list_id) IS NOT NULL);
@@ -0,0 +1,94 @@
+-- A shop done in "Start shopping" mode: where, when, and what it came to. Its purchases are the
+-- purchase_events rows sharing its id as trip_id. Trips from before trip mode (ticks grouped by
+-- time) have events but no row here.
+CREATE TABLE IF NOT EXISTS shopping_trips (
+  id UUID PRIMARY KEY,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  user_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users (id) ON DELETE CASCADE,
+  list_id BIGINT REFERENCES lists (id) ON DELETE SET NULL,
+  store TEXT,
+  started_at TIMESTAMPTZ NOT NULL,
+  finished_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  item_count INTEGER NOT NULL DEFAULT 0,
+  total_paid NUMERIC(10, 2),
+  savings NUMERIC(10, 2)
+);
+
+CREATE INDEX IF NOT EXISTS idx_shopping_trips_user ON shopping_trips (user_id, started_at DESC);
+
+ALTER TABLE shopping_trips ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read their own trips" ON shopping_trips
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can record their own trips" ON shopping_trips
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+-- Like purchase_events, trips are never edited, only removed
+CREATE POLICY "Users can delete their own trips" ON shopping_trips
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Commits a finished trip in one transaction: the trip, one purchase event per pick, and the
+-- picked quantities taken off the list. Runs as the caller, so the usual policies apply.
+-- A trip that has already been committed (the app retrying after a lost response) is ignored.
+CREATE OR REPLACE FUNCTION public.finish_shopping_trip(trip JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO shopping_trips (id, list_id, store, started_at, item_count, total_paid, savings)
+  SELECT
+    (trip->>'id')::uuid,
+    (trip->>'list_id')::bigint,
+    trip->>'store',
+    (trip->>'started_at')::timestamptz,
+    count(*),
+    sum((p->>'price_paid')::numeric * (p->>'quantity')::integer),
+    sum((p->>'savings')::numeric * (p->>'quantity')::integer)
+  FROM jsonb_array_elements(trip->'picks') p
+  ON CONFLICT (id) DO NOTHING;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO purchase_events (list_id, item, normalized_name, quantity, price_paid, savings, img, variant, category, store, trip_id, sequence, purchased_at)
+  SELECT
+    (trip->>'list_id')::bigint,
+    p->>'item',
+    p->>'normalized_name',
+    (p->>'quantity')::integer,
+    (p->>'price_paid')::numeric,
+    (p->>'savings')::numeric,
+    p->>'img',
+    p->>'variant',
+    p->>'category',
+    trip->>'store',
+    (trip->>'id')::uuid,
+    (p->>'sequence')::integer,
+    (p->>'picked_at')::timestamptz
+  FROM jsonb_array_elements(trip->'picks') p;
+
+  -- Subtract from the list's current quantities so anything other members added meanwhile stays
+  DELETE FROM "Grocery list" g
+  USING (
+    SELECT (p->>'item_id')::bigint AS id, sum((p->>'quantity')::integer) AS quantity
+    FROM jsonb_array_elements(trip->'picks') p
+    GROUP BY 1
+  ) picked
+  WHERE g.id = picked.id
+    AND g."Quantity" <= picked.quantity;
+
+  UPDATE "Grocery list" g
+  SET "Quantity" = g."Quantity" - picked.quantity
+  FROM (
+    SELECT (p->>'item_id')::bigint AS id, sum((p->>'quantity')::integer) AS quantity
+    FROM jsonb_array_elements(trip->'picks') p
+    GROUP BY 1
+  ) picked
+  WHERE g.id = picked.id;
+END;
+$$;
@@ -0,0 +1,60 @@
+-- Recipes a user cooks from, each with its ingredient lines for a number of servings
+CREATE TABLE IF NOT EXISTS recipes (
+  id BIGINT GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  user_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users (id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  servings INTEGER NOT NULL DEFAULT 4 CHECK (servings > 0),
+  notes TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_recipes_user ON recipes (user_id, lower(name));
+
+-- quantity and unit are per the recipe's servings; no unit means a count ("2 onions")
+CREATE TABLE IF NOT EXISTS recipe_ingredients (
+  id BIGINT GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+  recipe_id BIGINT NOT NULL REFERENCES recipes (id) ON DELETE CASCADE,
+  position INTEGER NOT NULL DEFAULT 0,
+  name TEXT NOT NULL,
+  quantity NUMERIC(10, 3) CHECK (quantity > 0),
+  unit TEXT,
+  notes TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_recipe_ingredients_recipe ON recipe_ingredients (recipe_id, position);
+
+-- One planned meal: a recipe on a day, cooked for a number of servings
+CREATE TABLE IF NOT EXISTS meal_plan_entries (
+  id BIGINT GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  user_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users (id) ON DELETE CASCADE,
+  planned_on DATE NOT NULL,
+  recipe_id BIGINT NOT NULL REFERENCES recipes (id) ON DELETE CASCADE,
+  servings INTEGER NOT NULL CHECK (servings > 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_meal_plan_entries_user_day ON meal_plan_entries (user_id, planned_on);
+
+ALTER TABLE recipes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE recipe_ingredients ENABLE ROW LEVEL SECURITY;
+ALTER TABLE meal_plan_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own recipes" ON recipes
+  FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can manage their own recipes' ingredients" ON recipe_ingredients
+  FOR ALL
+  USING (EXISTS (SELECT 1 FROM recipes r WHERE r.id = recipe_id AND r.user_id = auth.uid()))
+  WITH CHECK (EXISTS (SELECT 1 FROM recipes r WHERE r.id = recipe_id AND r.user_id = auth.uid()));
+
+CREATE POLICY "Users can manage their own meal plan" ON meal_plan_entries
+  FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- The recipe a list item was generated for. When several recipes need the same item it keeps
+-- the first, and the item's notes name the rest.
+ALTER TABLE "Grocery list"
+ADD COLUMN IF NOT EXISTS recipe_id BIGINT REFERENCES recipes (id) ON DELETE SET NULL;
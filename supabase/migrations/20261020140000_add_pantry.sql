@@ -0,0 +1,62 @@
+-- What a user has at home: one row per item (by the same normalized name as purchase_events),
+-- stocked up by purchases and run down by hand as things get used.
+CREATE TABLE IF NOT EXISTS pantry_items (
+  id BIGINT GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  user_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users (id) ON DELETE CASCADE,
+  -- The list the item was last bought from, which it goes back on when stock runs low
+  list_id BIGINT REFERENCES lists (id) ON DELETE SET NULL,
+  item TEXT NOT NULL,
+  normalized_name TEXT NOT NULL,
+  quantity INTEGER NOT NULL DEFAULT 0 CHECK (quantity >= 0),
+  expires_on DATE,
+  -- Put back on the list when stock drops below this; null never restocks
+  restock_below INTEGER CHECK (restock_below > 0),
+  last_purchased_at TIMESTAMPTZ,
+  UNIQUE (user_id, normalized_name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_pantry_items_user_expiry ON pantry_items (user_id, expires_on);
+
+ALTER TABLE pantry_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own pantry" ON pantry_items
+  FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Every purchase lands in the pantry, however it was recorded (a tick, a shopping trip or a
+-- replayed offline queue). Restocking an empty item drops its old expiry date, which belonged
+-- to the last lot. Past purchases aren't backfilled: history says nothing about what's left.
+CREATE OR REPLACE FUNCTION public.stock_pantry_from_purchase()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO pantry_items (user_id, list_id, item, normalized_name, quantity, last_purchased_at)
+    VALUES (NEW.user_id, NEW.list_id, NEW.item, NEW.normalized_name, NEW.quantity, NEW.purchased_at)
+    ON CONFLICT (user_id, normalized_name) DO UPDATE
+    SET quantity = pantry_items.quantity + EXCLUDED.quantity,
+        item = EXCLUDED.item,
+        list_id = COALESCE(EXCLUDED.list_id, pantry_items.list_id),
+        expires_on = CASE WHEN pantry_items.quantity = 0 THEN NULL ELSE pantry_items.expires_on END,
+        last_purchased_at = GREATEST(pantry_items.last_purchased_at, EXCLUDED.last_purchased_at);
+    RETURN NEW;
+  END IF;
+
+  -- An undone purchase comes back out of stock
+  UPDATE pantry_items
+  SET quantity = GREATEST(0, quantity - OLD.quantity)
+  WHERE user_id = OLD.user_id
+    AND normalized_name = OLD.normalized_name;
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS stock_pantry_from_purchase ON purchase_events;
+CREATE TRIGGER stock_pantry_from_purchase
+AFTER INSERT OR DELETE ON purchase_events
+FOR EACH ROW EXECUTE FUNCTION public.stock_pantry_from_purchase();
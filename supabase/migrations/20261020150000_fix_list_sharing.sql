@@ -0,0 +1,64 @@
+-- Fixes to shared lists: creators can read back a list they just inserted, join codes are
+-- single-use, and a list can't be left without an owner.
+
+-- The owner membership is added by an AFTER INSERT trigger, so insert ... returning checked
+-- the new row against a policy that couldn't see it yet
+DROP POLICY IF EXISTS "Members can view lists" ON lists;
+CREATE POLICY "Members can view lists" ON lists
+  FOR SELECT USING (user_id = auth.uid() OR public.list_role(id) IS NOT NULL);
+
+-- Join a list using a code shared by its owner; the code is used up once someone joins with it
+CREATE OR REPLACE FUNCTION public.join_list_by_code(invite_code TEXT)
+RETURNS BIGINT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  invite list_invites%ROWTYPE;
+BEGIN
+  SELECT * INTO invite FROM list_invites
+  WHERE upper(code) = upper(trim(invite_code))
+    AND accepted_at IS NULL
+    AND expires_at > now()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invite code is invalid or has expired';
+  END IF;
+
+  INSERT INTO list_members (list_id, user_id, role, email)
+  VALUES (invite.list_id, auth.uid(), invite.role, auth.email())
+  ON CONFLICT DO NOTHING;
+
+  UPDATE list_invites SET accepted_at = now() WHERE id = invite.id;
+
+  RETURN invite.list_id;
+END;
+$$;
+
+-- Owners can't leave or demote themselves; they delete the list instead. Cascades from deleting
+-- the list (the list row is already gone) or the account (no signed-in user) are let through.
+CREATE OR REPLACE FUNCTION public.keep_list_owner()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.role = 'owner'
+    AND OLD.user_id = auth.uid()
+    AND (TG_OP = 'DELETE' OR NEW.role <> 'owner')
+    AND EXISTS (SELECT 1 FROM lists WHERE id = OLD.list_id) THEN
+    RAISE EXCEPTION 'A list owner can''t leave their own list; delete the list instead';
+  END IF;
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS keep_list_owner ON list_members;
+CREATE TRIGGER keep_list_owner
+BEFORE DELETE OR UPDATE OF role ON list_members
+FOR EACH ROW EXECUTE FUNCTION public.keep_list_owner();
@@ -0,0 +1,54 @@
+-- Single ticked purchases get an id from the app, so a purchase replayed from the offline queue
+-- after a lost response isn't recorded (and stocked into the pantry) twice
+ALTER TABLE purchase_events
+  ADD COLUMN IF NOT EXISTS client_event_id UUID UNIQUE;
+
+-- Records one purchase and takes it off the list in one transaction, returning the event id.
+-- Runs as the caller, so the usual policies apply. A purchase that has already been recorded
+-- only returns its id; the list isn't touched again.
+CREATE OR REPLACE FUNCTION public.record_purchase(purchase JSONB)
+RETURNS BIGINT
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  event_id BIGINT;
+  bought INTEGER := (purchase->>'quantity')::integer;
+BEGIN
+  INSERT INTO purchase_events (client_event_id, list_id, item, normalized_name, quantity, price_paid, savings, img, variant, category, store, trip_id, sequence, purchased_at)
+  VALUES (
+    (purchase->>'event_id')::uuid,
+    (purchase->>'list_id')::bigint,
+    purchase->>'item',
+    purchase->>'normalized_name',
+    bought,
+    (purchase->>'price_paid')::numeric,
+    (purchase->>'savings')::numeric,
+    purchase->>'img',
+    purchase->>'variant',
+    purchase->>'category',
+    purchase->>'store',
+    (purchase->>'trip_id')::uuid,
+    (purchase->>'sequence')::integer,
+    COALESCE((purchase->>'purchased_at')::timestamptz, now())
+  )
+  ON CONFLICT (client_event_id) DO NOTHING
+  RETURNING id INTO event_id;
+
+  IF event_id IS NULL THEN
+    SELECT id INTO event_id FROM purchase_events WHERE client_event_id = (purchase->>'event_id')::uuid;
+    RETURN event_id;
+  END IF;
+
+  -- Subtract from the list's current quantity so anything other members added meanwhile stays
+  DELETE FROM "Grocery list"
+  WHERE id = (purchase->>'item_id')::bigint
+    AND COALESCE("Quantity", 1) <= bought;
+
+  UPDATE "Grocery list"
+  SET "Quantity" = COALESCE("Quantity", 1) - bought
+  WHERE id = (purchase->>'item_id')::bigint;
+
+  RETURN event_id;
+END;
+$$;
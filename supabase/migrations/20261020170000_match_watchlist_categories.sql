@@ -0,0 +1,39 @@
+-- Catalogue categories ("Dairy, Eggs & Fridge") are mapped onto the app's own before they're
+-- compared with a tracked item's category. Mirrors matchCategory() in src/lib/utils.ts.
+CREATE OR REPLACE FUNCTION public.app_category(category TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN category IS NULL THEN NULL
+    WHEN category IN ('Produce', 'Bakery', 'Deli', 'Meat & Seafood', 'Dairy & Eggs', 'Pantry', 'Snacks', 'Drinks', 'Frozen', 'Household', 'Personal Care') THEN category
+    WHEN lower(category) ~ 'fruit|veg|produce' THEN 'Produce'
+    WHEN lower(category) ~ 'frozen|freezer' THEN 'Frozen'
+    WHEN lower(category) ~ 'bakery|bread' THEN 'Bakery'
+    WHEN lower(category) ~ 'deli' THEN 'Deli'
+    WHEN lower(category) ~ 'meat|seafood|poultry' THEN 'Meat & Seafood'
+    WHEN lower(category) ~ 'dairy|egg|fridge' THEN 'Dairy & Eggs'
+    WHEN lower(category) ~ 'snack|confectionery|chocolate|chips' THEN 'Snacks'
+    WHEN lower(category) ~ 'drink|beverage|liquor' THEN 'Drinks'
+    WHEN lower(category) ~ 'household|cleaning|laundry|pet' THEN 'Household'
+    WHEN lower(category) ~ 'health|beauty|personal|baby' THEN 'Personal Care'
+    WHEN lower(category) ~ 'pantry|breakfast|international|canned' THEN 'Pantry'
+  END;
+$$;
+
+-- A special matches a tracked item when the tracked name appears as a whole word (optionally
+-- pluralised) in the special's name and the categories agree, so tracking milk (Dairy & Eggs)
+-- skips milk chocolate (Snacks). A category either side doesn't know about doesn't rule it out.
+CREATE OR REPLACE FUNCTION public.special_matches_tracked_item(special_item TEXT, special_category TEXT, tracked_name TEXT, tracked_category TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT lower(special_item) ~ ('\m' || regexp_replace(tracked_name, '([.*+?^${}()|\[\]\\])', '\\\1', 'g') || '(s|es)?\M')
+    AND (
+      tracked_category IS NULL
+      OR public.app_category(special_category) IS NULL
+      OR public.app_category(special_category) = tracked_category
+    );
+$$;
@@ -0,0 +1,95 @@
+-- Owners only hand out editor and viewer roles; a list changes owner through
+-- transfer_list_ownership(), so one owner can't be demoted by another
+
+DROP POLICY IF EXISTS "Owners can add members" ON list_members;
+CREATE POLICY "Owners can add members" ON list_members
+  FOR INSERT WITH CHECK (public.list_role(list_id) = 'owner' AND role IN ('editor', 'viewer'));
+
+DROP POLICY IF EXISTS "Owners can change roles" ON list_members;
+CREATE POLICY "Owners can change roles" ON list_members
+  FOR UPDATE
+  USING (public.list_role(list_id) = 'owner' AND role IN ('editor', 'viewer'))
+  WITH CHECK (role IN ('editor', 'viewer'));
+
+-- Owners still can't leave or demote themselves, unless the list has another owner
+-- (only the case partway through a transfer)
+CREATE OR REPLACE FUNCTION public.keep_list_owner()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.role = 'owner'
+    AND OLD.user_id = auth.uid()
+    AND (TG_OP = 'DELETE' OR NEW.role <> 'owner')
+    AND EXISTS (SELECT 1 FROM lists WHERE id = OLD.list_id)
+    AND NOT EXISTS (
+      SELECT 1 FROM list_members
+      WHERE list_id = OLD.list_id AND role = 'owner' AND user_id <> OLD.user_id
+    ) THEN
+    RAISE EXCEPTION 'A list owner can''t leave their own list; delete the list instead';
+  END IF;
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- Hands a list to another member; the current owner stays on as an editor
+CREATE OR REPLACE FUNCTION public.transfer_list_ownership(target_list_id BIGINT, new_owner_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  list_name TEXT;
+BEGIN
+  IF public.list_role(target_list_id) IS DISTINCT FROM 'owner' THEN
+    RAISE EXCEPTION 'Only the owner can transfer a list';
+  END IF;
+
+  IF new_owner_id = auth.uid() THEN
+    RETURN;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM list_members WHERE list_id = target_list_id AND user_id = new_owner_id) THEN
+    RAISE EXCEPTION 'The new owner must already be a member of the list';
+  END IF;
+
+  SELECT name INTO list_name FROM lists WHERE id = target_list_id;
+  IF EXISTS (
+    SELECT 1 FROM lists
+    WHERE user_id = new_owner_id AND lower(name) = lower(list_name) AND id <> target_list_id
+  ) THEN
+    RAISE EXCEPTION 'The new owner already has a list called %', list_name;
+  END IF;
+
+  UPDATE list_members SET role = 'owner'
+  WHERE list_id = target_list_id AND user_id = new_owner_id;
+
+  UPDATE list_members SET role = 'editor'
+  WHERE list_id = target_list_id AND user_id = auth.uid();
+
+  UPDATE lists SET user_id = new_owner_id WHERE id = target_list_id;
+END;
+$$;
+
+-- Saved items and the old purchase history table stay private to their owner; only list
+-- items are shared
+ALTER TABLE "SavedlistItems" ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage their own saved items" ON "SavedlistItems";
+CREATE POLICY "Users can manage their own saved items" ON "SavedlistItems"
+  FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+ALTER TABLE "Purchase history" ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage their own purchase history" ON "Purchase history";
+CREATE POLICY "Users can manage their own purchase history" ON "Purchase history"
+  FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
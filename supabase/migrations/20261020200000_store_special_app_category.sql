@@ -0,0 +1,65 @@
+-- A special's category in the app's own terms ("Dairy & Eggs" for "Dairy, Eggs & Fridge"),
+-- written by the catalogue importer with matchCategory() from src/lib/utils.ts. Watched specials
+-- are matched on the stored value, so the mapping only lives in the app.
+ALTER TABLE specials ADD COLUMN IF NOT EXISTS app_category TEXT;
+
+-- One-off backfill for specials imported before the column existed, using the SQL copy of the
+-- mapping one last time; the next import of their catalogue rewrites them from the app
+UPDATE specials SET app_category = public.app_category(category)
+WHERE category IS NOT NULL AND app_category IS NULL;
+
+-- special_category is now the special's stored app category
+CREATE OR REPLACE FUNCTION public.special_matches_tracked_item(special_item TEXT, special_category TEXT, tracked_name TEXT, tracked_category TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT lower(special_item) ~ ('\m' || regexp_replace(tracked_name, '([.*+?^${}()|\[\]\\])', '\\\1', 'g') || '(s|es)?\M')
+    AND (
+      tracked_category IS NULL
+      OR special_category IS NULL
+      OR special_category = tracked_category
+    );
+$$;
+
+CREATE OR REPLACE FUNCTION public.match_special_to_watchlists()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.on_special THEN
+    INSERT INTO special_matches (user_id, tracked_item_id, special_id)
+    SELECT t.user_id, t.id, NEW.id
+    FROM tracked_items t
+    WHERE special_matches_tracked_item(NEW.item, NEW.app_category, t.normalized_name, t.category)
+    ON CONFLICT (tracked_item_id, special_id) DO NOTHING;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_special_upserted ON specials;
+CREATE TRIGGER on_special_upserted
+  AFTER INSERT OR UPDATE OF item, app_category, on_special ON specials
+  FOR EACH ROW EXECUTE FUNCTION public.match_special_to_watchlists();
+
+CREATE OR REPLACE FUNCTION public.match_tracked_item_to_specials()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO special_matches (user_id, tracked_item_id, special_id)
+  SELECT NEW.user_id, NEW.id, s.id
+  FROM specials s
+  WHERE s.on_special
+    AND special_matches_tracked_item(s.item, s.app_category, NEW.normalized_name, NEW.category)
+  ON CONFLICT (tracked_item_id, special_id) DO NOTHING;
+  RETURN NEW;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS public.app_category(TEXT);
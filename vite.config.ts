@@ -4,20 +4,23 @@ import path from "path";
 import { Buffer } from "node:buffer";
 import { componentTagger } from "lovable-tagger";
 
-function voiceIntentDevMiddleware(): PluginOption {
+type EdgeHandler = (req: Request) => Promise<Response>;
+
+// Serves an api/ edge function from the dev server
+function edgeApiDevMiddleware(name: string, load: () => Promise<{ default: EdgeHandler }>): PluginOption {
   return {
-    name: "voice-intent-dev-middleware",
+    name: `${name}-dev-middleware`,
     apply: "serve",
     async configureServer(server) {
       const { buffer } = await import("node:stream/consumers");
-      const { default: handler } = await import("./api/voice-intent");
+      const { default: handler } = await load();
 
       if (typeof handler !== "function") {
-        console.warn("[voice-intent] Unable to load API handler for dev middleware");
+        console.warn(`[${name}] Unable to load API handler for dev middleware`);
         return;
       }
 
-      server.middlewares.use("/api/voice-intent", async (req, res) => {
+      server.middlewares.use(`/api/${name}`, async (req, res) => {
         try {
           const originalUrl = (req as any).originalUrl ?? req.url ?? "";
           const url = new URL(originalUrl, "http://localhost");
@@ -52,10 +55,10 @@ function voiceIntentDevMiddleware(): PluginOption {
           const responseBody = await response.arrayBuffer();
           res.end(Buffer.from(responseBody));
         } catch (error) {
-          console.error("[voice-intent] dev handler failed", error);
+          console.error(`[${name}] dev handler failed`, error);
           res.statusCode = 500;
           res.setHeader("Content-Type", "application/json");
-          res.end(JSON.stringify({ error: "Voice assistant dev handler failed" }));
+          res.end(JSON.stringify({ error: `${name} dev handler failed` }));
         }
       });
     },
@@ -73,10 +76,15 @@ export default defineConfig(({ mode }) => {
 
   return {
     base: "/",
+    define: {
+      // Versions the service worker's caches, see public/sw.js
+      __BUILD_ID__: JSON.stringify(Date.now().toString(36)),
+    },
     plugins: [
       react(),
       mode === "development" && componentTagger(),
-      voiceIntentDevMiddleware(),
+      edgeApiDevMiddleware("voice-intent", () => import("./api/voice-intent")),
+      edgeApiDevMiddleware("recipe-import", () => import("./api/recipe-import")),
     ].filter(Boolean) as PluginOption[],
     resolve: {
       alias: {